@@ -1,6 +1,6 @@
 import { Switch, Route, useLocation } from "wouter";
-import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { queryClient, getQueryFn } from "./lib/queryClient";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Loader from "@/components/ui/loader";
@@ -10,6 +10,8 @@ import Calendar from "@/pages/calendar";
 import Analysis from "@/pages/analysis";
 import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
+import Unlock from "@/pages/unlock";
+import Auth, { type AuthUser } from "@/pages/auth";
 import Header from "@/components/layout/header";
 import Navbar from "@/components/layout/navbar";
 import { useEffect, useState } from "react";
@@ -36,15 +38,21 @@ function useDesktopBackground(bgImage: string | null) {
 
 function Router() {
   const [location, setLocation] = useLocation();
-  const [userId, setUserId] = useState<number | null>(null);
   const [bgImage, setBgImage] = useState<string | null>(null);
 
-  // For demo purposes, automatically set a user ID
-  useEffect(() => {
-    // In a real app, we would check for authentication here
-    // For now, just set a default user ID for demonstration
-    setUserId(1);
-  }, []);
+  // Encrypted data has to be unlocked before any other API call works
+  const { data: encryption } = useQuery<{ enabled: boolean; unlocked: boolean }>({
+    queryKey: ["/api/encryption/status"],
+  });
+  const isLocked = !!encryption?.enabled && !encryption.unlocked;
+
+  // The signed-in user, or null when the login screen should be shown
+  const { data: user } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!encryption && !isLocked,
+  });
+  const userId = user ? user.id : null;
 
   // If no path is specified, redirect to /today
   useEffect(() => {
@@ -75,13 +83,19 @@ function Router() {
     >
       <Header />
       <main className="flex-1 overflow-y-auto pb-20">
-        <Switch>
-          <Route path="/today" component={() => renderWithUserId(Today)} />
-          <Route path="/calendar" component={() => renderWithUserId(Calendar)} />
-          <Route path="/analysis" component={() => renderWithUserId(Analysis)} />
-          <Route path="/settings" component={() => renderWithUserId(Settings)} />
-          <Route component={NotFound} />
-        </Switch>
+        {isLocked ? (
+          <Unlock onUnlocked={() => queryClient.invalidateQueries()} />
+        ) : user === null ? (
+          <Auth />
+        ) : (
+          <Switch>
+            <Route path="/today" component={() => renderWithUserId(Today)} />
+            <Route path="/calendar" component={() => renderWithUserId(Calendar)} />
+            <Route path="/analysis" component={() => renderWithUserId(Analysis)} />
+            <Route path="/settings" component={() => renderWithUserId(Settings)} />
+            <Route component={NotFound} />
+          </Switch>
+        )}
       </main>
       <Navbar />
     </div>
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO, subMonths } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { DailyNote } from '@shared/schema';
+
+interface ClinicianReportDialogProps {
+  userId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Options of the PDF report for a doctor: the date range, and which of the
+ * notes logged in it to print. No note is printed unless chosen here.
+ */
+const ClinicianReportDialog: React.FC<ClinicianReportDialogProps> = ({ userId, open, onOpenChange }) => {
+  const [from, setFrom] = useState(() => format(subMonths(new Date(), 6), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [selectedNotes, setSelectedNotes] = useState<string[]>([]);
+
+  const { data: notes = [], isLoading: isNotesLoading } = useQuery<DailyNote[]>({
+    queryKey: ['/api/daily-notes'],
+    enabled: open && userId > 0,
+  });
+
+  const invalidRange = from === '' || to === '' || from > to;
+  const notesInRange = invalidRange ? [] : notes
+    .map(note => ({ day: note.date.split('T')[0], text: note.notes.trim() }))
+    .filter(note => note.text && note.day >= from && note.day <= to)
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  const toggleNote = (day: string, checked: boolean) => {
+    setSelectedNotes(current => checked ? [...current, day] : current.filter(d => d !== day));
+  };
+
+  const handleDownload = () => {
+    const query = new URLSearchParams({ from, to });
+    const days = notesInRange.map(note => note.day).filter(day => selectedNotes.includes(day));
+    if (days.length > 0) query.set('notes', days.join(','));
+    window.open(`/api/analytics/report/${userId}?${query}`, '_blank');
+    onOpenChange(false);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Report for Your Doctor</AlertDialogTitle>
+          <AlertDialogDescription>
+            A PDF with your cycle and period lengths, symptoms by cycle day, mood,
+            medications and the notes you choose below.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Label htmlFor="clinician-report-from">From</Label>
+              <Input id="clinician-report-from" type="date" className="mt-1" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="clinician-report-to">To</Label>
+              <Input id="clinician-report-to" type="date" className="mt-1" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          {invalidRange && <p className="text-xs text-red-600">Choose a start date on or before the end date.</p>}
+
+          <div>
+            <Label>Notes to include</Label>
+            {isNotesLoading ? (
+              <p className="text-xs text-muted-foreground mt-1">Loading notes...</p>
+            ) : notesInRange.length === 0 ? (
+              <p className="text-xs text-muted-foreground mt-1">No notes in this range.</p>
+            ) : (
+              <div className="space-y-2 mt-1 max-h-48 overflow-y-auto">
+                {notesInRange.map(note => (
+                  <label key={note.day} className="flex items-start gap-2">
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={selectedNotes.includes(note.day)}
+                      onCheckedChange={(checked) => toggleNote(note.day, checked === true)}
+                    />
+                    <span>
+                      <span className="font-medium">{format(parseISO(note.day), 'd MMM yyyy')}</span>
+                      <span className="block text-xs text-muted-foreground line-clamp-2">{note.text}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button onClick={handleDownload} disabled={invalidRange}>
+            Download PDF
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ClinicianReportDialog;
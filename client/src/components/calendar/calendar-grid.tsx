@@ -16,7 +16,7 @@ import {
   differenceInDays
 } from 'date-fns';
 import { getCyclePhase, isInFertileWindow, getNextExpectedPeriodDate, getExpectedPeriodDays, getBestCyclePredictionLengths } from '@/lib/cycle-utils';
-import { getDataDrivenCyclePhase } from '@/lib/data-driven-cycle-phase';
+import { getDataDrivenCyclePhase } from '@shared/cycle-phase';
 
 interface CalendarGridProps {
   month: Date;
@@ -11,15 +11,9 @@ import { Check, Pill, Plus, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { formatDate } from '@/lib/date-utils';
 import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import type { Medication } from '@shared/schema';
 
-// Medication type
-export type Medication = {
-  id: number;
-  name: string;
-  dose?: string;
-  frequency?: string;
-  logs: { date: string }[];
-};
+export type { Medication };
 
 interface MedicationTrackerProps {
   userId: number;
@@ -3,7 +3,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Pencil } from 'lucide-react';
+import { Pencil, LogOut } from 'lucide-react';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
@@ -54,6 +54,24 @@ const AccountSettings: React.FC<AccountSettingsProps> = ({ userId }) => {
     }
   });
 
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/logout'),
+    onSuccess: () => {
+      // Drop everything cached for this user; App shows the login screen again
+      queryClient.setQueryData(['/api/user'], null);
+      queryClient.removeQueries({
+        predicate: (query) => query.queryKey[0] !== '/api/user' && query.queryKey[0] !== '/api/encryption/status'
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to log out',
+        variant: 'destructive',
+      });
+    }
+  });
+
   // Handle toggle change for notification settings
   const handleToggleChange = (key: string) => (checked: boolean) => {
     updateSettingsMutation.mutate({ [key]: checked });
@@ -200,6 +218,15 @@ const AccountSettings: React.FC<AccountSettingsProps> = ({ userId }) => {
               <div className="text-xs text-muted-foreground mt-2">These features are unfinished and only visible in dev mode.</div>
             </div>
           )}
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Log out
+          </Button>
         </div>
       </CardContent>
     </Card>
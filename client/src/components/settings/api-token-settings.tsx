@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface ApiToken {
+  id: number;
+  name: string;
+  scope: 'read' | 'write';
+  tokenPrefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// Error messages from apiRequest look like "400: {"message":"Invalid token data"}"
+function errorMessage(error: unknown): string {
+  const text = (error as Error).message || '';
+  try {
+    return JSON.parse(text.slice(text.indexOf(':') + 1)).message;
+  } catch {
+    return text;
+  }
+}
+
+const formatDate = (value: string) => format(parseISO(value), 'MMM d, yyyy HH:mm');
+
+const ApiTokenSettings: React.FC = () => {
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<'read' | 'write'>('read');
+  // The new token is only returned once, right after it is created
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: tokens = [] } = useQuery<ApiToken[]>({
+    queryKey: ['/api/tokens'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/tokens', { name, scope });
+      return res.json() as Promise<ApiToken & { token: string }>;
+    },
+    onSuccess: (created) => {
+      setName('');
+      setNewToken(created.token);
+      queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
+      toast({ title: 'Token revoked', description: 'Scripts using it can no longer access your data.' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast({ title: 'Copied', description: 'The token is on your clipboard.' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy; select the token and copy it by hand.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold mb-1">API Tokens</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Let scripts access your data by sending <code>Authorization: Bearer &lt;token&gt;</code>.
+          Read-only tokens can't change anything.
+        </p>
+
+        {newToken && (
+          <div className="mb-4 p-3 rounded-md bg-muted">
+            <div className="text-sm font-medium mb-1">Copy your new token now. It won't be shown again.</div>
+            <code className="block text-xs break-all mb-2">{newToken}</code>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" onClick={copyToken}>Copy</Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setNewToken(null)}>Done</Button>
+            </div>
+          </div>
+        )}
+
+        {tokens.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {tokens.map(token => (
+              <div key={token.id} className="flex items-center justify-between py-2 border-b border-border">
+                <div>
+                  <div className="text-sm font-medium">
+                    {token.name}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {token.scope === 'read' ? 'Read-only' : 'Read & write'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {token.tokenPrefix}… · created {formatDate(token.createdAt)} ·{' '}
+                    {token.lastUsedAt ? `last used ${formatDate(token.lastUsedAt)}` : 'never used'}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(token.id)}
+                >
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <Label htmlFor="token-name">Token name</Label>
+            <Input
+              id="token-name"
+              value={name}
+              placeholder="e.g. Home Assistant"
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="token-scope">Access</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as 'read' | 'write')}>
+              <SelectTrigger id="token-scope" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card">
+                <SelectItem value="read">Read-only</SelectItem>
+                <SelectItem value="write">Read & write</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={createMutation.isPending || !name.trim()}>
+            Create token
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiTokenSettings;
@@ -25,6 +25,10 @@ import { useToast } from '@/hooks/use-toast';
 import { clearAllStorage } from '@/lib/storage-utils';
 import { FileSpreadsheet, FileJson } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
+import BackupSettings from '@/components/settings/backup-settings';
+import ImportMergeDialog from '@/components/settings/import-merge-dialog';
+import ImportFromApps from '@/components/settings/import-from-apps';
+import CsvExportDialog from '@/components/settings/csv-export-dialog';
 
 interface AppSettingsProps {
   userId: number;
@@ -50,6 +54,8 @@ const AppSettings: React.FC<AppSettingsProps> = ({ userId }) => {
   const [isIOS, setIsIOS] = useState(false);
   const [showDevSettings, setShowDevSettings] = useState(false);
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [csvExportOpen, setCsvExportOpen] = useState(false);
   const [showPmddSymptoms, setShowPmddSymptoms] = useState<boolean>(true);
   const { toast } = useToast();
   
@@ -258,75 +264,19 @@ const AppSettings: React.FC<AppSettingsProps> = ({ userId }) => {
 
   // Export/Backup logic
   const handleDownloadCSV = () => {
-    window.open(`/api/export/${userId}`, '_blank');
+    setCsvExportOpen(true);
   };
 
-  const handleDownloadJSON = async () => {
-    try {
-      // Fetch all user data, including medications and sex records
-      const [cycles, flowRecords, moodRecords, symptoms, symptomRecords, dailyNotes, userSettings, medications, sexRecords] = await Promise.all([
-        fetch(`/api/cycles?userId=${userId}`).then(res => res.json()),
-        fetch(`/api/flow-records?userId=${userId}`).then(res => res.json()),
-        fetch(`/api/mood-records?userId=${userId}`).then(res => res.json()),
-        fetch(`/api/user-symptoms?userId=${userId}`).then(res => res.json()),
-        fetch(`/api/symptom-records?userId=${userId}`).then(res => res.json()),
-        fetch(`/api/daily-notes?userId=${userId}`).then(res => res.json()),
-        fetch(`/api/user-settings/${userId}`).then(res => res.json()),
-        fetch(`/api/medications?userId=${userId}`).then(res => res.json()),
-        fetch(`/api/sex-records?userId=${userId}`).then(res => res.json())
-      ]);
-      console.log("[DEBUG] Sex Records fetched for export:", sexRecords);
-
-      // Prepare data for export
-      const exportData = {
-        userId,
-        exportDate: new Date().toISOString(),
-        data: {
-          cycles,
-          flowRecords,
-          moodRecords,
-          symptoms,
-          symptomRecords,
-          dailyNotes,
-          userSettings,
-          medications,
-          sexRecords
-        }
-      };
-
-      // Create and download the JSON file
-      const jsonData = JSON.stringify(exportData, null, 2);
-      const blob = new Blob([jsonData], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `cycle_backup_${new Date().toISOString().slice(0,10)}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      alert('There was an error creating your backup. Please try again.');
-    }
+  // Everything, including settings, as one JSON document built on the server
+  const handleDownloadJSON = () => {
+    window.open(`/api/export/${userId}/json`, '_blank');
   };
 
-  const handleImportJSON = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    try {
-      const text = await file.text();
-      const backup = JSON.parse(text);
-      // Send backup to server or merge locally as needed
-      // For now: POST to /api/import-backup
-      await fetch(`/api/import-backup`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(backup),
-      });
-      alert('Backup imported successfully! Please refresh the page.');
-    } catch (err) {
-      alert('Failed to import backup. Please check your file.');
-    }
+  // The file is previewed first; ImportMergeDialog does the import
+  const handleImportJSON = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setImportFile(e.target.files?.[0] ?? null);
+    // Allow choosing the same file again
+    e.target.value = '';
   };
 
   if (isLoading) {
@@ -405,6 +355,9 @@ const AppSettings: React.FC<AppSettingsProps> = ({ userId }) => {
               Download Full Backup (JSON)
             </Button>
           </div>
+          <CsvExportDialog userId={userId} open={csvExportOpen} onOpenChange={setCsvExportOpen} />
+          <BackupSettings />
+          <ImportFromApps />
 
           <div className="flex items-center mb-4 mt-2">
             <input
@@ -594,11 +547,11 @@ const AppSettings: React.FC<AppSettingsProps> = ({ userId }) => {
               <h3 className="text-lg font-semibold mb-3 text-red-700">Danger Zone</h3>
               <div className="flex flex-col gap-4">
                 <div className="flex flex-col gap-2 bg-red-50 border border-red-200 p-4 rounded-md">
-                  <span className="text-sm font-medium text-red-700">Import Backup (JSON)</span>
-                  <span className="text-xs text-red-600">Warning: You should reset all data before importing a backup to avoid data merging or duplication. Importing a backup will not automatically reset your data.</span>
+                  <span className="text-sm font-medium text-red-700">Import Backup (JSON or .json.gz archive)</span>
+                  <span className="text-xs text-red-600">The backup is merged with your current data. You'll see what would be added and where the backup differs from your data before anything is imported.</span>
                   <input
                     type="file"
-                    accept="application/json"
+                    accept="application/json,.json,.gz"
                     onChange={handleImportJSON}
                     className="block text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-red-100 file:text-red-700 hover:file:bg-red-200 mt-2"
                   />
@@ -634,6 +587,7 @@ const AppSettings: React.FC<AppSettingsProps> = ({ userId }) => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      <ImportMergeDialog file={importFile} onClose={() => setImportFile(null)} />
     </>
   );
 };
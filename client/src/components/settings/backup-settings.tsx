@@ -0,0 +1,227 @@
+import React, { useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface BackupInfo {
+  name: string;
+  createdAt: string;
+  size: number;
+  fileCount: number;
+  hasManifest: boolean;
+}
+
+interface BackupVerification {
+  valid: boolean;
+  hasManifest: boolean;
+  problems: string[];
+}
+
+// Error messages from apiRequest look like "404: {"message":"Backup not found"}"
+function errorMessage(error: unknown): string {
+  const text = (error as Error).message || '';
+  try {
+    return JSON.parse(text.slice(text.indexOf(':') + 1)).message;
+  } catch {
+    return text;
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * The server's own backups in data/backups. Only shown to the administrator,
+ * since every backup holds all accounts' data.
+ */
+const BackupSettings: React.FC = () => {
+  const [restoreTarget, setRestoreTarget] = useState<BackupInfo | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Other users get 403 and file-less storage backends 400; the panel is hidden then
+  const { data: backups, isError } = useQuery<BackupInfo[]>({
+    queryKey: ['/api/backups'],
+  });
+
+  // Checked again every time a restore is about to be confirmed
+  const { data: verification, isFetching: isVerifying } = useQuery<BackupVerification>({
+    queryKey: [`/api/backups/${encodeURIComponent(restoreTarget?.name || '')}/verify`],
+    enabled: restoreTarget !== null,
+    staleTime: 0,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/backups'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/backups'] });
+      toast({ title: 'Backup created', description: 'A copy of all data has been saved on the server.' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (name: string) => apiRequest('POST', `/api/backups/${encodeURIComponent(name)}/restore`),
+    onSuccess: () => {
+      // Everything on screen may have changed
+      queryClient.invalidateQueries();
+      toast({
+        title: 'Backup restored',
+        description: 'Your data from before the restore was backed up first.',
+      });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  // Archives go up as the raw file, which apiRequest (JSON only) can't send
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await fetch('/api/backups/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/gzip' },
+        body: file,
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json() as Promise<BackupInfo>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/backups'] });
+      toast({ title: 'Backup uploaded', description: 'It is listed below and can be restored from there.' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (name: string) => apiRequest('DELETE', `/api/backups/${encodeURIComponent(name)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/backups'] });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    // Allow choosing the same file again
+    e.target.value = '';
+  };
+
+  const handleConfirmRestore = () => {
+    if (restoreTarget) restoreMutation.mutate(restoreTarget.name);
+    setRestoreTarget(null);
+  };
+
+  if (isError || !backups) return null;
+
+  const isBusy = createMutation.isPending || restoreMutation.isPending || deleteMutation.isPending || uploadMutation.isPending;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium">Server Backups</span>
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+            {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => createMutation.mutate()} disabled={isBusy}>
+            {createMutation.isPending ? 'Backing up...' : 'Back Up Now'}
+          </Button>
+        </div>
+        <input ref={fileInputRef} type="file" accept=".gz,application/gzip" onChange={handleUpload} className="hidden" />
+      </div>
+      {backups.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No backups yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {backups.map(backup => (
+            <div key={backup.name} className="flex items-center justify-between py-2 border-b border-border">
+              <div>
+                <div className="text-sm">{format(parseISO(backup.createdAt), 'MMM d, yyyy HH:mm')}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatSize(backup.size)} · {backup.fileCount} files
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" asChild>
+                  <a href={`/api/backups/${encodeURIComponent(backup.name)}/download`} download>Download</a>
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setRestoreTarget(backup)} disabled={isBusy}>
+                  Restore
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(backup.name)} disabled={isBusy}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={restoreTarget !== null} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoreTarget && `Replace the data of every account with the backup from ${format(parseISO(restoreTarget.createdAt), 'MMM d, yyyy HH:mm')}? `}
+              The current data is backed up first, so you can go back to it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="text-sm">
+            {isVerifying || !verification ? (
+              <span className="text-muted-foreground">Checking backup...</span>
+            ) : verification.valid ? (
+              <span className="text-muted-foreground">
+                {verification.hasManifest
+                  ? 'Backup checked: all files are intact.'
+                  : 'This backup is from an older version without checksums; its files could be read.'}
+              </span>
+            ) : (
+              <div className="text-red-600">
+                <div className="font-medium">This backup is damaged and can't be restored:</div>
+                <ul className="list-disc pl-5">
+                  {verification.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmRestore}
+              disabled={isVerifying || !verification?.valid}
+              className="bg-destructive text-destructive-foreground hover:bg-red-600 hover:text-white"
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BackupSettings;
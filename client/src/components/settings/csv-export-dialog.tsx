@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  CSV_EXPORT_COLUMNS,
+  type CsvExportColumn,
+  type CsvExportOptions,
+  type LongExportOptions,
+} from '@shared/schema';
+
+const COLUMN_LABELS: Record<CsvExportColumn, string> = {
+  cycleDay: 'Cycle day',
+  flow: 'Flow',
+  mood: 'Mood',
+  symptoms: 'Symptoms',
+  cervicalMucus: 'Cervical mucus',
+  medications: 'Medications',
+  intimacy: 'Intimacy',
+  notes: 'Notes',
+};
+
+const DELIMITER_LABELS: Record<CsvExportOptions['delimiter'], string> = {
+  comma: 'Comma (,)',
+  semicolon: 'Semicolon (;) for Excel with a decimal comma',
+  tab: 'Tab',
+};
+
+// "long" is one row per observation, for statistics software
+type Layout = 'day' | 'long';
+
+interface CsvExportDialogProps {
+  userId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Options of the CSV download: which days and columns, and the delimiter;
+ * or the long format, a row per observation.
+ */
+const CsvExportDialog: React.FC<CsvExportDialogProps> = ({ userId, open, onOpenChange }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [columns, setColumns] = useState<CsvExportColumn[]>([...CSV_EXPORT_COLUMNS]);
+  const [delimiter, setDelimiter] = useState<CsvExportOptions['delimiter']>('comma');
+  const [symptomIntensities, setSymptomIntensities] = useState(false);
+  const [layout, setLayout] = useState<Layout>('day');
+  const [longFormat, setLongFormat] = useState<LongExportOptions['format']>('csv');
+
+  const toggleColumn = (column: CsvExportColumn, checked: boolean) => {
+    setColumns(current => checked ? [...current, column] : current.filter(c => c !== column));
+  };
+
+  const handleDownload = () => {
+    if (layout === 'long') {
+      const query = new URLSearchParams({ format: longFormat });
+      if (from) query.set('from', from);
+      if (to) query.set('to', to);
+      window.open(`/api/export/${userId}/long?${query}`, '_blank');
+      onOpenChange(false);
+      return;
+    }
+    const query = new URLSearchParams({ delimiter });
+    if (from) query.set('from', from);
+    if (to) query.set('to', to);
+    if (columns.length < CSV_EXPORT_COLUMNS.length) {
+      query.set('columns', CSV_EXPORT_COLUMNS.filter(column => columns.includes(column)).join(','));
+    }
+    if (symptomIntensities) query.set('symptomIntensities', 'true');
+    window.open(`/api/export/${userId}?${query}`, '_blank');
+    onOpenChange(false);
+  };
+
+  const invalidRange = from !== '' && to !== '' && from > to;
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Download Data as CSV</AlertDialogTitle>
+          <AlertDialogDescription>
+            {layout === 'day'
+              ? 'A row per day you logged something, newest first.'
+              : 'A row per flow, mood, symptom, mucus, medication or intimacy entry, oldest first.'}
+            {' '}Leave the dates empty for everything.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Label htmlFor="csv-export-from">From</Label>
+              <Input id="csv-export-from" type="date" className="mt-1" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="csv-export-to">To</Label>
+              <Input id="csv-export-to" type="date" className="mt-1" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          {invalidRange && <p className="text-xs text-red-600">The start date is after the end date.</p>}
+
+          <div>
+            <Label htmlFor="csv-export-layout">Layout</Label>
+            <Select value={layout} onValueChange={(value) => setLayout(value as Layout)}>
+              <SelectTrigger id="csv-export-layout" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card">
+                <SelectItem value="day">A row per day, for spreadsheets</SelectItem>
+                <SelectItem value="long">A row per observation, for R or pandas</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {layout === 'long' ? (
+            <div>
+              <Label htmlFor="csv-export-format">Format</Label>
+              <Select value={longFormat} onValueChange={(value) => setLongFormat(value as LongExportOptions['format'])}>
+                <SelectTrigger id="csv-export-format" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card">
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="ndjson">NDJSON (a JSON object per line)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Columns: date, cycle_id, cycle_day, phase, metric, value.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div>
+                <Label>Columns</Label>
+                <div className="grid grid-cols-2 gap-2 mt-1">
+                  {CSV_EXPORT_COLUMNS.map(column => (
+                    <label key={column} className="flex items-center gap-2">
+                      <Checkbox
+                        checked={columns.includes(column)}
+                        onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                      />
+                      {COLUMN_LABELS[column]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="csv-export-intensities">A column per symptom with its intensity</Label>
+                <Switch id="csv-export-intensities" checked={symptomIntensities} onCheckedChange={setSymptomIntensities} />
+              </div>
+
+              <div>
+                <Label htmlFor="csv-export-delimiter">Separate cells with</Label>
+                <Select value={delimiter} onValueChange={(value) => setDelimiter(value as CsvExportOptions['delimiter'])}>
+                  <SelectTrigger id="csv-export-delimiter" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card">
+                    {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button
+            onClick={handleDownload}
+            disabled={invalidRange || (layout === 'day' && columns.length === 0 && !symptomIntensities)}
+          >
+            Download
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CsvExportDialog;
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CSV_DATE_FORMATS,
+  type CsvColumnMapping,
+  type CsvImportMapping,
+  type CsvImportProfile,
+} from '@shared/schema';
+
+type CsvDateFormat = CsvImportMapping['dateFormat'];
+
+interface CsvInspection {
+  delimiter: string;
+  headers: string[];
+  sample: string[][];
+  rowCount: number;
+  dateFormats: Record<string, CsvDateFormat[]>;
+  suggested: CsvImportMapping;
+}
+
+const FIELD_LABELS: Record<CsvColumnMapping['field'], string> = {
+  date: 'Date',
+  flow: 'Flow',
+  mood: 'Mood',
+  symptoms: 'Symptoms (list)',
+  symptom: 'One symptom (intensity)',
+  cervicalMucus: 'Cervical mucus',
+  notes: 'Notes',
+  medications: 'Medications (list)',
+  intimacy: 'Intimacy',
+};
+
+// Select items can't have an empty value
+const IGNORE = 'ignore';
+
+const PROFILES_KEY = ['/api/import/csv/profiles'];
+
+// Error messages look like "400: {"message":"Invalid column mapping"}"
+function errorMessage(error: unknown): string {
+  const text = (error as Error).message || '';
+  try {
+    return JSON.parse(text.slice(text.indexOf(':') + 1)).message;
+  } catch {
+    return text;
+  }
+}
+
+async function inspectFile(file: File): Promise<CsvInspection> {
+  const res = await fetch('/api/import/csv/inspect', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+    credentials: 'include',
+  });
+  if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+  return res.json();
+}
+
+// e.g. "31/12/2024" for d/M/yyyy
+const formatExample = (dateFormat: CsvDateFormat) => format(new Date(2024, 11, 31), dateFormat);
+
+// A saved mapping applies to the columns this file has
+function applyProfile(profile: CsvImportProfile, headers: string[]): CsvImportMapping {
+  const columns = Object.fromEntries(Object.entries(profile.columns).filter(([header]) => headers.includes(header)));
+  return { columns, dateFormat: profile.dateFormat };
+}
+
+interface CsvImportWizardProps {
+  file: File | null;
+  onCancel: () => void;
+  // Called with the finished mapping; the import itself is previewed next
+  onMapped: (mapping: CsvImportMapping) => void;
+}
+
+/**
+ * First step of a CSV import: say what each column of the file holds.
+ * Mappings can be saved by name, and one whose columns all appear in the
+ * file is picked automatically.
+ */
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ file, onCancel, onMapped }) => {
+  const { toast } = useToast();
+  const [mapping, setMapping] = useState<CsvImportMapping | null>(null);
+  const [profileName, setProfileName] = useState('');
+
+  const { data: inspection, error, isFetching } = useQuery<CsvInspection>({
+    queryKey: ['/api/import/csv/inspect', file?.name, file?.lastModified],
+    queryFn: () => inspectFile(file!),
+    enabled: file !== null,
+    staleTime: 0,
+    gcTime: 0,
+    retry: false,
+  });
+
+  const { data: profiles = [], isFetched: profilesFetched } = useQuery<CsvImportProfile[]>({
+    queryKey: PROFILES_KEY,
+    enabled: file !== null,
+  });
+
+  useEffect(() => {
+    if (!inspection || !profilesFetched) return;
+    const saved = profiles.find(profile => Object.keys(profile.columns).every(header => inspection.headers.includes(header)));
+    setMapping(saved ? applyProfile(saved, inspection.headers) : inspection.suggested);
+    setProfileName(saved?.name ?? '');
+    // Only once per file; saving or deleting a mapping mustn't undo the user's choices
+  }, [inspection, profilesFetched]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', `/api/import/csv/profiles/${encodeURIComponent(profileName.trim())}`, mapping),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROFILES_KEY });
+      toast({ title: 'Mapping saved', description: `"${profileName.trim()}" is used for files with the same columns.` });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (name: string) => apiRequest('DELETE', `/api/import/csv/profiles/${encodeURIComponent(name)}`),
+    onSuccess: () => {
+      setProfileName('');
+      queryClient.invalidateQueries({ queryKey: PROFILES_KEY });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const setColumn = (header: string, field: string) => {
+    if (!mapping || !inspection) return;
+    const { [header]: _previous, ...columns } = mapping.columns;
+    if (field === IGNORE) {
+      setMapping({ ...mapping, columns });
+      return;
+    }
+    const column: CsvColumnMapping = field === 'symptom'
+      ? { field, symptom: header }
+      : { field: field as CsvColumnMapping['field'] };
+    // There is only one date column; its values decide the date format
+    const next = field === 'date'
+      ? Object.fromEntries(Object.entries(columns).filter(([, mapped]) => mapped.field !== 'date'))
+      : columns;
+    const detected = field === 'date' ? inspection.dateFormats[header]?.[0] : undefined;
+    setMapping({ columns: { ...next, [header]: column }, dateFormat: detected ?? mapping.dateFormat });
+  };
+
+  const setSymptomName = (header: string, symptom: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, columns: { ...mapping.columns, [header]: { field: 'symptom', symptom } } });
+  };
+
+  const dateColumn = mapping && Object.keys(mapping.columns).find(header => mapping.columns[header].field === 'date');
+  const detectedFormats = (dateColumn && inspection?.dateFormats[dateColumn]) || [];
+  const sampleValue = (index: number) => inspection?.sample.map(row => row[index]?.trim()).find(Boolean) ?? '';
+  const canContinue = !!mapping && !!dateColumn && Object.values(mapping.columns)
+    .every(column => column.field !== 'symptom' || column.symptom?.trim());
+
+  return (
+    <AlertDialog open={file !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-h-[85vh] overflow-y-auto max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Import {file?.name}</AlertDialogTitle>
+          <AlertDialogDescription>
+            Choose what each column holds. Columns left on "Ignore" aren't imported.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isFetching ? (
+          <p className="text-sm text-muted-foreground">Reading the file...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{errorMessage(error)}</p>
+        ) : inspection && mapping && (
+          <div className="space-y-4 text-sm">
+            <p className="text-muted-foreground">
+              {inspection.rowCount} {inspection.rowCount === 1 ? 'row' : 'rows'}, {inspection.headers.length} columns.
+            </p>
+
+            {profiles.length > 0 && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="csv-profile">Saved mapping</Label>
+                  <Select
+                    value={profiles.some(profile => profile.name === profileName) ? profileName : ''}
+                    onValueChange={(name) => {
+                      const profile = profiles.find(saved => saved.name === name);
+                      if (!profile) return;
+                      setMapping(applyProfile(profile, inspection.headers));
+                      setProfileName(profile.name);
+                    }}
+                  >
+                    <SelectTrigger id="csv-profile" className="mt-1">
+                      <SelectValue placeholder="Choose a saved mapping" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card">
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {profiles.some(profile => profile.name === profileName) && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(profileName)}
+                  >
+                    Delete
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <table className="w-full text-left">
+              <thead className="text-xs text-muted-foreground">
+                <tr>
+                  <th className="font-normal">Column</th>
+                  <th className="font-normal">Example</th>
+                  <th className="font-normal">Holds</th>
+                </tr>
+              </thead>
+              <tbody>
+                {inspection.headers.map((header, index) => {
+                  const column = mapping.columns[header];
+                  return (
+                    <tr key={header} className="align-top">
+                      <td className="py-1 pr-2 font-medium">{header}</td>
+                      <td className="py-1 pr-2 text-xs text-muted-foreground break-all">{sampleValue(index)}</td>
+                      <td className="py-1 space-y-1">
+                        <Select value={column?.field ?? IGNORE} onValueChange={(field) => setColumn(header, field)}>
+                          <SelectTrigger aria-label={`What ${header} holds`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-card">
+                            <SelectItem value={IGNORE}>Ignore</SelectItem>
+                            {Object.entries(FIELD_LABELS).map(([field, label]) => (
+                              <SelectItem key={field} value={field}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {column?.field === 'symptom' && (
+                          <Input
+                            aria-label={`Symptom in ${header}`}
+                            value={column.symptom ?? ''}
+                            placeholder="Symptom name"
+                            onChange={(e) => setSymptomName(header, e.target.value)}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {dateColumn && (
+              <div>
+                <Label htmlFor="csv-date-format">Dates look like</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={(dateFormat) => setMapping({ ...mapping, dateFormat: dateFormat as CsvDateFormat })}
+                >
+                  <SelectTrigger id="csv-date-format" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card">
+                    {CSV_DATE_FORMATS.map(dateFormat => (
+                      <SelectItem key={dateFormat} value={dateFormat}>
+                        {formatExample(dateFormat)}{detectedFormats.includes(dateFormat) ? ' (fits this file)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {detectedFormats.length === 0 && (
+                  <p className="text-xs text-amber-600 mt-1">No date format fits every value in {dateColumn}.</p>
+                )}
+                {detectedFormats.length > 1 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Several formats fit; check whether the day or the month comes first.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="csv-profile-name">Save this mapping as</Label>
+                <Input
+                  id="csv-profile-name"
+                  value={profileName}
+                  placeholder="e.g. My old spreadsheet"
+                  onChange={(e) => setProfileName(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!profileName.trim() || !canContinue || saveMutation.isPending}
+                onClick={() => saveMutation.mutate()}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button onClick={() => mapping && onMapped(mapping)} disabled={!canContinue || isFetching}>
+            Preview Import
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CsvImportWizard;
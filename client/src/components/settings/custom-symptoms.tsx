@@ -9,7 +9,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Plus, X, Eye, EyeOff } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { SymptomCategory } from '@shared/schema';
+import { SymptomCategory, parseHiddenSymptomIds } from '@shared/schema';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 
 interface CustomSymptomsProps {
@@ -66,22 +66,9 @@ const CustomSymptoms: React.FC<CustomSymptomsProps> = ({ userId }) => {
   
   // Process hidden symptoms when settings data changes
   useEffect(() => {
-    if (settings?.hiddenSymptoms) {
-      try {
-        const hiddenDefaults = JSON.parse(settings.hiddenSymptoms);
-        if (Array.isArray(hiddenDefaults)) setHiddenDefaultSymptoms(hiddenDefaults);
-      } catch (e) {
-        console.error('Error parsing hidden default symptoms:', e);
-      }
-    }
-    if (settings?.hiddenCustomSymptoms) {
-      try {
-        const hiddenCustoms = JSON.parse(settings.hiddenCustomSymptoms);
-        if (Array.isArray(hiddenCustoms)) setHiddenCustomSymptoms(hiddenCustoms);
-      } catch (e) {
-        console.error('Error parsing hidden custom symptoms:', e);
-      }
-    }
+    if (!settings) return;
+    setHiddenDefaultSymptoms(parseHiddenSymptomIds(settings.hiddenSymptoms));
+    setHiddenCustomSymptoms(parseHiddenSymptomIds(settings.hiddenCustomSymptoms));
   }, [settings]);
   
   // All symptoms including defaults
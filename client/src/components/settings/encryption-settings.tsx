@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface EncryptionStatus {
+  enabled: boolean;
+  unlocked: boolean;
+  supported: boolean;
+}
+
+// Error messages from apiRequest look like "401: {"message":"Wrong passphrase"}"
+function errorMessage(error: unknown): string {
+  const text = (error as Error).message || '';
+  try {
+    return JSON.parse(text.slice(text.indexOf(':') + 1)).message;
+  } catch {
+    return text;
+  }
+}
+
+const EncryptionSettings: React.FC = () => {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const { toast } = useToast();
+
+  const { data: status } = useQuery<EncryptionStatus>({
+    queryKey: ['/api/encryption/status'],
+  });
+
+  const resetForm = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const enableMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/encryption/enable', { passphrase: newPassphrase }),
+    onSuccess: () => {
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['/api/encryption/status'] });
+      toast({
+        title: 'Encryption enabled',
+        description: 'Your data and backups are now encrypted. Keep your passphrase safe: it cannot be recovered.',
+      });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/encryption/change-passphrase', { currentPassphrase, newPassphrase }),
+    onSuccess: () => {
+      resetForm();
+      toast({ title: 'Passphrase changed', description: 'All data has been re-encrypted.' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: errorMessage(error), variant: 'destructive' });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassphrase !== confirmPassphrase) {
+      toast({ title: 'Error', description: 'Passphrases do not match', variant: 'destructive' });
+      return;
+    }
+    if (status?.enabled) {
+      changeMutation.mutate();
+    } else {
+      enableMutation.mutate();
+    }
+  };
+
+  if (!status) return null;
+
+  const isSaving = enableMutation.isPending || changeMutation.isPending;
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold mb-1">Encryption</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          {status.enabled
+            ? 'Your data and backups are encrypted with your passphrase.'
+            : 'Encrypt your data and backups on disk with a passphrase. You will need it every time the server starts.'}
+        </p>
+        {!status.supported && !status.enabled ? (
+          <div className="text-sm text-muted-foreground">
+            Encryption is only available with file storage.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            {status.enabled && (
+              <div>
+                <Label htmlFor="current-passphrase">Current passphrase</Label>
+                <Input
+                  id="current-passphrase"
+                  type="password"
+                  value={currentPassphrase}
+                  onChange={(e) => setCurrentPassphrase(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="new-passphrase">{status.enabled ? 'New passphrase' : 'Passphrase'}</Label>
+              <Input
+                id="new-passphrase"
+                type="password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="confirm-passphrase">Confirm passphrase</Label>
+              <Input
+                id="confirm-passphrase"
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <Button type="submit" disabled={isSaving || newPassphrase.length < 8}>
+              {status.enabled ? 'Change passphrase' : 'Enable encryption'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EncryptionSettings;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import ImportMergeDialog, { type ImportSource } from '@/components/settings/import-merge-dialog';
+import CsvImportWizard from '@/components/settings/csv-import-wizard';
+
+interface AppImport {
+  source: ImportSource;
+  label: string;
+  hint: string;
+  accept: string;
+}
+
+const APP_IMPORTS: AppImport[] = [
+  {
+    source: 'clue',
+    label: 'Clue',
+    hint: 'The .cluedata (or .json) file from Clue → Settings → Export data.',
+    accept: '.cluedata,.json,application/json',
+  },
+  {
+    source: 'appleHealth',
+    label: 'Apple Health',
+    hint: 'The export.xml file from the archive the Health app creates (Profile → Export All Health Data); unzip it first. Basal body temperatures and ovulation tests are added to the day\'s notes.',
+    accept: '.xml,text/xml,application/xml',
+  },
+  {
+    source: 'csv',
+    label: 'Spreadsheet (CSV)',
+    hint: 'Any CSV file with a row per day, including the CSV export of CycleSense. You choose what each column holds.',
+    accept: '.csv,text/csv',
+  },
+];
+
+/**
+ * History from other tracking apps. Each file is converted on the server and
+ * merged into the existing data after a preview.
+ */
+const ImportFromApps: React.FC = () => {
+  // CSV files get a column mapping (as the query of the import requests) before the preview
+  const [pending, setPending] = useState<{ file: File; source: ImportSource; query?: string } | null>(null);
+  const mappingCsv = pending?.source === 'csv' && !pending.query;
+
+  const handleFile = (source: ImportSource) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setPending({ file, source });
+    // Allow choosing the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mb-6">
+      <span className="text-sm font-medium">Import from Other Apps</span>
+      <div className="space-y-3 mt-2">
+        {APP_IMPORTS.map(app => (
+          <div key={app.source} className="flex flex-col gap-1">
+            <label htmlFor={`import-${app.source}`} className="text-sm">{app.label}</label>
+            <span className="text-xs text-muted-foreground">{app.hint}</span>
+            <input
+              id={`import-${app.source}`}
+              type="file"
+              accept={app.accept}
+              onChange={handleFile(app.source)}
+              className="block text-sm text-gray-500 file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary"
+            />
+          </div>
+        ))}
+      </div>
+      <CsvImportWizard
+        file={mappingCsv ? pending!.file : null}
+        onCancel={() => setPending(null)}
+        onMapped={(mapping) => setPending({ ...pending!, query: `mapping=${encodeURIComponent(JSON.stringify(mapping))}` })}
+      />
+      <ImportMergeDialog
+        file={pending && !mappingCsv ? pending.file : null}
+        source={pending?.source}
+        query={pending?.query}
+        onClose={() => setPending(null)}
+      />
+    </div>
+  );
+};
+
+export default ImportFromApps;
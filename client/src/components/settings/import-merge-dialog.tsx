@@ -0,0 +1,281 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type ConflictResolution = 'keep' | 'replace';
+
+interface CollectionMergeSummary {
+  added: number;
+  duplicates: number;
+  conflicts: number;
+  skipped: number;
+}
+
+interface MergeConflict {
+  collection: string;
+  key: string;
+  fields: string[];
+  existing: Record<string, unknown>;
+  incoming: Record<string, unknown>;
+}
+
+interface ImportRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+// How an entry from another app's export was carried over
+interface TagMapping {
+  category: string;
+  tag: string;
+  mappedTo: string | null;
+  days: number;
+}
+
+interface MergeReport {
+  collections: Record<string, CollectionMergeSummary>;
+  conflicts: MergeConflict[];
+  // Only for imports from other apps
+  mapping?: TagMapping[];
+}
+
+export type ImportSource = 'backup' | 'clue' | 'appleHealth' | 'csv';
+
+// Where each kind of file is previewed and imported
+const IMPORT_ENDPOINTS: Record<ImportSource, { preview: string; commit: string }> = {
+  backup: { preview: '/api/import/preview', commit: '/api/import-backup?mode=merge' },
+  clue: { preview: '/api/import/clue/preview', commit: '/api/import/clue' },
+  appleHealth: { preview: '/api/import/apple-health/preview', commit: '/api/import/apple-health' },
+  csv: { preview: '/api/import/csv/preview', commit: '/api/import/csv' },
+};
+
+const COLLECTION_LABELS: Record<string, string> = {
+  rows: 'Rows',
+  symptoms: 'Custom symptoms',
+  cycles: 'Cycles',
+  flowRecords: 'Flow',
+  moodRecords: 'Moods',
+  symptomRecords: 'Symptom logs',
+  dailyNotes: 'Notes',
+  cervicalMucusRecords: 'Cervical mucus',
+  sexRecords: 'Intimacy',
+  medications: 'Medications',
+  userSettings: 'Settings',
+};
+
+// Only the first conflicts are listed; the counts above cover the rest
+const MAX_CONFLICTS_SHOWN = 20;
+
+// Error messages look like "400: {"message":"Invalid import format"}"
+function errorMessage(error: unknown): string {
+  const text = (error as Error).message || '';
+  try {
+    return JSON.parse(text.slice(text.indexOf(':') + 1)).message;
+  } catch {
+    return text;
+  }
+}
+
+// Invalid records the server listed for a rejected import, per collection
+function errorReport(error: unknown): Record<string, ImportRowError[]> | undefined {
+  const text = (error as Error).message || '';
+  try {
+    const { errors } = JSON.parse(text.slice(text.indexOf(':') + 1));
+    return errors && Object.values(errors).every(Array.isArray) ? errors : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const withQuery = (url: string, query: string) => query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+
+// Exports are sent as JSON, server backup archives (.json.gz) and other apps' files as they are
+async function postImportFile(file: File, source: ImportSource, url: string): Promise<MergeReport> {
+  const contentType = source !== 'backup' ? 'application/octet-stream'
+    : file.name.endsWith('.gz') ? 'application/gzip' : 'application/json';
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType },
+    body: file,
+    credentials: 'include',
+  });
+  if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+  return res.json();
+}
+
+const formatValue = (value: unknown) => value === null || value === undefined ? '—' : String(value);
+
+const ImportErrors: React.FC<{ error: unknown }> = ({ error }) => {
+  const report = errorReport(error);
+  return (
+    <div className="text-sm text-red-600 space-y-2">
+      <p>{errorMessage(error)}</p>
+      {report && Object.entries(report).map(([collection, errors]) => (
+        <div key={collection}>
+          <div className="font-medium">{COLLECTION_LABELS[collection] || collection}</div>
+          <ul className="list-disc pl-5 text-xs">
+            {errors.map((rowError, index) => (
+              <li key={index}>
+                Row {rowError.row}{rowError.field && `, ${rowError.field}`}: {rowError.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MappingSummary: React.FC<{ mapping: TagMapping[] }> = ({ mapping }) => (
+  <div>
+    <div className="font-medium mb-1">What is imported</div>
+    <ul className="space-y-0.5 text-xs">
+      {mapping.map(entry => (
+        <li key={`${entry.category}:${entry.tag}`} className={entry.mappedTo ? '' : 'text-muted-foreground'}>
+          {entry.category} / {entry.tag} → {entry.mappedTo ?? 'not imported'} ({entry.days} {entry.days === 1 ? 'day' : 'days'})
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+interface ImportMergeDialogProps {
+  file: File | null;
+  onClose: () => void;
+  // What kind of file it is; a CycleSense export or backup unless given
+  source?: ImportSource;
+  // Added to both requests, e.g. the column mapping of a CSV file
+  query?: string;
+}
+
+/**
+ * Shows what importing a file would change before anything is written:
+ * new records, records already there, and days where the file and the
+ * stored data disagree. The user then picks which side wins conflicts.
+ */
+const ImportMergeDialog: React.FC<ImportMergeDialogProps> = ({ file, onClose, source = 'backup', query = '' }) => {
+  const { toast } = useToast();
+  const endpoints = IMPORT_ENDPOINTS[source];
+
+  const { data: preview, error, isFetching } = useQuery<MergeReport>({
+    queryKey: [endpoints.preview, file?.name, file?.lastModified, query],
+    queryFn: () => postImportFile(file!, source, withQuery(endpoints.preview, query)),
+    enabled: file !== null,
+    staleTime: 0,
+    gcTime: 0,
+    retry: false,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (resolution: ConflictResolution) =>
+      postImportFile(file!, source, withQuery(withQuery(endpoints.commit, query), `onConflict=${resolution}`)),
+    onSuccess: (report) => {
+      const added = Object.values(report.collections).reduce((total, summary) => total + summary.added, 0);
+      queryClient.invalidateQueries();
+      toast({ title: 'Import complete', description: `${added} records added.` });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: 'Import failed', description: `${errorMessage(error)} Your data was not changed.`, variant: 'destructive' });
+    }
+  });
+
+  const collections = preview ? Object.entries(preview.collections) : [];
+  const hasConflicts = !!preview && preview.conflicts.length > 0;
+
+  return (
+    <AlertDialog open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="max-h-[85vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Import {file?.name}</AlertDialogTitle>
+          <AlertDialogDescription>
+            The file is merged with your data: records you already have are skipped, new ones are added.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isFetching ? (
+          <p className="text-sm text-muted-foreground">Comparing with your data...</p>
+        ) : error ? (
+          <ImportErrors error={error} />
+        ) : preview && (
+          <div className="space-y-4 text-sm">
+            {preview.mapping && <MappingSummary mapping={preview.mapping} />}
+            {collections.length === 0 ? (
+              <p className="text-muted-foreground">The file holds no data.</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-muted-foreground">
+                  <tr>
+                    <th className="font-normal"></th>
+                    <th className="font-normal">New</th>
+                    <th className="font-normal">Already there</th>
+                    <th className="font-normal">Different</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {collections.map(([collection, summary]) => (
+                    <tr key={collection}>
+                      <td>{COLLECTION_LABELS[collection] || collection}</td>
+                      <td>{summary.added}</td>
+                      <td>{summary.duplicates}</td>
+                      <td className={summary.conflicts > 0 ? 'text-amber-600 font-medium' : ''}>{summary.conflicts}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {hasConflicts && (
+              <div>
+                <div className="font-medium mb-1">Differences</div>
+                <ul className="space-y-1 text-xs">
+                  {preview.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map(conflict => (
+                    <li key={`${conflict.collection}:${conflict.key}`}>
+                      <span className="font-medium">{COLLECTION_LABELS[conflict.collection] || conflict.collection}, {conflict.key}: </span>
+                      {conflict.fields.map(field => (
+                        <span key={field} className="mr-2">
+                          {field} {formatValue(conflict.existing[field])} → {formatValue(conflict.incoming[field])}
+                        </span>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+                {preview.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    and {preview.conflicts.length - MAX_CONFLICTS_SHOWN} more
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={importMutation.isPending}>Cancel</AlertDialogCancel>
+          {hasConflicts && (
+            <Button variant="outline" onClick={() => importMutation.mutate('replace')} disabled={importMutation.isPending}>
+              Use Values from File
+            </Button>
+          )}
+          <Button onClick={() => importMutation.mutate('keep')} disabled={!preview || isFetching || importMutation.isPending}>
+            {importMutation.isPending ? 'Importing...' : hasConflicts ? 'Keep My Values' : 'Import'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ImportMergeDialog;
@@ -1,69 +1,7 @@
 import { addDays, differenceInDays, parseISO, endOfDay, isAfter, isBefore } from 'date-fns';
+import { getCyclePhase } from '@shared/cycle-phase';
 
-/**
- * Determines the phase of menstrual cycle
- * @param dateToCheck The date to check the phase for
- * @param lastPeriodStartDate The start date of the last period
- * @param avgCycleLength Average cycle length in days (default 28)
- * @param avgPeriodLength Average period length in days (default 5)
- * @returns The phase name: 'period' | 'follicular' | 'ovulation' | 'luteal'
- */
-export function getCyclePhase(
-  dateToCheck: Date | string, 
-  lastPeriodStartDate: Date | string, 
-  avgCycleLength = 28,
-  avgPeriodLength = 5
-): 'period' | 'follicular' | 'ovulation' | 'luteal' {
-  // Convert string dates to Date objects if needed
-  const start = typeof lastPeriodStartDate === 'string' 
-    ? parseISO(lastPeriodStartDate) 
-    : new Date(lastPeriodStartDate);
-    
-  const checkDate = typeof dateToCheck === 'string' 
-    ? parseISO(dateToCheck) 
-    : new Date(dateToCheck);
-
-  const diffInDays = differenceInDays(checkDate, start);
-  
-  // Calculate ovulation day (typically 14 days before the end of cycle)
-  const ovulationDay = Math.round(avgCycleLength - 14);
-  
-  // Follicular phase starts after period ends and goes until ovulation
-  const follicularStart = avgPeriodLength + 1;
-  const follicularEnd = ovulationDay - 1;
-  
-  // If the date is before the last period start
-  if (diffInDays < 0) {
-    // Calculate how many complete cycles between the dates
-    const completeCycles = Math.floor(Math.abs(diffInDays) / avgCycleLength);
-    // Calculate remaining days in the current cycle
-    const remainingDays = Math.abs(diffInDays) % avgCycleLength;
-    // Calculate which day in the previous cycle, counting backwards from the start
-    const prevCycleDay = avgCycleLength - remainingDays;
-    
-    // Apply the same phase logic to the previous cycle
-    if (prevCycleDay >= 1 && prevCycleDay <= avgPeriodLength) return 'period';
-    if (prevCycleDay >= follicularStart && prevCycleDay <= follicularEnd) return 'follicular';
-    if (prevCycleDay === ovulationDay) return 'ovulation';
-    if (prevCycleDay > ovulationDay && prevCycleDay <= avgCycleLength) return 'luteal';
-  }
-  
-  // For dates after or on the last period start 
-  const cycleDay = (diffInDays % avgCycleLength) + 1;
-
-  // For the current or future cycles
-  if (cycleDay >= 1 && cycleDay <= avgPeriodLength) return 'period';
-  if (cycleDay >= follicularStart && cycleDay <= follicularEnd) return 'follicular';
-  if (cycleDay === ovulationDay) return 'ovulation';
-  if (cycleDay > ovulationDay && cycleDay <= avgCycleLength) return 'luteal';
-  
-  // If we get here, wrap to next cycle
-  const nextCycleDay = cycleDay % avgCycleLength || avgCycleLength; // If 0, use avgCycleLength
-  if (nextCycleDay >= 1 && nextCycleDay <= avgPeriodLength) return 'period';
-  if (nextCycleDay >= follicularStart && nextCycleDay <= follicularEnd) return 'follicular';
-  if (nextCycleDay === ovulationDay) return 'ovulation';
-  return 'luteal';
-}
+export { getCyclePhase, computeCycleAverages, getBestCyclePredictionLengths } from '@shared/cycle-phase';
 
 /**
  * Determines if a given date is within the fertile window
@@ -227,79 +165,6 @@ function getBestCyclePredictionLengths(
   return periodDays;
 }
 
-// --- Data-driven prediction helpers ---
-
-export function computeCycleAverages(
-  flowRecords: Array<{ date: string; intensity: string }>
-): { avgCycleLength: number; avgPeriodLength: number; cyclesCount: number } {
-  const nonSpotting = flowRecords.filter(r => r.intensity !== 'spotting');
-  if (nonSpotting.length < 2) {
-    return { avgCycleLength: 28, avgPeriodLength: 5, cyclesCount: 0 };
-  }
-  const sorted = [...nonSpotting].sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
-  let periodStarts: Date[] = [parseISO(sorted[0].date)];
-  let prevDate = parseISO(sorted[0].date);
-  for (let i = 1; i < sorted.length; i++) {
-    const currDate = parseISO(sorted[i].date);
-    if (differenceInDays(currDate, prevDate) > 2) {
-      periodStarts.push(currDate);
-    }
-    prevDate = currDate;
-  }
-  const cycleLengths = [];
-  for (let i = 1; i < periodStarts.length; i++) {
-    cycleLengths.push(differenceInDays(periodStarts[i], periodStarts[i - 1]));
-  }
-  const periodLengths = [];
-  for (let i = 0; i < periodStarts.length; i++) {
-    const start = periodStarts[i];
-    let len = 1;
-    for (let j = 1; i + j < sorted.length; j++) {
-      const nextDate = parseISO(sorted[i + j].date);
-      if (differenceInDays(nextDate, parseISO(sorted[i + j - 1].date)) === 1) {
-        len++;
-      } else {
-        break;
-      }
-    }
-    periodLengths.push(len);
-  }
-  const avgCycleLength = cycleLengths.length > 0 ? Math.round(cycleLengths.reduce((a, b) => a + b, 0) / cycleLengths.length) : 28;
-  const avgPeriodLength = periodLengths.length > 0 ? Math.round(periodLengths.reduce((a, b) => a + b, 0) / periodLengths.length) : 5;
-  return {
-    avgCycleLength,
-    avgPeriodLength,
-    cyclesCount: periodStarts.length
-  };
-}
-
-export function getBestCyclePredictionLengths(
-  flowRecords: Array<{ date: string; intensity: string }>,
-  userSettings?: { defaultCycleLength?: number; defaultPeriodLength?: number },
-  minCyclesForAverage = 2
-): { avgCycleLength: number; avgPeriodLength: number; used: 'logged' | 'user' | 'default' } {
-  const { avgCycleLength, avgPeriodLength, cyclesCount } = computeCycleAverages(flowRecords);
-  if (cyclesCount >= minCyclesForAverage) {
-    return { avgCycleLength, avgPeriodLength, used: 'logged' };
-  }
-  if (cyclesCount === 1) {
-    // Use first logged period length, but user/default cycle length
-    return {
-      avgCycleLength: userSettings?.defaultCycleLength || 28,
-      avgPeriodLength,
-      used: 'logged'
-    };
-  }
-  if (userSettings?.defaultCycleLength) {
-    return {
-      avgCycleLength: userSettings.defaultCycleLength,
-      avgPeriodLength: userSettings.defaultPeriodLength || 5,
-      used: 'user'
-    };
-  }
-  return { avgCycleLength: 28, avgPeriodLength: 5, used: 'default' };
-}
-
 /**
  * Returns which days should be auto-logged as "light" flow, and which should be removed if period ends early.
  *
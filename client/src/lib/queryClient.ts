@@ -1,6 +1,17 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// The server's UI password cookie has expired: go back through its password page
+async function redirectIfUiPasswordRequired(res: Response) {
+  if (res.status === 401) {
+    const body = await res.clone().json().catch(() => null);
+    if (body?.uiPasswordRequired) {
+      window.location.assign(`/ui-login?next=${encodeURIComponent(window.location.pathname)}`);
+    }
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
+  await redirectIfUiPasswordRequired(res);
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -33,6 +44,7 @@ export const getQueryFn: <T>(options: {
       credentials: "include",
     });
 
+    await redirectIfUiPasswordRequired(res);
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
     }
@@ -1,8 +1,12 @@
 import React from 'react';
+import { FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import ClinicianReportDialog from '@/components/analysis/clinician-report-dialog';
 import CycleStatistics from '@/components/analysis/cycle-statistics';
 import TimeSeriesCharts from '@/components/analysis/time-series-charts';
 import { useCycleData } from '@/hooks/use-cycle-data';
+import { parseHiddenSymptomIds } from '@shared/schema';
 
 interface AnalysisProps {
   userId: number;
@@ -29,23 +33,15 @@ const Analysis: React.FC<AnalysisProps> = ({ userId }) => {
   const [loadedCycles, setLoadedCycles] = React.useState<boolean>(false);
   const [loadedSymptoms, setLoadedSymptoms] = React.useState<boolean>(false);
 
+  const [reportOpen, setReportOpen] = React.useState(false);
+
   // Fetch user settings for hidden symptoms
   React.useEffect(() => {
     fetch(`/api/user-settings/${userId}`)
       .then(res => res.json())
       .then(settings => {
-        if (settings?.hiddenSymptoms) {
-          try {
-            const hiddenDefaults = JSON.parse(settings.hiddenSymptoms);
-            if (Array.isArray(hiddenDefaults)) setHiddenDefaultSymptoms(hiddenDefaults);
-          } catch {}
-        }
-        if (settings?.hiddenCustomSymptoms) {
-          try {
-            const hiddenCustoms = JSON.parse(settings.hiddenCustomSymptoms);
-            if (Array.isArray(hiddenCustoms)) setHiddenCustomSymptoms(hiddenCustoms);
-          } catch {}
-        }
+        setHiddenDefaultSymptoms(parseHiddenSymptomIds(settings?.hiddenSymptoms));
+        setHiddenCustomSymptoms(parseHiddenSymptomIds(settings?.hiddenCustomSymptoms));
         setIsSettingsLoading(false);  // Mark settings as loaded
       })
       .catch(() => setIsSettingsLoading(false));  // Mark settings as loaded on error
@@ -73,7 +69,13 @@ const Analysis: React.FC<AnalysisProps> = ({ userId }) => {
   return (
     <div className="px-4 py-6">
       <div className="mb-6">
-        <h2 className="text-2xl font-bold mb-4">Analysis</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold">Analysis</h2>
+          <Button variant="outline" size="sm" onClick={() => setReportOpen(true)}>
+            <FileText className="h-4 w-4 mr-2" />
+            Doctor's report
+          </Button>
+        </div>
 
         {/* Cycle Statistics */}
         <CycleStatistics 
@@ -100,6 +102,8 @@ const Analysis: React.FC<AnalysisProps> = ({ userId }) => {
         {/* Export Data - removed as export is now in settings */}
         {/* <ExportData userId={userId} /> */}
       </div>
+
+      <ClinicianReportDialog userId={userId} open={reportOpen} onOpenChange={setReportOpen} />
     </div>
   );
 };
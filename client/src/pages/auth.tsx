@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LogIn } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { queryClient } from '@/lib/queryClient';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  email: string;
+}
+
+// Shown instead of the app until someone has signed in. Offers to create an
+// account only while the server has none.
+const Auth: React.FC = () => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: status } = useQuery<{ hasUsers: boolean }>({
+    queryKey: ['/api/auth/status'],
+  });
+  const isRegistering = status ? !status.hasUsers : false;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(isRegistering ? '/api/register' : '/api/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+        credentials: 'include',
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body.message || (isRegistering ? 'Failed to create account' : 'Login failed'));
+        return;
+      }
+      setPassword('');
+      queryClient.setQueryData<AuthUser>(['/api/user'], body);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/status'] });
+    } catch (err) {
+      setError('Could not reach the server');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="flex items-center justify-center h-full px-4">
+      <Card className="w-full">
+        <CardContent className="p-6">
+          <div className="flex items-center gap-2 mb-3">
+            <LogIn className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold">{isRegistering ? 'Create your account' : 'Log in'}</h2>
+          </div>
+          {isRegistering && (
+            <p className="text-sm text-muted-foreground mb-4">
+              This is the first account on this server. It will own any data that is already stored here.
+            </p>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="auth-username">Username</Label>
+              <Input
+                id="auth-username"
+                autoFocus
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                autoComplete={isRegistering ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1"
+              />
+              {isRegistering && (
+                <div className="text-xs text-muted-foreground mt-1">At least 8 characters.</div>
+              )}
+            </div>
+            {error && <div className="text-sm text-destructive">{error}</div>}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!username || !password || isSubmitting || (isRegistering && password.length < 8)}
+            >
+              {isSubmitting ? 'Please wait...' : isRegistering ? 'Create account' : 'Log in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
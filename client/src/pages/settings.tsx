@@ -2,6 +2,8 @@ import React from 'react';
 import AccountSettings from '@/components/settings/account-settings';
 import AppSettings from '@/components/settings/app-settings';
 import CustomSymptoms from '@/components/settings/custom-symptoms';
+import EncryptionSettings from '@/components/settings/encryption-settings';
+import ApiTokenSettings from '@/components/settings/api-token-settings';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 interface SettingsProps {
@@ -36,6 +38,8 @@ const Settings: React.FC<SettingsProps> = ({ userId }) => {
           <TabsContent value="account">
             {/* Account Settings */}
             <AccountSettings userId={userId} />
+            <EncryptionSettings />
+            <ApiTokenSettings />
           </TabsContent>
         </Tabs>
       </div>
@@ -35,7 +35,7 @@ import { useIntimateActivity } from "@/hooks/use-intimate-activity";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { useQuery, UseQueryResult } from "@tanstack/react-query";
-import { getDataDrivenCyclePhase } from "@/lib/data-driven-cycle-phase";
+import { getDataDrivenCyclePhase, getPeriodStarts } from "@shared/cycle-phase";
 import {
   getBestCyclePredictionLengths,
   isInFertileWindow,
@@ -179,23 +179,8 @@ const Today: React.FC<TodayProps> = ({ userId }) => {
       };
     }
 
-    // Filter and sort non-spotting records once
-    const periodRecords = flowRecords
-      .filter((r) => r.intensity !== "spotting")
-      .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
-
     // Identify period starts
-    const periodStarts = periodRecords.reduce((acc, record, index) => {
-      const currentDate = parseISO(record.date);
-      if (
-        index === 0 ||
-        differenceInDays(currentDate, parseISO(periodRecords[index - 1].date)) >
-          2
-      ) {
-        acc.push(currentDate);
-      }
-      return acc;
-    }, [] as Date[]);
+    const periodStarts = getPeriodStarts(flowRecords);
 
     const { avgCycleLength, avgPeriodLength } = getBestCyclePredictionLengths(
       flowRecords,
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface UnlockProps {
+  onUnlocked: () => void;
+}
+
+// Shown instead of the app while the server's encrypted data is locked
+const Unlock: React.FC<UnlockProps> = ({ onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/encryption/unlock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passphrase }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        setError(body.message || 'Failed to unlock');
+        return;
+      }
+      setPassphrase('');
+      onUnlocked();
+    } catch (err) {
+      setError('Could not reach the server');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center h-full px-4">
+      <Card className="w-full">
+        <CardContent className="p-6">
+          <div className="flex items-center gap-2 mb-3">
+            <Lock className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold">Data is locked</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Your data is encrypted. Enter your passphrase to unlock it.
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="unlock-passphrase">Passphrase</Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            {error && <div className="text-sm text-destructive">{error}</div>}
+            <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Unlock;
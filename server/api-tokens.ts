@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import type { ApiToken } from '@shared/schema';
+import { storage, isStorageOpen } from './storage';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with a personal API token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+const TOKEN_PREFIX = 'cs_';
+
+// How much of a token is kept in clear so people can tell their tokens apart
+const VISIBLE_CHARACTERS = TOKEN_PREFIX.length + 6;
+
+// lastUsedAt is only written once a minute per token, not on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Requests a read-only token may make
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A new random token. Only its hash is stored, so the plain token has to be
+ * shown to the user right away.
+ */
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, VISIBLE_CHARACTERS) };
+}
+
+// The token from an "Authorization: Bearer <token>" header, if there is one
+export function bearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization || '');
+  return match ? match[1] : undefined;
+}
+
+/**
+ * The stored token matching the request's Authorization header, if any.
+ * Tokens can't be checked while encrypted data is still locked.
+ */
+export async function findApiToken(req: Request): Promise<ApiToken | undefined> {
+  const token = bearerToken(req);
+  if (!token || !isStorageOpen()) return undefined;
+  return storage.getApiTokenByHash(hashApiToken(token));
+}
+
+/**
+ * Sign in requests that carry "Authorization: Bearer <token>" as the token's
+ * owner. Unknown tokens get 401 rather than falling back to the session, and
+ * read-only tokens can't change anything.
+ */
+export function apiTokenMiddleware() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!bearerToken(req)) return next();
+    try {
+      const apiToken = await findApiToken(req);
+      const user = apiToken && await storage.getUser(apiToken.userId);
+      if (!apiToken || !user) {
+        return res.status(401).json({ message: 'Invalid API token' });
+      }
+      if (apiToken.scope === 'read' && !READ_METHODS.has(req.method)) {
+        return res.status(403).json({ message: 'This API token is read-only' });
+      }
+
+      req.user = user;
+      req.apiToken = apiToken;
+
+      const now = Date.now();
+      const lastUsed = apiToken.lastUsedAt ? new Date(apiToken.lastUsedAt).getTime() : 0;
+      if (now - lastUsed >= TOUCH_INTERVAL_MS) {
+        await storage.touchApiToken(apiToken.id, new Date(now).toISOString());
+      }
+      next();
+    } catch (error) {
+      console.error('[API Tokens] Token check failed:', error);
+      res.status(500).json({ message: 'Failed to check API token' });
+    }
+  };
+}
+
+/**
+ * Keep token-authenticated requests away from routes that manage accounts and
+ * tokens, so a leaked token can't be used to mint or revoke others.
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return res.status(403).json({ message: 'This can only be done from a logged-in session' });
+  }
+  next();
+}
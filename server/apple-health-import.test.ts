@@ -0,0 +1,74 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { convertAppleHealthExport, AppleHealthImportError } = await import('./apple-health-import');
+
+const EXPORT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE HealthData [
+<!ELEMENT HealthData (ExportDate,Me,(Record|Workout)*)>
+]>
+<HealthData locale="de_DE">
+ <ExportDate value="2024-04-01 08:00:00 +0200"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Annas Apple&#160;Watch" unit="count" startDate="2024-03-01 07:00:00 +0200" value="812"/>
+ <Record type="HKCategoryTypeIdentifierMenstrualFlow" sourceName="Zyklus &amp; Co" startDate="2024-03-01 08:00:00 +0200" value="HKCategoryValueMenstrualFlowHeavy">
+  <MetadataEntry key="HKMenstrualCycleStart" value="1"/>
+ </Record>
+ <Record type="HKCategoryTypeIdentifierIntermenstrualBleeding" startDate="2024-03-01 20:00:00 +0200" value="HKCategoryValueNotApplicable"/>
+ <Record type="HKQuantityTypeIdentifierBasalBodyTemperature" unit="deg&#67;" startDate="2024-03-02 06:30:00 +0200" value="36.553"/>
+ <Record type="HKQuantityTypeIdentifierBasalBodyTemperature" unit="degC" startDate="2024-03-02 05:10:00 +0200" value="36.41"/>
+ <Record type="HKCategoryTypeIdentifierSexualActivity" startDate="2024-03-02 22:00:00 +0200" value="HKCategoryValueNotApplicable">
+  <MetadataEntry key="HKSexualActivityProtectionUsed" value="1"/>
+ </Record>
+ <Record type="HKCategoryTypeIdentifierCervicalMucusQuality" startDate="2024-03-03 09:00:00 +0200" value="HKCategoryValueCervicalMucusQualityEggWhite"/>
+ <Record type="HKCategoryTypeIdentifierOvulationTestResult" startDate="2024-03-03 09:05:00 +0200" value="HKCategoryValueOvulationTestResultLuteinizingHormoneSurge"/>
+ <Workout workoutActivityType="HKWorkoutActivityTypeWalking" duration="20"/>
+</HealthData>
+`;
+
+// The file as a stream handing it over `size` bytes at a time
+const inChunks = (text: string, size: number) => {
+  const bytes = Buffer.from(text, 'utf-8');
+  const chunks: Buffer[] = [];
+  for (let start = 0; start < bytes.length; start += size) chunks.push(bytes.subarray(start, start + size));
+  return Readable.from(chunks, { objectMode: false });
+};
+
+test('records are turned into flow, mucus, intimacy and notes', async () => {
+  const { data, mapping, days } = await convertAppleHealthExport(inChunks(EXPORT_XML, 64 * 1024));
+
+  assert.equal(days, 3);
+  // Spotting on a day with real bleeding doesn't lower it
+  assert.deepEqual(data.flowRecords, [{ date: '2024-03-01', intensity: 'heavy' }]);
+  assert.deepEqual(data.cervicalMucusRecords, [{ date: '2024-03-03', type: 'eggwhite' }]);
+  assert.deepEqual(data.sexRecords, [{ date: '2024-03-02', protected: true }]);
+  assert.deepEqual(data.dailyNotes, [
+    // The earliest reading of the day
+    { date: '2024-03-02', notes: 'Basal body temperature: 36.41 °C' },
+    { date: '2024-03-03', notes: 'Ovulation test: positive (LH surge)' }
+  ]);
+  assert.ok(mapping.some(entry => entry.category === 'Menstrual flow' && entry.tag === 'Heavy' && entry.mappedTo === 'Flow: heavy'));
+});
+
+test('tags and entities split between chunks are read as if the file came in one piece', async () => {
+  const whole = await convertAppleHealthExport(inChunks(EXPORT_XML, 64 * 1024));
+  // Every size up to 40 bytes puts boundaries inside "<Record", attribute values and "&#67;"
+  for (let size = 1; size <= 40; size++) {
+    assert.deepEqual(await convertAppleHealthExport(inChunks(EXPORT_XML, size)), whole, `${size}-byte chunks`);
+  }
+});
+
+test('an entity split between chunks is decoded after it is put back together', async () => {
+  const xml = '<HealthData><Record type="HKQuantityTypeIdentifierBasalBodyTemperature" unit="&#176;F" startDate="2024-03-02 06:30:00 +0200" value="97.7"/></HealthData>';
+  const split = xml.indexOf('&#176;') + 3;
+  const stream = Readable.from([Buffer.from(xml.slice(0, split)), Buffer.from(xml.slice(split))], { objectMode: false });
+
+  const { data } = await convertAppleHealthExport(stream);
+  assert.deepEqual(data.dailyNotes, [{ date: '2024-03-02', notes: 'Basal body temperature: 97.7 °F' }]);
+});
+
+test('other XML files are refused', async () => {
+  await assert.rejects(convertAppleHealthExport(inChunks('<?xml version="1.0"?><gpx><trk/></gpx>', 8)), AppleHealthImportError);
+});
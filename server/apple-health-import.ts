@@ -0,0 +1,264 @@
+import type { Readable } from 'stream';
+import { FlowIntensity } from '@shared/schema';
+import type { DataSet } from './data-migrations';
+import { cyclesFromFlowRecords, type ConvertedImport, type ImportTagMapping } from './import-merge';
+
+/**
+ * Thrown for a file that doesn't look like an Apple Health export.xml.
+ */
+export class AppleHealthImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppleHealthImportError';
+  }
+}
+
+interface HealthRecord {
+  type: string;
+  value: string;
+  unit: string;
+  startDate: string;
+  metadata: Record<string, string>;
+}
+
+type Target =
+  | { kind: 'flow'; intensity: string }
+  | { kind: 'mucus'; type: string }
+  | { kind: 'sex' }
+  | { kind: 'temperature' }
+  | { kind: 'ovulationTest'; result: string };
+
+interface RecordType {
+  label: string;
+  // HealthKit values (without the HKCategoryValue... prefix) and what they become
+  values?: Record<string, Target | null>;
+  // For records whose value doesn't matter (a measurement or "not applicable")
+  target?: Target;
+}
+
+const RECORD_TYPES: Record<string, RecordType> = {
+  HKCategoryTypeIdentifierMenstrualFlow: {
+    label: 'Menstrual flow',
+    values: {
+      Unspecified: { kind: 'flow', intensity: FlowIntensity.MEDIUM },
+      Light: { kind: 'flow', intensity: FlowIntensity.LIGHT },
+      Medium: { kind: 'flow', intensity: FlowIntensity.MEDIUM },
+      Heavy: { kind: 'flow', intensity: FlowIntensity.HEAVY },
+      None: null
+    }
+  },
+  HKCategoryTypeIdentifierIntermenstrualBleeding: {
+    label: 'Spotting',
+    target: { kind: 'flow', intensity: FlowIntensity.SPOTTING }
+  },
+  HKCategoryTypeIdentifierCervicalMucusQuality: {
+    label: 'Cervical mucus',
+    values: {
+      Dry: { kind: 'mucus', type: 'dry' },
+      Sticky: { kind: 'mucus', type: 'sticky' },
+      Creamy: { kind: 'mucus', type: 'creamy' },
+      Watery: { kind: 'mucus', type: 'watery' },
+      EggWhite: { kind: 'mucus', type: 'eggwhite' }
+    }
+  },
+  HKCategoryTypeIdentifierSexualActivity: {
+    label: 'Sexual activity',
+    target: { kind: 'sex' }
+  },
+  HKQuantityTypeIdentifierBasalBodyTemperature: {
+    label: 'Basal body temperature',
+    target: { kind: 'temperature' }
+  },
+  HKCategoryTypeIdentifierOvulationTestResult: {
+    label: 'Ovulation test',
+    values: {
+      Negative: { kind: 'ovulationTest', result: 'negative' },
+      // "Positive" is what older versions of iOS recorded for an LH surge
+      Positive: { kind: 'ovulationTest', result: 'positive (LH surge)' },
+      LuteinizingHormoneSurge: { kind: 'ovulationTest', result: 'positive (LH surge)' },
+      EstrogenSurge: { kind: 'ovulationTest', result: 'high (estrogen surge)' },
+      Indeterminate: { kind: 'ovulationTest', result: 'indeterminate' }
+    }
+  }
+};
+
+const FLOW_ORDER: string[] = [FlowIntensity.SPOTTING, FlowIntensity.LIGHT, FlowIntensity.MEDIUM, FlowIntensity.HEAVY];
+
+const TEMPERATURE_UNITS: Record<string, string> = { degC: '°C', degF: '°F' };
+
+// Only these elements matter; everything else in the export (workouts, the
+// DTD, other record types' children) is skipped over
+const TAG_PATTERN = /<(\/?)(Record|MetadataEntry)\b([^>]*?)(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([\w:]+)="([^"]*)"/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return ENTITIES[name] ?? entity;
+    return String.fromCodePoint(name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+  });
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of text.matchAll(ATTRIBUTE_PATTERN)) attributes[name] = decodeEntities(value);
+  return attributes;
+}
+
+/**
+ * Read the records of the types in RECORD_TYPES from an export.xml without
+ * holding the file in memory: exports of a few years of watch data run to
+ * gigabytes, nearly all of it other record types.
+ */
+async function readRecords(stream: Readable, onRecord: (record: HealthRecord) => void) {
+  let buffer = '';
+  let isHealthExport = false;
+  let open: HealthRecord | null = null;
+
+  const finish = (record: HealthRecord) => {
+    if (RECORD_TYPES[record.type]) onRecord(record);
+  };
+
+  stream.setEncoding('utf-8');
+  for await (const chunk of stream) {
+    buffer += chunk;
+    if (!isHealthExport) isHealthExport = buffer.includes('<HealthData');
+
+    let consumed = 0;
+    for (const match of buffer.matchAll(TAG_PATTERN)) {
+      const [tag, closing, name, attributeText, selfClosing] = match;
+      consumed = match.index! + tag.length;
+      if (name === 'MetadataEntry') {
+        const { key, value } = parseAttributes(attributeText);
+        if (open && key) open.metadata[key] = value ?? '';
+      } else if (closing) {
+        if (open) finish(open);
+        open = null;
+      } else {
+        const attributes = parseAttributes(attributeText);
+        const record = {
+          type: attributes.type ?? '',
+          value: attributes.value ?? '',
+          unit: attributes.unit ?? '',
+          startDate: attributes.startDate ?? '',
+          metadata: {}
+        };
+        if (selfClosing) finish(record);
+        else open = record;
+      }
+    }
+    // Keep a tag cut off at the end of the chunk for the next one
+    buffer = buffer.slice(Math.max(consumed, buffer.lastIndexOf('<')));
+  }
+
+  if (!isHealthExport) {
+    throw new AppleHealthImportError('Not an Apple Health export: choose the export.xml file from the exported archive');
+  }
+}
+
+function describe(target: Target): string {
+  switch (target.kind) {
+    case 'flow': return `Flow: ${target.intensity}`;
+    case 'mucus': return `Cervical mucus: ${target.type}`;
+    case 'sex': return 'Intimacy';
+    case 'temperature': return 'Note: basal body temperature';
+    case 'ovulationTest': return `Note: ovulation test ${target.result}`;
+  }
+}
+
+interface HealthDay {
+  flow?: string;
+  mucus?: string;
+  // undefined when no entry said whether protection was used
+  sex?: { protected?: boolean };
+  // The first reading of the day is the waking temperature
+  temperature?: { startDate: string; text: string };
+  ovulationTests: Set<string>;
+}
+
+/**
+ * Turn an Apple Health export.xml into CycleSense import data. Flow, spotting,
+ * cervical mucus and sexual activity become records of their own; there is
+ * nowhere to store basal body temperatures and ovulation test results, so
+ * they are written to the day's note.
+ */
+export async function convertAppleHealthExport(stream: Readable): Promise<ConvertedImport> {
+  const days = new Map<string, HealthDay>();
+  const usage = new Map<string, ImportTagMapping>();
+  const counted = new Set<string>();
+
+  await readRecords(stream, record => {
+    const recordType = RECORD_TYPES[record.type];
+    const day = record.startDate.slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return;
+
+    const valueName = record.value.replace(/^HKCategoryValue(MenstrualFlow|CervicalMucusQuality|OvulationTestResult)?/, '');
+    const target = recordType.target ?? recordType.values?.[valueName] ?? null;
+    const tag = recordType.values ? valueName : recordType.target?.kind === 'temperature' ? 'Reading' : 'Logged';
+
+    const usageKey = `${recordType.label}:${tag}`;
+    if (!usage.has(usageKey)) usage.set(usageKey, { category: recordType.label, tag, mappedTo: target ? describe(target) : null, days: 0 });
+    // Counted once per day, however many entries the day has
+    if (!counted.has(`${usageKey}:${day}`)) {
+      counted.add(`${usageKey}:${day}`);
+      usage.get(usageKey)!.days++;
+    }
+    if (!target) return;
+
+    if (!days.has(day)) days.set(day, { ovulationTests: new Set() });
+    const entry = days.get(day)!;
+
+    if (target.kind === 'flow') {
+      // Several entries on one day: the heaviest is kept
+      if (!entry.flow || FLOW_ORDER.indexOf(target.intensity) > FLOW_ORDER.indexOf(entry.flow)) entry.flow = target.intensity;
+    } else if (target.kind === 'mucus') {
+      entry.mucus = target.type;
+    } else if (target.kind === 'sex') {
+      const used = record.metadata.HKSexualActivityProtectionUsed;
+      const isProtected = used === undefined ? undefined : used === '1';
+      // One record per day: unprotected if any entry was
+      entry.sex = entry.sex?.protected === false || isProtected === false
+        ? { protected: false }
+        : { protected: isProtected ?? entry.sex?.protected };
+    } else if (target.kind === 'temperature') {
+      const value = parseFloat(record.value);
+      if (isNaN(value)) return;
+      if (!entry.temperature || record.startDate < entry.temperature.startDate) {
+        const unit = TEMPERATURE_UNITS[record.unit] ?? record.unit;
+        entry.temperature = { startDate: record.startDate, text: `${Math.round(value * 100) / 100} ${unit}`.trim() };
+      }
+    } else {
+      entry.ovulationTests.add(target.result);
+    }
+  });
+
+  const flowRecords: any[] = [];
+  const cervicalMucusRecords: any[] = [];
+  const sexRecords: any[] = [];
+  const dailyNotes: any[] = [];
+
+  for (const day of Array.from(days.keys()).sort()) {
+    const { flow, mucus, sex, temperature, ovulationTests } = days.get(day)!;
+    if (flow) flowRecords.push({ date: day, intensity: flow });
+    if (mucus) cervicalMucusRecords.push({ date: day, type: mucus });
+    if (sex) sexRecords.push(sex.protected === undefined ? { date: day } : { date: day, protected: sex.protected });
+
+    const lines: string[] = [];
+    if (temperature) lines.push(`Basal body temperature: ${temperature.text}`);
+    if (ovulationTests.size > 0) lines.push(`Ovulation test: ${Array.from(ovulationTests).join(', ')}`);
+    if (lines.length > 0) dailyNotes.push({ date: day, notes: lines.join('\n') });
+  }
+
+  const data: DataSet = {
+    // Apple Health has no cycles of its own
+    cycles: cyclesFromFlowRecords(flowRecords),
+    flowRecords,
+    cervicalMucusRecords,
+    sexRecords,
+    dailyNotes
+  };
+  const mapping = Array.from(usage.values())
+    .sort((a, b) => a.category.localeCompare(b.category) || b.days - a.days);
+  return { data, mapping, days: days.size };
+}
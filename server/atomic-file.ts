@@ -0,0 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+
+const TEMP_SUFFIX = '.tmp';
+
+/**
+ * Write a file so that readers only ever see the old or the new contents.
+ * The data goes to a temp file next to the target, is fsynced, and is then
+ * renamed over the original (rename is atomic on the same filesystem).
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tempPath = `${filePath}${TEMP_SUFFIX}`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeFileSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+  syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Persist the directory entry after a rename. Not supported on Windows,
+ * where the rename is already durable enough for our purposes.
+ */
+function syncDirectory(dirPath: string): void {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(dirPath, 'r');
+    fs.fsyncSync(fd);
+  } catch {
+    // Ignore: directory fsync is best-effort
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+/**
+ * Remove temp files left behind by writes that never reached the rename.
+ * The original file next to each one is still intact.
+ */
+export function removeStaleTempFiles(dirPath: string): string[] {
+  if (!fs.existsSync(dirPath)) return [];
+  const stale = fs.readdirSync(dirPath).filter(file => file.endsWith(TEMP_SUFFIX));
+  stale.forEach(file => fs.rmSync(path.join(dirPath, file), { force: true }));
+  return stale;
+}
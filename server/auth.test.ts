@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { default: express } = await import('express');
+const { setupAuth, getAdminUserId } = await import('./auth');
+
+const app = express();
+app.use(express.json());
+setupAuth(app);
+const server = app.listen(0);
+test.after(() => server.close());
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+async function post(path: string, body: unknown, cookie?: string) {
+  const res = await fetch(baseUrl + path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, cookie: res.headers.get('set-cookie')?.split(';')[0] };
+}
+
+test('only the administrator can add accounts once the first one exists', async () => {
+  const first = await post('/api/register', { username: 'alice', password: 'password123' });
+  assert.equal(first.status, 201);
+  assert.ok(first.cookie);
+
+  assert.equal((await post('/api/register', { username: 'mallory', password: 'password123' })).status, 401);
+  assert.equal((await post('/api/register', { username: 'bob', password: 'password123' }, first.cookie)).status, 201);
+
+  const bob = await post('/api/login', { username: 'bob', password: 'password123' });
+  assert.equal(bob.status, 200);
+  assert.equal((await post('/api/register', { username: 'carol', password: 'password123' }, bob.cookie)).status, 403);
+
+  const { storage } = await import('./storage');
+  assert.equal(await getAdminUserId(), (await storage.getUserByUsername('alice'))?.id);
+  assert.equal(await storage.getUserByUsername('carol'), undefined);
+});
@@ -0,0 +1,212 @@
+import crypto from "crypto";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { z } from "zod";
+import { User as SelectUser } from "@shared/schema";
+import { storage } from "./storage";
+import { hashPassword, isPasswordHash, verifyPassword } from "./passwords";
+import { apiTokenMiddleware, requireSession } from "./api-tokens";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const MemoryStore = createMemoryStore(session);
+
+const registerSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  email: z.string().default(""),
+});
+
+// Never send password hashes to the client
+function publicUser(user: SelectUser) {
+  return { id: user.id, username: user.username, email: user.email };
+}
+
+/**
+ * Only let signed-in users through. Installed in front of every /api route
+ * except the ones setupAuth registers.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Not logged in" });
+}
+
+/**
+ * The administrator is the account created first on this server, the one
+ * that owns it: the lowest user id, since ids are never reused. Only it can
+ * add accounts, manage backups and encryption and edit the IP whitelist.
+ * There is none until the first account exists.
+ */
+export async function getAdminUserId(): Promise<number | undefined> {
+  const users = await storage.getUsers();
+  return users.length > 0 ? Math.min(...users.map(user => user.id)) : undefined;
+}
+
+/**
+ * Only let the administrator through.
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  if (req.user.id !== await getAdminUserId()) {
+    return res.status(403).json({ message: "Only the administrator can do this" });
+  }
+  next();
+}
+
+// Anyone may create the first account, which becomes the administrator; after that only the administrator can add accounts
+async function requireAdminOnceSetUp(req: Request, res: Response, next: NextFunction) {
+  if ((await getAdminUserId()) === undefined) {
+    return next();
+  }
+  return requireAdmin(req, res, next);
+}
+
+/**
+ * Cookie-based sessions with username/password login, plus personal API
+ * tokens for scripts. Registers
+ * /api/auth/status, /api/register, /api/login, /api/logout and /api/user.
+ */
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    // Sessions live in memory, so a per-process secret is enough
+    secret: process.env.SESSION_SECRET || crypto.randomBytes(32).toString("hex"),
+    name: "cyclesense.sid",
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: 30 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  app.use("/api", session(sessionSettings));
+  app.use("/api", passport.initialize());
+  app.use("/api", passport.session());
+  // Scripts can send "Authorization: Bearer <token>" instead of logging in
+  app.use("/api", apiTokenMiddleware());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !verifyPassword(password, user.password)) {
+          return done(null, false);
+        }
+        // Accounts created before passwords were hashed get upgraded on login
+        if (!isPasswordHash(user.password)) {
+          await storage.updateUser(user.id, { password: hashPassword(password) });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Lets the login screen offer to create the first account
+  app.get("/api/auth/status", async (req, res) => {
+    const users = await storage.getUsers();
+    res.json({ hasUsers: users.length > 0, authenticated: req.isAuthenticated() });
+  });
+
+  app.post("/api/register", requireSession, requireAdminOnceSetUp, async (req, res, next) => {
+    try {
+      const userData = registerSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({ ...userData, password: hashPassword(userData.password) });
+      // Create default settings for the user
+      await storage.createUserSettings({
+        userId: user.id,
+        emailNotifications: true,
+        reminderEnabled: true,
+        fertileWindowAlerts: false,
+        weeklySummary: true,
+        language: "English",
+        dataStorage: "local",
+        hiddenSymptoms: [],
+        medications: [],
+        defaultCycleLength: 28,
+        defaultPeriodLength: 5,
+        showPmddSymptoms: true,
+        showIntimateActivity: true
+      });
+
+      // The first account is signed in right away; accounts the administrator adds are not
+      if (req.isAuthenticated()) {
+        return res.status(201).json(publicUser(user));
+      }
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(publicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.format() });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) {
+        return res.status(500).json({ message: "Login failed" });
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+      // Start a fresh session so a session id set before login can't be reused
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) return next(regenerateErr);
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(publicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("cyclesense.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(publicUser(req.user));
+  });
+}
@@ -0,0 +1,157 @@
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { dataEncryption } from './data-encryption';
+import { COLLECTION_FILES, DataSet } from './data-migrations';
+
+export interface BackupManifestFile {
+  file: string;
+  size: number;
+  sha256: string;
+  // Number of records for collection files, null for anything else
+  records: number | null;
+}
+
+/**
+ * Describes a backup: which files it holds and what they must look like
+ */
+export interface BackupManifest {
+  formatVersion: number;
+  createdAt: string;
+  encrypted: boolean;
+  files: BackupManifestFile[];
+}
+
+/**
+ * A whole backup in one file: gzip-compressed JSON holding the manifest and
+ * the contents of every data file, so `gunzip` is enough to look inside.
+ */
+export interface BackupArchive {
+  type: typeof ARCHIVE_TYPE;
+  manifest: BackupManifest;
+  files: Record<string, string>;
+}
+
+/**
+ * Thrown for a file that is not a readable backup archive.
+ */
+export class BackupArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupArchiveError';
+  }
+}
+
+export const ARCHIVE_EXTENSION = '.json.gz';
+const ARCHIVE_TYPE = 'cyclesense-backup';
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+// Records in a JSON data file's (possibly encrypted) contents, or null if it doesn't hold an array
+export function countRecords(contents: string): number | null {
+  const data = JSON.parse(dataEncryption.decode(contents));
+  return Array.isArray(data) ? data.length : null;
+}
+
+export function createManifest(
+  files: Record<string, string>,
+  formatVersion: number,
+  createdAt: string,
+  encrypted: boolean
+): BackupManifest {
+  return {
+    formatVersion,
+    createdAt,
+    encrypted,
+    files: Object.entries(files).map(([file, contents]) => {
+      const bytes = Buffer.from(contents, 'utf-8');
+      return { file, size: bytes.length, sha256: sha256(bytes), records: countRecords(contents) };
+    })
+  };
+}
+
+/**
+ * Compare files against their manifest; returns what doesn't match.
+ * Records are counted in `readable`, the same files already decrypted when
+ * this server's key can't decrypt them.
+ */
+export function checkAgainstManifest(
+  files: Record<string, string>,
+  manifest: BackupManifest,
+  readable: Record<string, string> = files
+): string[] {
+  const problems: string[] = [];
+  manifest.files.forEach(entry => {
+    const contents = files[entry.file];
+    if (contents === undefined) {
+      problems.push(`${entry.file} is missing`);
+      return;
+    }
+    const bytes = Buffer.from(contents, 'utf-8');
+    if (bytes.length !== entry.size || sha256(bytes) !== entry.sha256) {
+      problems.push(`${entry.file} has changed since the backup was made`);
+      return;
+    }
+    try {
+      const records = countRecords(readable[entry.file]);
+      if (records !== entry.records) {
+        problems.push(`${entry.file} holds ${records} records, expected ${entry.records}`);
+      }
+    } catch (error) {
+      problems.push(`${entry.file} could not be read: ${(error as Error).message}`);
+    }
+  });
+  return problems;
+}
+
+export function packBackupArchive(manifest: BackupManifest, files: Record<string, string>): Buffer {
+  const archive: BackupArchive = { type: ARCHIVE_TYPE, manifest, files };
+  return zlib.gzipSync(JSON.stringify(archive));
+}
+
+export function unpackBackupArchive(buffer: Buffer): BackupArchive {
+  let archive: any;
+  try {
+    archive = JSON.parse(zlib.gunzipSync(buffer).toString('utf-8'));
+  } catch {
+    throw new BackupArchiveError('Not a CycleSense backup archive (could not be decompressed)');
+  }
+  if (archive?.type !== ARCHIVE_TYPE || !archive.manifest || !Array.isArray(archive.manifest.files)
+    || !archive.files || typeof archive.files !== 'object') {
+    throw new BackupArchiveError('Not a CycleSense backup archive');
+  }
+  return archive;
+}
+
+/**
+ * The collections in an archive's files, decrypted where needed and keyed
+ * the way exports name them.
+ */
+export function readArchiveData(files: Record<string, string>): DataSet {
+  const data: DataSet = {};
+  for (const [key, filename] of Object.entries(COLLECTION_FILES)) {
+    if (files[filename] === undefined) continue;
+    const records = JSON.parse(dataEncryption.decode(files[filename]));
+    if (Array.isArray(records)) data[key] = records;
+  }
+  return data;
+}
+
+/**
+ * One account's records out of a whole-server backup: the account with the
+ * given username, or the only account if there is just one.
+ */
+export function selectUserData(data: DataSet, username: string): DataSet {
+  const users: any[] = data.users || [];
+  const user = users.find(candidate => candidate.username === username) || (users.length === 1 ? users[0] : undefined);
+  if (!user) {
+    throw new BackupArchiveError(`The archive holds ${users.length} accounts and none is named "${username}"`);
+  }
+
+  const selected: DataSet = {};
+  for (const [key, records] of Object.entries(data)) {
+    if (key === 'users' || key === 'apiTokens' || !Array.isArray(records)) continue;
+    // Default symptoms have no owner and already exist everywhere
+    selected[key] = records.filter(record => record && record.userId === user.id);
+  }
+  return selected;
+}
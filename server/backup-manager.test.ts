@@ -0,0 +1,32 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useTempDataDir } from './test-data-dir';
+
+const dataPath = useTempDataDir({ backupSecondaryPath: './offsite' });
+// The secondary location has to exist to get copies
+fs.mkdirSync('offsite');
+fs.mkdirSync(dataPath, { recursive: true });
+const cycles = [{ id: 1, userId: 1, startDate: '2024-03-01', endDate: null, notes: null }];
+fs.writeFileSync(path.join(dataPath, 'cycles.json'), JSON.stringify(cycles));
+
+const { dataEncryption, EncryptionError } = await import('./data-encryption');
+const { backupManager } = await import('./backup-manager');
+
+test('a secondary copy made before a passphrase change is restored after the data directory is lost', () => {
+  dataEncryption.enable('first passphrase');
+  const name = backupManager.createBackup(true)!;
+  assert.ok(fs.existsSync(path.join('offsite', name)));
+  dataEncryption.changePassphrase('first passphrase', 'second passphrase');
+
+  // Only the copy on the other drive is left
+  fs.rmSync(dataPath, { recursive: true });
+  fs.mkdirSync(path.join(dataPath, 'backups'), { recursive: true });
+  fs.copyFileSync(path.join('offsite', name), path.join(dataPath, 'backups', name));
+
+  // The copy was re-encrypted along with everything else
+  assert.throws(() => backupManager.restoreBackup(name, 'first passphrase'), EncryptionError);
+  assert.equal(backupManager.restoreBackup(name, 'second passphrase'), true);
+  assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dataPath, 'cycles.json'), 'utf-8')), cycles);
+});
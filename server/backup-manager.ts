@@ -1,6 +1,113 @@
 import fs from 'fs';
 import path from 'path';
-import { config } from './config';
+import { format } from 'date-fns';
+import { DATA_FORMAT_VERSION } from '@shared/schema';
+import { config, BackupRetention } from './config';
+import { dataEncryption, KEY_FILE } from './data-encryption';
+import { writeFileAtomic } from './atomic-file';
+import { DataIntegrityError } from './write-journal';
+import { COLLECTION_FILES, migrateDataSet, readDataFormatVersion } from './data-migrations';
+import {
+  ARCHIVE_EXTENSION,
+  BackupArchiveError,
+  BackupManifest,
+  checkAgainstManifest,
+  countRecords,
+  createManifest,
+  packBackupArchive,
+  readArchiveData,
+  unpackBackupArchive
+} from './backup-archive';
+
+export interface BackupInfo {
+  name: string;
+  createdAt: string;
+  // Bytes on disk: the compressed archive, or all files of an older backup directory
+  size: number;
+  fileCount: number;
+  // Backups made before manifests were added can't be checked as thoroughly
+  hasManifest: boolean;
+}
+
+export interface BackupVerification {
+  name: string;
+  valid: boolean;
+  hasManifest: boolean;
+  problems: string[];
+}
+
+// What a backup holds, read from an archive or an older backup directory
+interface BackupContents {
+  files: Record<string, string>;
+  manifest: BackupManifest | null;
+  problems: string[];
+}
+
+// Names look like backup-2024-05-01T10-20-30-123Z.json.gz; older backups are
+// directories without the extension
+const BACKUP_NAME_PATTERN = /^backup-[\w-]+(\.json\.gz)?$/;
+// Inside backup directories
+const MANIFEST_FILE = 'manifest.json';
+const FORMAT_FILE = 'data-format.json';
+
+// How often the schedule checks whether a backup is due
+const SCHEDULE_CHECK_MS = 10 * 60 * 1000;
+
+const DEFAULT_RETENTION: Required<BackupRetention> = { daily: 7, weekly: 4, monthly: 12 };
+
+// date-fns patterns naming the period a backup falls into, per retention tier
+const RETENTION_PERIODS: [keyof BackupRetention, string][] = [
+  ['daily', 'yyyy-MM-dd'],
+  ['weekly', "RRRR-'W'II"],
+  ['monthly', 'yyyy-MM'],
+];
+
+const isArchive = (backupName: string) => backupName.endsWith(ARCHIVE_EXTENSION);
+
+// Archive file name for a backup made at `date`
+const archiveName = (date: Date) => `backup-${date.toISOString().replace(/[:.]/g, '-')}${ARCHIVE_EXTENSION}`;
+
+// When a backup was made; the name holds the time with ":" and "." replaced by "-"
+function backupTime(backupPath: string): Date {
+  const match = path.basename(backupPath).match(/^backup-(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z(\.json\.gz)?$/);
+  return match
+    ? new Date(`${match[1]}:${match[2]}:${match[3]}.${match[4]}Z`)
+    : fs.statSync(backupPath).mtime;
+}
+
+// The data format a backup was written in, from its data-format.json
+function formatVersionOf(files: Record<string, string>): number {
+  if (files[FORMAT_FILE] === undefined) return 1;
+  const { formatVersion } = JSON.parse(files[FORMAT_FILE]);
+  return typeof formatVersion === 'number' ? formatVersion : 1;
+}
+
+/**
+ * Pick the backups to keep: the newest `keepLast`, plus the newest backup of
+ * each of the last `daily` days, `weekly` weeks and `monthly` months that
+ * have one. Returns their names.
+ */
+function selectBackupsToKeep(
+  backups: { name: string; createdAt: Date }[],
+  keepLast: number,
+  retention: Required<BackupRetention>
+): Set<string> {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keep = new Set(newestFirst.slice(0, keepLast).map(backup => backup.name));
+  
+  for (const [tier, pattern] of RETENTION_PERIODS) {
+    const periods = new Set<string>();
+    for (const backup of newestFirst) {
+      if (periods.size >= retention[tier]) break;
+      const period = format(backup.createdAt, pattern);
+      if (!periods.has(period)) {
+        periods.add(period);
+        keep.add(backup.name);
+      }
+    }
+  }
+  return keep;
+}
 
 /**
  * Manages automatic backups of data files
@@ -8,14 +115,19 @@ import { config } from './config';
 export class BackupManager {
   private dataPath: string;
   private backupPath: string;
+  private secondaryPath: string | null;
   private maxBackups: number;
+  private retention: Required<BackupRetention>;
   private backupIntervalHours: number;
   private lastBackupTime: Date | null = null;
+  private scheduleTimer: NodeJS.Timeout | null = null;
   
   constructor() {
     this.dataPath = path.resolve(process.cwd(), config.dataPath);
     this.backupPath = path.join(this.dataPath, 'backups');
+    this.secondaryPath = config.backupSecondaryPath ? path.resolve(process.cwd(), config.backupSecondaryPath) : null;
     this.maxBackups = config.maxBackups || 7;
+    this.retention = { ...DEFAULT_RETENTION, ...config.backupRetention };
     this.backupIntervalHours = config.backupInterval || 24;
     
     // Ensure backup directory exists
@@ -70,235 +182,352 @@ export class BackupManager {
   }
   
   /**
-   * Create a backup of all data files
+   * Make a backup whenever backupInterval hours have passed since the last
+   * one, whether or not anything was logged in between. `beforeBackup` runs
+   * first to get pending changes onto disk.
    */
-  public createBackup() {
-    if (!this.isBackupNeeded()) {
-      return false;
+  public startSchedule(beforeBackup: () => void) {
+    if (this.scheduleTimer) return;
+    
+    const runIfDue = () => {
+      if (!this.isBackupNeeded()) return;
+      try {
+        beforeBackup();
+        this.createBackup();
+      } catch (error) {
+        console.error('Error running scheduled backup:', error);
+      }
+    };
+    
+    runIfDue();
+    this.scheduleTimer = setInterval(runIfDue, SCHEDULE_CHECK_MS);
+    // Don't keep the process alive just for backups
+    this.scheduleTimer.unref();
+  }
+  
+  /**
+   * Create a backup of all data files, unless the last one is recent enough
+   * and `force` isn't set. Returns the new backup's name, or null.
+   */
+  public createBackup(force = false): string | null {
+    if (!force && !this.isBackupNeeded()) {
+      return null;
     }
     
     try {
       const now = new Date();
-      const timestamp = now.toISOString().replace(/[:.]/g, '-');
-      const backupDir = path.join(this.backupPath, `backup-${timestamp}`);
+      const archivePath = path.join(this.backupPath, archiveName(now));
       
-      // Create backup directory
-      fs.mkdirSync(backupDir, { recursive: true });
+      // All JSON files from the data directory, as stored. That includes the
+      // wrapped encryption key, so the passphrase opens the archive even where
+      // this data directory is gone (copies in backupSecondaryPath)
+      const files: Record<string, string> = {};
+      fs.readdirSync(this.dataPath)
+        .filter(file => file.endsWith('.json') && !file.startsWith('backup-meta'))
+        .forEach(file => {
+          files[file] = fs.readFileSync(path.join(this.dataPath, file), 'utf-8');
+        });
       
-      // Copy all JSON files from data directory
-      const files = fs.readdirSync(this.dataPath)
-        .filter(file => file.endsWith('.json') && !file.startsWith('backup-meta'));
-      
-      files.forEach(file => {
-        const srcPath = path.join(this.dataPath, file);
-        const destPath = path.join(backupDir, file);
-        fs.copyFileSync(srcPath, destPath);
-      });
+      const manifest = createManifest(files, readDataFormatVersion(this.dataPath), now.toISOString(), dataEncryption.isEnabled());
+      writeFileAtomic(archivePath, packBackupArchive(manifest, files));
       
       // Update backup time
       this.lastBackupTime = now;
       this.saveLastBackupTime();
       
       // Clean up old backups
-      this.cleanupOldBackups();
+      this.cleanupOldBackups(this.backupPath);
       
-      console.log(`Backup created: ${backupDir}`);
-      return true;
+      console.log(`Backup created: ${archivePath}`);
+      this.copyToSecondary(archivePath);
+      return path.basename(archivePath);
     } catch (error) {
       console.error('Error creating backup:', error);
-      return false;
+      return null;
     }
   }
   
   /**
-   * Delete old backups to stay within the limit
+   * Delete the backups in `dir` that the retention settings don't keep
    */
-  private cleanupOldBackups() {
+  private cleanupOldBackups(dir: string) {
     try {
-      // Get all backup directories
-      const backupDirs = fs.readdirSync(this.backupPath)
-        .filter(dir => dir.startsWith('backup-'))
-        .map(dir => path.join(this.backupPath, dir));
-      
-      // Sort by creation time (oldest first)
-      backupDirs.sort((a, b) => {
-        const aStats = fs.statSync(a);
-        const bStats = fs.statSync(b);
-        return aStats.birthtime.getTime() - bStats.birthtime.getTime();
-      });
+      const backups = fs.readdirSync(dir)
+        .filter(name => BACKUP_NAME_PATTERN.test(name))
+        .map(name => ({ name, createdAt: backupTime(path.join(dir, name)) }));
       
-      // Delete oldest backups if we have too many
-      if (backupDirs.length > this.maxBackups) {
-        const toDelete = backupDirs.slice(0, backupDirs.length - this.maxBackups);
-        toDelete.forEach(dir => {
-          fs.rmSync(dir, { recursive: true, force: true });
-          console.log(`Deleted old backup: ${dir}`);
+      const keep = selectBackupsToKeep(backups, this.maxBackups, this.retention);
+      backups
+        .filter(backup => !keep.has(backup.name))
+        .forEach(backup => {
+          const backupPath = path.join(dir, backup.name);
+          fs.rmSync(backupPath, { recursive: true, force: true });
+          console.log(`Deleted old backup: ${backupPath}`);
         });
-      }
     } catch (error) {
       console.error('Error cleaning up old backups:', error);
     }
   }
   
   /**
-   * Restore data from a backup
-   * @param backupName The name of the backup directory
+   * Copy a new backup to backupSecondaryPath, if set. The directory has to
+   * exist already, so an unplugged drive doesn't end up as an empty folder
+   * on the main disk; failures are logged and otherwise ignored.
    */
-  public restoreBackup(backupName: string): boolean {
-    const backupDir = path.join(this.backupPath, backupName);
-    
-    if (!fs.existsSync(backupDir)) {
-      console.error(`Backup not found: ${backupDir}`);
-      return false;
+  private copyToSecondary(archivePath: string) {
+    if (!this.secondaryPath) return;
+    if (!fs.existsSync(this.secondaryPath)) {
+      console.warn(`Secondary backup location ${this.secondaryPath} not found (drive not connected?); skipped`);
+      return;
     }
     
     try {
-      // Create a backup before restoring
-      this.createBackup();
-      
-      // Only restore user-specific data files, not system files like default symptoms
-      const userDataFiles = [
-        'flow-records.json',
-        'mood-records.json',
-        'symptom-records.json',
-        'daily-notes.json',
-        'cervical-mucus-records.json',
-        'cycles.json'
-      ];
-      
-      // Copy only user data files from backup to data directory
-      userDataFiles.forEach(file => {
-        const srcPath = path.join(backupDir, file);
-        const destPath = path.join(this.dataPath, file);
-        if (fs.existsSync(srcPath)) {
-          fs.copyFileSync(srcPath, destPath);
-        }
-      });
-      
-      // Handle user settings separately to avoid duplication
-      this.mergeUserSettings(backupDir);
-      
-      // Handle custom symptoms separately to avoid duplication
-      this.mergeCustomSymptoms(backupDir);
+      const destPath = path.join(this.secondaryPath, path.basename(archivePath));
+      writeFileAtomic(destPath, fs.readFileSync(archivePath));
       
-      console.log(`Restored from backup: ${backupDir}`);
-      return true;
+      this.cleanupOldBackups(this.secondaryPath);
+      console.log(`Backup copied to: ${destPath}`);
     } catch (error) {
-      console.error('Error restoring backup:', error);
-      return false;
+      console.error(`Error copying backup to ${this.secondaryPath}:`, error);
     }
   }
   
   /**
-   * Merge user settings from backup with existing settings
-   * @param backupDir The backup directory
+   * Check a backup before it is trusted: every file in its manifest must be
+   * there with the same size, checksum and record count. Backups from before
+   * manifests only get their files parsed.
+   * @param backupName The name of the backup
    */
-  private mergeUserSettings(backupDir: string): void {
-    const backupSettingsPath = path.join(backupDir, 'user-settings.json');
-    const currentSettingsPath = path.join(this.dataPath, 'user-settings.json');
+  public verifyBackup(backupName: string): BackupVerification | null {
+    const backupPath = this.getBackupPath(backupName);
+    if (!backupPath) return null;
     
-    if (!fs.existsSync(backupSettingsPath) || !fs.existsSync(currentSettingsPath)) {
-      return;
+    const { files, manifest, problems } = this.readBackupContents(backupPath);
+    problems.push(...this.checkContents(files, manifest));
+    return { name: backupName, valid: problems.length === 0, hasManifest: !!manifest, problems };
+  }
+  
+  /**
+   * Restore data from a backup, replacing every collection the backup holds.
+   * The caller has to make the running storage reload its data afterwards.
+   * Throws DataIntegrityError without changing anything if the backup fails
+   * verification.
+   * @param backupName The name of the backup
+   * @param passphrase For a backup encrypted with a key this server no longer
+   *   has (or never had): the passphrase of the key file inside it
+   */
+  public restoreBackup(backupName: string, passphrase?: string): boolean {
+    const backupPath = this.getBackupPath(backupName);
+    
+    if (!backupPath) {
+      console.error(`Backup not found: ${backupName}`);
+      return false;
+    }
+    
+    const { files, manifest, problems } = this.readBackupContents(backupPath);
+    // Throws EncryptionError for a wrong passphrase
+    const readable = passphrase === undefined || problems.length > 0 ? files : dataEncryption.decodeArchiveFiles(files, passphrase);
+    problems.push(...this.checkContents(files, manifest, readable));
+    if (problems.length > 0) {
+      throw new DataIntegrityError(`Backup ${backupName} failed verification`, problems);
     }
     
     try {
-      // Read backup and current settings
-      const backupSettings = JSON.parse(fs.readFileSync(backupSettingsPath, 'utf8'));
-      const currentSettings = JSON.parse(fs.readFileSync(currentSettingsPath, 'utf8'));
+      // Backups made by older versions are upgraded to the current data format
+      const fromVersion = manifest?.formatVersion ?? formatVersionOf(files);
+      const backupData = readArchiveData(readable);
+      const migration = migrateDataSet(backupData, fromVersion);
+      if (migration.changes.length > 0) {
+        console.log(`[Migration] Upgraded backup ${backupName} from v${fromVersion} to v${migration.toVersion}`);
+        migration.changes.forEach(change => console.log(`[Migration]   ${change}`));
+      }
       
-      // Create a map of current settings by userId
-      const settingsMap = new Map();
-      currentSettings.forEach((setting: any) => {
-        if (setting && setting.userId) {
-          settingsMap.set(setting.userId, setting);
-        }
-      });
+      // Keep the current data around in case this was the wrong backup.
+      // Done after reading, since cleanup may remove the backup being restored.
+      this.createBackup(true);
       
-      // Update or add settings from backup
-      backupSettings.forEach((setting: any) => {
-        if (setting && setting.userId) {
-          settingsMap.set(setting.userId, setting);
-        }
+      // Collections the backup doesn't have (added in later versions) are left as they are
+      Object.entries(COLLECTION_FILES).forEach(([key, file]) => {
+        if (!backupData[key]) return;
+        dataEncryption.writeFile(path.join(this.dataPath, file), JSON.stringify(backupData[key], null, 2));
       });
       
-      // Convert map back to array
-      const mergedSettings = Array.from(settingsMap.values());
-      
-      // Save merged settings
-      fs.writeFileSync(currentSettingsPath, JSON.stringify(mergedSettings, null, 2));
+      console.log(`Restored from backup: ${backupPath}`);
+      return true;
     } catch (error) {
-      console.error('Error merging user settings:', error);
+      console.error('Error restoring backup:', error);
+      return false;
     }
   }
   
   /**
-   * Merge custom symptoms from backup with existing symptoms
-   * @param backupDir The backup directory
+   * A backup as a single archive with decrypted contents, for downloading:
+   * it can be uploaded to another server, whatever its encryption key.
+   * @param backupName The name of the backup
    */
-  private mergeCustomSymptoms(backupDir: string): void {
-    const backupSymptomsPath = path.join(backupDir, 'symptoms.json');
-    const currentSymptomsPath = path.join(this.dataPath, 'symptoms.json');
+  public exportBackupArchive(backupName: string): Buffer | null {
+    const backupPath = this.getBackupPath(backupName);
+    if (!backupPath) return null;
     
-    if (!fs.existsSync(backupSymptomsPath) || !fs.existsSync(currentSymptomsPath)) {
-      return;
+    const { files, manifest } = this.readBackupContents(backupPath);
+    const decrypted: Record<string, string> = {};
+    Object.entries(files)
+      .filter(([file]) => file !== KEY_FILE)
+      .forEach(([file, contents]) => {
+        decrypted[file] = dataEncryption.decode(contents);
+      });
+    const createdAt = manifest?.createdAt ?? backupTime(backupPath).toISOString();
+    const formatVersion = manifest?.formatVersion ?? formatVersionOf(files);
+    return packBackupArchive(createManifest(decrypted, formatVersion, createdAt, false), decrypted);
+  }
+  
+  /**
+   * Add an uploaded archive to the backups, after checking it against its
+   * manifest. Returns the backup's name; uploading the same archive twice
+   * keeps one copy.
+   */
+  public importBackupArchive(archive: Buffer): string {
+    const { manifest, files } = unpackBackupArchive(archive);
+    const createdAt = new Date(manifest.createdAt);
+    if (isNaN(createdAt.getTime())) {
+      throw new BackupArchiveError('The archive has no valid creation date');
+    }
+    const problems = this.checkContents(files, manifest);
+    if (problems.length > 0) {
+      throw new DataIntegrityError('The archive failed verification', problems);
     }
     
-    try {
-      // Read backup and current symptoms
-      const backupSymptoms = JSON.parse(fs.readFileSync(backupSymptomsPath, 'utf8'));
-      const currentSymptoms = JSON.parse(fs.readFileSync(currentSymptomsPath, 'utf8'));
-      
-      // Create a map of current symptoms by name and category
-      const symptomsMap = new Map();
-      
-      // First add all default symptoms (isDefault: true)
-      currentSymptoms.forEach((symptom: any) => {
-        if (symptom && symptom.isDefault === true) {
-          const key = `${symptom.name}:${symptom.category}:default`;
-          symptomsMap.set(key, symptom);
-        }
-      });
-      
-      // Then add custom symptoms (isDefault: false)
-      currentSymptoms.forEach((symptom: any) => {
-        if (symptom && symptom.isDefault === false && symptom.userId) {
-          const key = `${symptom.name}:${symptom.category}:${symptom.userId}`;
-          symptomsMap.set(key, symptom);
-        }
-      });
-      
-      // Add custom symptoms from backup (only if they don't exist)
-      backupSymptoms.forEach((symptom: any) => {
-        if (symptom && symptom.isDefault === false && symptom.userId) {
-          const key = `${symptom.name}:${symptom.category}:${symptom.userId}`;
-          if (!symptomsMap.has(key)) {
-            symptomsMap.set(key, symptom);
-          }
-        }
+    const name = archiveName(createdAt);
+    const archivePath = path.join(this.backupPath, name);
+    if (!fs.existsSync(archivePath)) {
+      writeFileAtomic(archivePath, archive);
+      console.log(`Backup uploaded: ${archivePath}`);
+    }
+    return name;
+  }
+  
+  // Read a backup's files and manifest; problems reading them are collected, not thrown
+  private readBackupContents(backupPath: string): BackupContents {
+    if (isArchive(backupPath)) {
+      try {
+        const { manifest, files } = unpackBackupArchive(fs.readFileSync(backupPath));
+        return { files, manifest, problems: [] };
+      } catch (error) {
+        return { files: {}, manifest: null, problems: [(error as Error).message] };
+      }
+    }
+    
+    const problems: string[] = [];
+    const files: Record<string, string> = {};
+    fs.readdirSync(backupPath)
+      .filter(file => file !== MANIFEST_FILE)
+      .forEach(file => {
+        files[file] = fs.readFileSync(path.join(backupPath, file), 'utf-8');
       });
-      
-      // Convert map back to array
-      const mergedSymptoms = Array.from(symptomsMap.values());
-      
-      // Save merged symptoms
-      fs.writeFileSync(currentSymptomsPath, JSON.stringify(mergedSymptoms, null, 2));
+    return { files, manifest: this.readManifest(backupPath, problems), problems };
+  }
+  
+  // `readable` holds the files decrypted, if this server's key can't decrypt them
+  private checkContents(files: Record<string, string>, manifest: BackupManifest | null, readable = files): string[] {
+    if (manifest) {
+      const problems = checkAgainstManifest(files, manifest, readable);
+      if (manifest.formatVersion > DATA_FORMAT_VERSION) {
+        problems.unshift(`Made by a newer version of CycleSense (data format v${manifest.formatVersion})`);
+      }
+      return problems;
+    }
+    
+    const problems: string[] = [];
+    Object.values(COLLECTION_FILES).forEach(file => {
+      if (files[file] === undefined) return;
+      try {
+        if (countRecords(readable[file]) === null) problems.push(`${file} does not contain a JSON array`);
+      } catch (error) {
+        problems.push(`${file} could not be read: ${(error as Error).message}`);
+      }
+    });
+    return problems;
+  }
+  
+  private readManifest(backupDir: string, problems: string[]): BackupManifest | null {
+    const manifestPath = path.join(backupDir, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) return null;
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      if (!Array.isArray(manifest.files)) throw new Error('no file list');
+      return manifest;
     } catch (error) {
-      console.error('Error merging symptoms:', error);
+      problems.push(`${MANIFEST_FILE} could not be read: ${(error as Error).message}`);
+      return null;
     }
   }
   
   /**
    * Get a list of available backups
    */
-  public listBackups(): string[] {
+  public listBackups(): BackupInfo[] {
     try {
       return fs.readdirSync(this.backupPath)
-        .filter(dir => dir.startsWith('backup-'))
+        .filter(name => BACKUP_NAME_PATTERN.test(name))
         .sort()
-        .reverse(); // newest first
+        .reverse() // newest first
+        .map(name => this.getBackupInfo(name));
     } catch (error) {
       console.error('Error listing backups:', error);
       return [];
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * Delete a backup
+   * @param backupName The name of the backup
+   */
+  public deleteBackup(backupName: string): boolean {
+    const backupPath = this.getBackupPath(backupName);
+    if (!backupPath) return false;
+    fs.rmSync(backupPath, { recursive: true, force: true });
+    console.log(`Deleted backup: ${backupPath}`);
+    return true;
+  }
+  
+  /**
+   * Path of an existing backup; null for anything that isn't a backup name,
+   * so names from requests can't point outside the backup directory
+   */
+  private getBackupPath(backupName: string): string | null {
+    if (!BACKUP_NAME_PATTERN.test(backupName)) return null;
+    const backupPath = path.join(this.backupPath, backupName);
+    return fs.existsSync(backupPath) ? backupPath : null;
+  }
+  
+  private getBackupInfo(backupName: string): BackupInfo {
+    const backupPath = path.join(this.backupPath, backupName);
+    const createdAt = backupTime(backupPath).toISOString();
+    
+    if (isArchive(backupName)) {
+      const { manifest } = this.readBackupContents(backupPath);
+      return {
+        name: backupName,
+        createdAt,
+        size: fs.statSync(backupPath).size,
+        fileCount: manifest ? manifest.files.length : 0,
+        hasManifest: !!manifest
+      };
+    }
+    
+    const fileNames = fs.readdirSync(backupPath);
+    const files = fileNames
+      .filter(file => file !== MANIFEST_FILE)
+      .map(file => fs.statSync(path.join(backupPath, file)));
+    return {
+      name: backupName,
+      createdAt,
+      size: files.reduce((total, stats) => total + stats.size, 0),
+      fileCount: files.length,
+      hasManifest: fileNames.includes(MANIFEST_FILE)
+    };
+  }
+}
+
+// Shared by FileStorage, which backs up after saving, and the backup routes
+export const backupManager = new BackupManager();
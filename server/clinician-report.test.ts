@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateSync } from 'zlib';
+import { addDays, format, parseISO } from 'date-fns';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { storage } = await import('./storage');
+const { buildClinicianReport } = await import('./clinician-report');
+
+// The text drawn on each page, in the order it was drawn
+function pageTexts(pdf: Buffer): string[][] {
+  const texts: string[][] = [];
+  const source = pdf.toString('latin1');
+  const streams = /stream\n([\s\S]*?)\nendstream/g;
+  for (let match = streams.exec(source); match; match = streams.exec(source)) {
+    const operators = inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1');
+    texts.push(Array.from(operators.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g), ([, text]) => text.replace(/\\(.)/g, '$1')));
+  }
+  return texts;
+}
+
+const user = await storage.createUser({ username: 'alice', password: 'x', email: '' });
+const userId = user.id;
+const cramps = await storage.createSymptom({ name: 'Cramps', category: 'physical', isDefault: false, userId });
+const headache = await storage.createSymptom({ name: 'Headache', category: 'physical', isDefault: false, userId });
+// Periods of 5 and 4 days, cycles of 28 and 30
+const periods = [['2024-01-01', '2024-01-05'], ['2024-01-29', '2024-02-01'], ['2024-02-28', null]] as const;
+for (const [startDate, endDate] of periods) {
+  const cycle = await storage.createCycle({ userId, startDate, endDate });
+  for (let day = startDate; day <= (endDate ?? startDate); day = format(addDays(parseISO(day), 1), 'yyyy-MM-dd')) {
+    await storage.createFlowRecord({ userId, cycleId: cycle.id, date: day, intensity: 'heavy' });
+  }
+}
+for (const date of ['2024-01-01', '2024-01-29']) await storage.createSymptomRecord({ userId, symptomId: cramps.id, date, intensity: 3 });
+// Day 14 of both cycles, after their periods ended
+for (const date of ['2024-01-14', '2024-02-11']) await storage.createSymptomRecord({ userId, symptomId: headache.id, date, intensity: null });
+await storage.createMoodRecord({ userId, date: '2024-01-03', mood: 'bad' });
+await storage.createMoodRecord({ userId, date: '2024-01-20', mood: 'good' });
+await storage.createMedication({
+  userId,
+  name: 'Ibuprofen',
+  dose: '400 mg',
+  frequency: 'as needed',
+  logs: [{ date: '2023-12-20' }, { date: '2024-01-01' }, { date: '2024-01-01T20:00:00Z' }, { date: '2024-01-02' }]
+});
+await storage.createDailyNote({ userId, date: '2024-01-02', notes: 'Cramps woke me up (twice)' });
+await storage.createDailyNote({ userId, date: '2024-01-20', notes: 'Not for the doctor' });
+
+const pages = pageTexts(await buildClinicianReport(userId, { from: '2024-01-01', to: '2024-02-27', notes: ['2024-01-02'] }));
+const texts = pages.flat();
+const report = texts.join(' ');
+// The texts drawn right after `label`
+const after = (label: string, count: number) => texts.slice(texts.indexOf(label) + 1, texts.indexOf(label) + 1 + count);
+
+test('the cycles started in the period are summarised and listed', () => {
+  assert.match(report, /2 cycles in this period\. Cycle length 29 days on average \(28 to 30\)\. Period length 5 days on average \(4 to 5\)\./);
+  assert.deepEqual(after('Period length', 10), [
+    '1', '1 Jan 2024', '28 Jan 2024', '28 days', '5 days',
+    '2', '29 Jan 2024', '27 Feb 2024', '30 days', '4 days'
+  ]);
+});
+
+test('the heatmap counts the cycles a symptom was logged in on each cycle day', () => {
+  // Cramps on day 1 and headaches on day 14 of both cycles
+  assert.deepEqual(after('Cramps', 1), ['2']);
+  assert.deepEqual(after('Headache', 1), ['2']);
+});
+
+test('moods, medications and the chosen notes are in the report', () => {
+  assert.match(report, /Logged on 2 days: good 1, bad 1\./);
+  // Doses before the period aren't counted; two of the 58 days had one
+  assert.deepEqual(after('Ibuprofen', 4), ['400 mg', 'as needed', '3', '2 (3%)']);
+  assert.match(report, /Cramps woke me up \(twice\)/);
+  assert.doesNotMatch(report, /Not for the doctor/);
+});
+
+test('every page has a footer with its number', () => {
+  pages.forEach((page, index) => assert.ok(page.includes(`Page ${index + 1} of ${pages.length}`)));
+});
@@ -0,0 +1,369 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO, startOfMonth } from 'date-fns';
+import { MoodLevel, type ClinicianReportOptions } from '@shared/schema';
+import { storage } from './storage';
+import { buildLongExport } from './long-export';
+import { PdfDocument, PAGE_HEIGHT, PAGE_WIDTH, textWidth, wrapText, type Rgb } from './pdf-document';
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// Content stops here; the footer goes below
+const CONTENT_BOTTOM = PAGE_HEIGHT - 55;
+
+const ACCENT: Rgb = [0.45, 0.2, 0.55];
+const GREY: Rgb = [0.4, 0.4, 0.4];
+const RULE: Rgb = [0.8, 0.8, 0.8];
+const STRIPE: Rgb = [0.95, 0.94, 0.96];
+
+// Lowest first, as the mood chart plots them
+const MOOD_SCALE: string[] = [MoodLevel.AWFUL, MoodLevel.BAD, MoodLevel.OKAY, MoodLevel.GOOD, MoodLevel.GREAT];
+
+// Later cycle days share the last heatmap column
+const HEATMAP_DAYS = 35;
+const HEATMAP_SYMPTOMS = 20;
+
+const dayOf = (date: string) => date.split('T')[0];
+const displayDate = (day: string) => format(parseISO(day), 'd MMM yyyy');
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const days = (count: number) => `${count} ${count === 1 ? 'day' : 'days'}`;
+
+function truncate(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let cut = text.length;
+  while (cut > 1 && textWidth(`${text.slice(0, cut)}…`, size) > width) cut--;
+  return `${text.slice(0, cut)}…`;
+}
+
+// White for 0, the accent colour for 1
+const shade = (share: number): Rgb => ACCENT.map(channel => 1 - (1 - channel) * share) as Rgb;
+
+interface CycleSummary {
+  id: number;
+  start: string;
+  // The day before the next cycle started; null for the current cycle
+  end: string | null;
+  length: number | null;
+  periodLength: number | null;
+}
+
+/**
+ * Keeps track of where the next line goes and starts new pages.
+ */
+class ReportLayout {
+  y = MARGIN;
+
+  constructor(readonly doc: PdfDocument) {
+    doc.addPage();
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  // Starts a new page unless `height` more points fit on this one
+  ensure(height: number) {
+    if (this.y + height > CONTENT_BOTTOM) this.newPage();
+  }
+
+  heading(text: string) {
+    // Keep a heading with the start of its section
+    this.ensure(60);
+    this.y += 22;
+    this.doc.text(MARGIN, this.y, text, { size: 13, bold: true, color: ACCENT });
+    this.y += 10;
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean; color?: Rgb; indent?: number } = {}) {
+    const size = options.size ?? 9.5;
+    const indent = options.indent ?? 0;
+    for (const line of wrapText(text, CONTENT_WIDTH - indent, size)) {
+      this.ensure(size * 1.4);
+      this.y += size * 1.4;
+      this.doc.text(MARGIN + indent, this.y, line, { size, bold: options.bold, color: options.color });
+    }
+  }
+
+  // Columns are [header, x offset, alignment]; rows are drawn striped
+  table(columns: Array<[string, number, 'left' | 'right']>, rows: string[][]) {
+    const rowHeight = 14;
+    const header = () => {
+      this.ensure(rowHeight * 2);
+      this.y += rowHeight;
+      columns.forEach(([title, x, align]) => this.doc.text(MARGIN + x, this.y - 4, title, { size: 8.5, bold: true, align }));
+      this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, 0.5, { fill: GREY });
+    };
+    header();
+    rows.forEach((row, index) => {
+      // Tables going on over a page break repeat their header
+      if (this.y + rowHeight > CONTENT_BOTTOM) {
+        this.newPage();
+        header();
+      }
+      if (index % 2 === 1) this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, { fill: STRIPE });
+      this.y += rowHeight;
+      row.forEach((cell, column) => {
+        const [, x, align] = columns[column];
+        const next = columns[column + 1]?.[1] ?? CONTENT_WIDTH;
+        const width = align === 'right' ? x - (columns[column - 1]?.[1] ?? 0) - 8 : next - x - 8;
+        this.doc.text(MARGIN + x, this.y - 4, truncate(cell, width, 8.5), { size: 8.5, align });
+      });
+    });
+  }
+}
+
+function summarizeCycles(
+  cycles: Array<{ id: number; startDate: string; endDate: string | null }>,
+  bleedingDays: Set<string>
+): CycleSummary[] {
+  const sorted = [...cycles].sort((a, b) => dayOf(a.startDate).localeCompare(dayOf(b.startDate)));
+  return sorted.map((cycle, index) => {
+    const start = dayOf(cycle.startDate);
+    const next = sorted[index + 1] ? dayOf(sorted[index + 1].startDate) : null;
+
+    // Consecutive days of logged bleeding from the start; the cycle's own end date if none was logged
+    let periodLength = 0;
+    while (bleedingDays.has(format(addDays(parseISO(start), periodLength), 'yyyy-MM-dd'))) periodLength++;
+    if (periodLength === 0 && cycle.endDate) {
+      periodLength = differenceInCalendarDays(parseISO(dayOf(cycle.endDate)), parseISO(start)) + 1;
+    }
+
+    return {
+      id: cycle.id,
+      start,
+      end: next ? format(addDays(parseISO(next), -1), 'yyyy-MM-dd') : null,
+      length: next ? differenceInCalendarDays(parseISO(next), parseISO(start)) : null,
+      periodLength: periodLength > 0 ? periodLength : null
+    };
+  });
+}
+
+/**
+ * A report of the chosen days for the user's doctor, as a PDF: cycle and
+ * period lengths, a heatmap of symptoms by cycle day, the mood trend,
+ * how regularly medications were taken and the notes the user picked.
+ * Everything comes from the logs on this server.
+ */
+export async function buildClinicianReport(userId: number, options: ClinicianReportOptions): Promise<Buffer> {
+  const { from, to } = options;
+  const [user, cycles, flowRecords, notes, medications, averageCycleLength, averagePeriodLength, observations] = await Promise.all([
+    storage.getUser(userId),
+    storage.getCycles(userId),
+    storage.getFlowRecords(userId),
+    storage.getDailyNotes(userId),
+    storage.getMedications(userId),
+    storage.getAverageCycleLength(userId),
+    storage.getAveragePeriodLength(userId),
+    buildLongExport(userId, { from, to })
+  ]);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // Days after today have nothing logged yet
+  const lastDay = to < today ? to : today;
+  const daysInRange = Math.max(differenceInCalendarDays(parseISO(lastDay), parseISO(from)) + 1, 0);
+
+  const bleedingDays = new Set(flowRecords.filter(record => record.intensity !== 'spotting').map(record => dayOf(record.date)));
+  const reportCycles = summarizeCycles(cycles, bleedingDays)
+    .filter(cycle => cycle.start <= to && (cycle.end ?? today) >= from);
+
+  const doc = new PdfDocument(`CycleSense report ${from} to ${to}`);
+  const layout = new ReportLayout(doc);
+
+  // Title
+  layout.y += 14;
+  doc.text(MARGIN, layout.y, 'Cycle and symptom report', { size: 18, bold: true });
+  layout.paragraph(`${user?.username ?? 'Unknown user'}, ${displayDate(from)} to ${displayDate(to)}`, { size: 11 });
+  layout.paragraph(`Created ${format(new Date(), 'd MMM yyyy')} with CycleSense from the patient's own daily logs.`, { color: GREY, size: 8.5 });
+
+  // Cycles
+  layout.heading('Cycles');
+  const lengths = reportCycles.map(cycle => cycle.length).filter((length): length is number => length !== null);
+  const periodLengths = reportCycles.map(cycle => cycle.periodLength).filter((length): length is number => length !== null);
+  if (reportCycles.length === 0) {
+    layout.paragraph('No cycles were logged in this period.');
+  } else {
+    layout.paragraph(
+      `${reportCycles.length} ${reportCycles.length === 1 ? 'cycle' : 'cycles'} in this period. ` +
+      (lengths.length > 0
+        ? `Cycle length ${Math.round(average(lengths))} days on average (${Math.min(...lengths)} to ${Math.max(...lengths)}). `
+        : '') +
+      (periodLengths.length > 0
+        ? `Period length ${Math.round(average(periodLengths))} days on average (${Math.min(...periodLengths)} to ${Math.max(...periodLengths)}).`
+        : '')
+    );
+  }
+  layout.paragraph(
+    'All logged cycles: ' +
+    `average cycle length ${averageCycleLength !== undefined ? days(averageCycleLength) : 'not known yet'}, ` +
+    `average period length ${averagePeriodLength !== undefined ? days(averagePeriodLength) : 'not known yet'}.`,
+    { color: GREY }
+  );
+  if (reportCycles.length > 0) {
+    layout.table(
+      [['#', 0, 'left'], ['Start', 30, 'left'], ['End', 140, 'left'], ['Cycle length', 330, 'right'], ['Period length', 440, 'right']],
+      reportCycles.map((cycle, index) => [
+        String(index + 1),
+        displayDate(cycle.start),
+        cycle.end ? displayDate(cycle.end) : 'current cycle',
+        cycle.length !== null ? days(cycle.length) : '-',
+        cycle.periodLength !== null ? days(cycle.periodLength) : '-'
+      ])
+    );
+  }
+
+  // Symptoms by cycle day: in how many of the cycles each symptom was logged on each day.
+  // Cycles run until the next one starts here, so days after a period's end date count too
+  layout.heading('Symptoms by cycle day');
+  const symptomDays = new Map<string, Map<number, Set<number>>>();
+  const symptomCounts = new Map<string, number>();
+  let longestDay = 0;
+  for (const row of observations) {
+    const cycle = reportCycles.find(candidate => candidate.start <= row.date && (candidate.end === null || row.date <= candidate.end));
+    if (!row.metric.startsWith('symptom:') || !cycle) continue;
+    const name = row.metric.slice('symptom:'.length);
+    const column = Math.min(differenceInCalendarDays(parseISO(row.date), parseISO(cycle.start)) + 1, HEATMAP_DAYS);
+    if (!symptomDays.has(name)) symptomDays.set(name, new Map());
+    const byDay = symptomDays.get(name)!;
+    if (!byDay.has(column)) byDay.set(column, new Set());
+    byDay.get(column)!.add(cycle.id);
+    symptomCounts.set(name, (symptomCounts.get(name) ?? 0) + 1);
+    longestDay = Math.max(longestDay, column);
+  }
+  const heatmapSymptoms = Array.from(symptomCounts.keys())
+    .sort((a, b) => symptomCounts.get(b)! - symptomCounts.get(a)! || a.localeCompare(b))
+    .slice(0, HEATMAP_SYMPTOMS);
+
+  if (heatmapSymptoms.length === 0) {
+    layout.paragraph('No symptoms were logged in the cycles of this period.');
+  } else {
+    const columns = Math.max(longestDay, 28);
+    const labelWidth = 120;
+    const cellWidth = (CONTENT_WIDTH - labelWidth) / columns;
+    const cellHeight = 12;
+    layout.paragraph(
+      `Each cell shows in how many of the ${reportCycles.length} cycles the symptom was logged on that cycle day; ` +
+      `darker cells mean more cycles.` + (columns === HEATMAP_DAYS ? ` The last column covers day ${HEATMAP_DAYS} and later.` : ''),
+      { color: GREY, size: 8.5 }
+    );
+    if (symptomCounts.size > HEATMAP_SYMPTOMS) {
+      layout.paragraph(`The ${HEATMAP_SYMPTOMS} most often logged of ${symptomCounts.size} symptoms are shown.`, { color: GREY, size: 8.5 });
+    }
+
+    layout.ensure(cellHeight * (heatmapSymptoms.length + 2));
+    layout.y += 14;
+    doc.text(MARGIN, layout.y - 2, 'Cycle day', { size: 7, color: GREY });
+    for (let day = 1; day <= columns; day++) {
+      if (day === 1 || day % 5 === 0 || day === columns) {
+        const label = day === HEATMAP_DAYS ? `${day}+` : String(day);
+        doc.text(MARGIN + labelWidth + (day - 0.5) * cellWidth, layout.y - 2, label, { size: 6.5, align: 'center', color: GREY });
+      }
+    }
+    for (const name of heatmapSymptoms) {
+      const byDay = symptomDays.get(name)!;
+      doc.text(MARGIN + labelWidth - 6, layout.y + cellHeight - 3, truncate(name, labelWidth - 10, 8), { size: 8, align: 'right' });
+      for (let day = 1; day <= columns; day++) {
+        const count = byDay.get(day)?.size ?? 0;
+        const share = count / reportCycles.length;
+        const x = MARGIN + labelWidth + (day - 1) * cellWidth;
+        doc.rect(x, layout.y, cellWidth, cellHeight, { fill: shade(share), stroke: RULE, lineWidth: 0.3 });
+        if (count > 0) {
+          doc.text(x + cellWidth / 2, layout.y + cellHeight - 3.5, String(count), {
+            size: 6,
+            align: 'center',
+            color: share > 0.5 ? [1, 1, 1] : [0, 0, 0]
+          });
+        }
+      }
+      layout.y += cellHeight;
+    }
+  }
+
+  // Mood trend
+  layout.heading('Mood');
+  const moods = observations
+    .filter(row => row.metric === 'mood' && MOOD_SCALE.includes(String(row.value)))
+    .map(row => ({ day: row.date, level: MOOD_SCALE.indexOf(String(row.value)) }));
+  if (moods.length === 0) {
+    layout.paragraph('No moods were logged in this period.');
+  } else {
+    const counts = MOOD_SCALE.map(mood => [mood, moods.filter(entry => MOOD_SCALE[entry.level] === mood).length] as const)
+      .filter(([, count]) => count > 0);
+    layout.paragraph(
+      `Logged on ${days(moods.length)}: ` + counts.map(([mood, count]) => `${mood} ${count}`).reverse().join(', ') + '.'
+    );
+
+    const chartHeight = 110;
+    const left = MARGIN + 45;
+    const width = CONTENT_WIDTH - 45;
+    const totalDays = Math.max(differenceInCalendarDays(parseISO(to), parseISO(from)), 1);
+    layout.ensure(chartHeight + 40);
+    const top = layout.y + 14;
+    const xOf = (day: string) => left + (differenceInCalendarDays(parseISO(day), parseISO(from)) / totalDays) * width;
+    const yOf = (level: number) => top + ((MOOD_SCALE.length - 1 - level) / (MOOD_SCALE.length - 1)) * chartHeight;
+    MOOD_SCALE.forEach((mood, level) => {
+      doc.rect(left, yOf(level), width, 0.4, { fill: RULE });
+      doc.text(left - 6, yOf(level) + 3, mood, { size: 7.5, align: 'right', color: GREY });
+    });
+
+    // A tick at the start of each month, fewer on long ranges
+    const monthCount = differenceInCalendarDays(parseISO(to), parseISO(from)) / 30;
+    const step = Math.max(1, Math.ceil(monthCount / 12));
+    const ticks: string[] = [];
+    for (let month = startOfMonth(addMonths(parseISO(from), 1)); format(month, 'yyyy-MM-dd') <= to; month = addMonths(month, step)) {
+      ticks.push(format(month, 'yyyy-MM-dd'));
+    }
+    if (ticks.length === 0) ticks.push(from, to);
+    for (const tick of ticks) {
+      doc.rect(xOf(tick), top + chartHeight, 0.4, 4, { fill: GREY });
+      doc.text(xOf(tick), top + chartHeight + 13, format(parseISO(tick), ticks.length > 2 ? 'MMM yy' : 'd MMM yy'), { size: 7, align: 'center', color: GREY });
+    }
+
+    const points = moods.map(({ day, level }) => [xOf(day), yOf(level)] as [number, number]);
+    doc.polyline(points, { color: ACCENT, lineWidth: 0.8 });
+    points.forEach(([x, y]) => doc.rect(x - 1.5, y - 1.5, 3, 3, { fill: ACCENT }));
+    layout.y = top + chartHeight + 16;
+  }
+
+  // Medications
+  layout.heading('Medications');
+  if (medications.length === 0) {
+    layout.paragraph('No medications are recorded.');
+  } else {
+    layout.paragraph(`Days with at least one dose logged, out of the ${days(daysInRange)} from ${displayDate(from)} to ${displayDate(lastDay)}.`, { color: GREY, size: 8.5 });
+    layout.table(
+      [['Medication', 0, 'left'], ['Dose', 150, 'left'], ['Frequency', 250, 'left'], ['Doses', 380, 'right'], ['Days taken', CONTENT_WIDTH, 'right']],
+      [...medications].sort((a, b) => a.name.localeCompare(b.name)).map(medication => {
+        const doses = medication.logs.map(log => dayOf(log.date)).filter(day => day >= from && day <= lastDay);
+        const daysTaken = new Set(doses).size;
+        return [
+          medication.name,
+          medication.dose ?? '',
+          medication.frequency ?? '',
+          String(doses.length),
+          daysInRange > 0 ? `${daysTaken} (${Math.round((daysTaken / daysInRange) * 100)}%)` : String(daysTaken)
+        ];
+      })
+    );
+  }
+
+  // Notes the user chose to share
+  const chosenNotes = notes
+    .filter(note => options.notes.includes(dayOf(note.date)) && dayOf(note.date) >= from && dayOf(note.date) <= to)
+    .sort((a, b) => dayOf(a.date).localeCompare(dayOf(b.date)));
+  if (chosenNotes.length > 0) {
+    layout.heading('Notes');
+    for (const note of chosenNotes) {
+      layout.ensure(30);
+      layout.y += 4;
+      layout.paragraph(displayDate(dayOf(note.date)), { bold: true, size: 9 });
+      layout.paragraph(note.notes, { size: 9 });
+    }
+  }
+
+  const pageCount = doc.pageCount;
+  for (let page = 0; page < pageCount; page++) {
+    const y = PAGE_HEIGHT - 28;
+    doc.text(MARGIN, y, `CycleSense report, ${displayDate(from)} to ${displayDate(to)}`, { size: 7, color: GREY }, page);
+    doc.text(PAGE_WIDTH - MARGIN, y, `Page ${page + 1} of ${pageCount}`, { size: 7, color: GREY, align: 'right' }, page);
+  }
+  return doc.toBuffer();
+}
@@ -0,0 +1,63 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { convertClueExport, ClueImportError } = await import('./clue-import');
+
+const symptomsOn = (data: any, date: string) => data.symptomRecords
+  .filter((record: any) => record.date === date)
+  .map((record: any) => data.symptoms.find((symptom: any) => symptom.id === record.symptomId).name)
+  .sort();
+
+test('tags of the older backup format are mapped to flow, symptoms, mood, mucus and intimacy', () => {
+  const { data, mapping, days } = convertClueExport({
+    data: [
+      {
+        day: '2024-03-01T00:00:00.000Z',
+        period: 'heavy',
+        pain: ['cramps', 'Lower Back'],
+        emotion: ['happy', 'sad'],
+        fluid: 'egg white',
+        sex: ['protected', 'unprotected'],
+        energy: 'ok'
+      },
+      { day: '2024-03-02', spotting: 'brown', period: 'light', craving: ['salty'] }
+    ]
+  });
+
+  assert.equal(days, 2);
+  assert.deepEqual(data.flowRecords, [{ date: '2024-03-01', intensity: 'heavy' }, { date: '2024-03-02', intensity: 'light' }]);
+  assert.deepEqual(data.cycles, [{ startDate: '2024-03-01', endDate: '2024-03-02', notes: null }]);
+  // Pain tags without a counterpart become custom symptoms
+  assert.deepEqual(symptomsOn(data, '2024-03-01'), ['Cramps', 'Lower Back']);
+  // The lowest mood of the day is kept
+  assert.deepEqual(data.moodRecords, [{ date: '2024-03-01', mood: 'bad' }]);
+  assert.deepEqual(data.cervicalMucusRecords, [{ date: '2024-03-01', type: 'eggwhite' }]);
+  assert.deepEqual(data.sexRecords, [{ date: '2024-03-01', protected: false }]);
+
+  const mappedTo = Object.fromEntries(mapping.map(entry => [`${entry.category}:${entry.tag}`, entry.mappedTo]));
+  assert.equal(mappedTo['pain:lower_back'], 'Symptom: Lower Back');
+  assert.equal(mappedTo['mood:happy'], 'Mood: good');
+  assert.equal(mappedTo['spotting:brown'], 'Flow: spotting');
+  assert.equal(mappedTo['energy:ok'], null);
+  assert.equal(mappedTo['craving:salty'], null);
+});
+
+test('the newer list of measurements is read too, with real bleeding winning over spotting', () => {
+  const { data } = convertClueExport([
+    { date: '2024-05-10', type: 'spotting', value: { option: 'red' } },
+    { date: '2024-05-10', type: 'period', value: { option: 'medium' } },
+    { date: '2024-05-11', type: 'pain', value: { options: ['headache', 'tender-breasts'] } },
+    { date: '2024-05-11', type: 'feelings', value: [{ option: 'sensitive' }] }
+  ]);
+
+  assert.deepEqual(data.flowRecords, [{ date: '2024-05-10', intensity: 'medium' }]);
+  assert.deepEqual(symptomsOn(data, '2024-05-11'), ['Breast Tenderness', 'Headache']);
+  assert.deepEqual(data.moodRecords, [{ date: '2024-05-11', mood: 'okay' }]);
+});
+
+test('files that are not Clue exports are refused', () => {
+  assert.throws(() => convertClueExport({ cycles: [] }), ClueImportError);
+  assert.throws(() => convertClueExport([{ type: 'period', value: 'heavy' }]), ClueImportError);
+});
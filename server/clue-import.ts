@@ -0,0 +1,232 @@
+import { parseISO } from 'date-fns';
+import { FlowIntensity, MoodLevel, SymptomCategory } from '@shared/schema';
+import type { DataSet } from './data-migrations';
+import { cyclesFromFlowRecords, type ConvertedImport, type ImportTagMapping } from './import-merge';
+
+/**
+ * Thrown for a file that doesn't look like a Clue export.
+ */
+export class ClueImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClueImportError';
+  }
+}
+
+type Target =
+  | { kind: 'flow'; intensity: string }
+  | { kind: 'symptom'; name: string; category: string }
+  | { kind: 'mood'; mood: string }
+  | { kind: 'mucus'; type: string }
+  | { kind: 'sex'; protected: boolean };
+
+// Clue renamed some categories over the years
+const CATEGORY_ALIASES: Record<string, string> = {
+  period: 'period',
+  spotting: 'spotting',
+  pain: 'pain',
+  emotion: 'mood',
+  emotions: 'mood',
+  feelings: 'mood',
+  mood: 'mood',
+  mind: 'mood',
+  energy: 'energy',
+  fluid: 'fluid',
+  discharge: 'fluid',
+  cervical_fluid: 'fluid',
+  sex: 'sex'
+};
+
+const physical = (name: string): Target => ({ kind: 'symptom', name, category: SymptomCategory.PHYSICAL });
+const emotional = (name: string): Target => ({ kind: 'symptom', name, category: SymptomCategory.EMOTIONAL });
+
+// Tags are matched after lower-casing and turning spaces and dashes into underscores
+const TAG_TARGETS: Record<string, Record<string, Target | null>> = {
+  period: {
+    spotting: { kind: 'flow', intensity: FlowIntensity.SPOTTING },
+    light: { kind: 'flow', intensity: FlowIntensity.LIGHT },
+    medium: { kind: 'flow', intensity: FlowIntensity.MEDIUM },
+    heavy: { kind: 'flow', intensity: FlowIntensity.HEAVY },
+    very_heavy: { kind: 'flow', intensity: FlowIntensity.HEAVY }
+  },
+  pain: {
+    cramps: physical('Cramps'),
+    headache: physical('Headache'),
+    tender_breasts: physical('Breast Tenderness'),
+    ovulation: physical('Ovulation Pain'),
+    ovulation_pain: physical('Ovulation Pain')
+  },
+  mood: {
+    happy: { kind: 'mood', mood: MoodLevel.GOOD },
+    sensitive: { kind: 'mood', mood: MoodLevel.OKAY },
+    sad: { kind: 'mood', mood: MoodLevel.BAD },
+    pms: { kind: 'mood', mood: MoodLevel.BAD }
+  },
+  energy: {
+    exhausted: physical('Fatigue'),
+    tired: physical('Fatigue'),
+    ok: null,
+    energized: physical('High Energy'),
+    fully_energized: physical('High Energy')
+  },
+  fluid: {
+    none: { kind: 'mucus', type: 'dry' },
+    dry: { kind: 'mucus', type: 'dry' },
+    sticky: { kind: 'mucus', type: 'sticky' },
+    creamy: { kind: 'mucus', type: 'creamy' },
+    watery: { kind: 'mucus', type: 'watery' },
+    egg_white: { kind: 'mucus', type: 'eggwhite' },
+    eggwhite: { kind: 'mucus', type: 'eggwhite' },
+    atypical: null
+  },
+  sex: {
+    protected: { kind: 'sex', protected: true },
+    unprotected: { kind: 'sex', protected: false },
+    withdrawal: { kind: 'sex', protected: false },
+    high_sex_drive: emotional('High Sex Drive')
+  }
+};
+
+// When a day has several mood tags, the lowest mood is kept
+const MOOD_ORDER: string[] = [MoodLevel.AWFUL, MoodLevel.BAD, MoodLevel.OKAY, MoodLevel.GOOD, MoodLevel.GREAT];
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// "tender_breasts" -> "Tender Breasts"
+const humanize = (tag: string) => tag.split('_').filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+function describe(target: Target): string {
+  switch (target.kind) {
+    case 'flow': return `Flow: ${target.intensity}`;
+    case 'symptom': return `Symptom: ${target.name}`;
+    case 'mood': return `Mood: ${target.mood}`;
+    case 'mucus': return `Cervical mucus: ${target.type}`;
+    case 'sex': return `Intimacy: ${target.protected ? 'protected' : 'unprotected'}`;
+  }
+}
+
+// Tag values come as a string, a list, or { option } / { options } objects
+function tagValues(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(tagValues);
+  if (value && typeof value === 'object') {
+    const { option, options, value: inner } = value as Record<string, unknown>;
+    return tagValues(option ?? options ?? inner);
+  }
+  return [];
+}
+
+/**
+ * Read the tags of each day from either export format: the older backup
+ * ({ data: [{ day, period, pain: [...] }] }) or the newer list of
+ * measurements ([{ date, type, value }]).
+ */
+function readDays(raw: unknown): Map<string, Map<string, string[]>> {
+  const entries = Array.isArray(raw) ? raw : (raw as any)?.data;
+  if (!Array.isArray(entries)) {
+    throw new ClueImportError('Not a Clue export: expected a "data" list or a list of measurements');
+  }
+
+  const days = new Map<string, Map<string, string[]>>();
+  const addTags = (date: unknown, category: string, value: unknown) => {
+    const alias = CATEGORY_ALIASES[normalizeTag(category)] ?? normalizeTag(category);
+    if (typeof date !== 'string' || isNaN(parseISO(date).getTime())) return;
+    const tags = tagValues(value).map(normalizeTag).filter(Boolean);
+    if (tags.length === 0) return;
+    const day = date.slice(0, 10);
+    if (!days.has(day)) days.set(day, new Map());
+    const categories = days.get(day)!;
+    categories.set(alias, [...(categories.get(alias) || []), ...tags]);
+  };
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    if (typeof entry.type === 'string') {
+      addTags(entry.date ?? entry.day, entry.type, entry.value);
+    } else {
+      const { day, date, ...categories } = entry;
+      Object.entries(categories).forEach(([category, value]) => addTags(day ?? date, category, value));
+    }
+  }
+  if (days.size === 0 && entries.length > 0) {
+    throw new ClueImportError('Not a Clue export: no dated entries found');
+  }
+  return days;
+}
+
+/**
+ * Turn a Clue export into CycleSense import data. Tags without a
+ * counterpart are listed in the mapping with mappedTo null. Symptoms are
+ * referenced by name, so ones the user doesn't have yet are created as
+ * custom symptoms when the data is merged.
+ */
+export function convertClueExport(raw: unknown): ConvertedImport {
+  const days = readDays(raw);
+  const usage = new Map<string, ImportTagMapping>();
+  const symptomIds = new Map<string, { id: number; name: string; category: string }>();
+
+  const flowRecords: any[] = [];
+  const symptomRecords: any[] = [];
+  const moodRecords: any[] = [];
+  const cervicalMucusRecords: any[] = [];
+  const sexRecords: any[] = [];
+
+  for (const day of Array.from(days.keys()).sort()) {
+    const moods: string[] = [];
+    const symptoms = new Set<string>();
+    let flow: string | undefined;
+    let mucus: string | undefined;
+    let sex: boolean | undefined;
+
+    for (const [category, tags] of days.get(day)!) {
+      for (const tag of new Set(tags)) {
+        // Clue's own spotting category has colours as tags
+        const target = category === 'spotting'
+          ? TAG_TARGETS.period.spotting
+          : TAG_TARGETS[category]?.[tag] ?? (category === 'pain' ? physical(humanize(tag)) : null);
+
+        const usageKey = `${category}:${tag}`;
+        if (!usage.has(usageKey)) usage.set(usageKey, { category, tag, mappedTo: target ? describe(target) : null, days: 0 });
+        usage.get(usageKey)!.days++;
+        if (!target) continue;
+
+        if (target.kind === 'flow') {
+          // Real bleeding wins over spotting on the same day
+          if (!flow || flow === FlowIntensity.SPOTTING) flow = target.intensity;
+        } else if (target.kind === 'symptom') {
+          if (!symptomIds.has(target.name)) symptomIds.set(target.name, { id: symptomIds.size + 1, ...target });
+          symptoms.add(target.name);
+        } else if (target.kind === 'mood') {
+          moods.push(target.mood);
+        } else if (target.kind === 'mucus') {
+          mucus = target.type;
+        } else {
+          // One record per day: unprotected if any entry was
+          sex = sex === undefined ? target.protected : sex && target.protected;
+        }
+      }
+    }
+
+    if (flow) flowRecords.push({ date: day, intensity: flow });
+    symptoms.forEach(name => symptomRecords.push({ date: day, symptomId: symptomIds.get(name)!.id, intensity: null }));
+    if (moods.length > 0) {
+      moodRecords.push({ date: day, mood: moods.sort((a, b) => MOOD_ORDER.indexOf(a) - MOOD_ORDER.indexOf(b))[0] });
+    }
+    if (mucus) cervicalMucusRecords.push({ date: day, type: mucus });
+    if (sex !== undefined) sexRecords.push({ date: day, protected: sex });
+  }
+
+  const data: DataSet = {
+    // Clue has no cycles of its own
+    cycles: cyclesFromFlowRecords(flowRecords),
+    flowRecords,
+    symptoms: Array.from(symptomIds.values()).map(symptom => ({ ...symptom, isDefault: false, userId: null })),
+    symptomRecords,
+    moodRecords,
+    cervicalMucusRecords,
+    sexRecords
+  };
+  const mapping = Array.from(usage.values())
+    .sort((a, b) => a.category.localeCompare(b.category) || b.days - a.days);
+  return { data, mapping, days: days.size };
+}
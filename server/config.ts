@@ -3,6 +3,13 @@ console.log("LOADING CONFIG");
 import fs from 'fs';
 import path from 'path';
 
+// How many backups to keep per period, on top of the newest maxBackups
+export interface BackupRetention {
+  daily?: number;
+  weekly?: number;
+  monthly?: number;
+}
+
 interface AppConfig {
   dataPath: string;
   port: number;
@@ -10,8 +17,22 @@ interface AppConfig {
   logLevel: string;
   backupInterval: number;
   maxBackups: number;
+  backupRetention?: BackupRetention;
+  backupSecondaryPath?: string;
   ipWhitelistEnabled?: boolean;
   ipWhitelistFile?: string;
+  saveDelayMs: number;
+  storageBackend: 'file' | 'sqlite';
+  uiPassword?: string;
+  corsEnabled?: boolean;
+  corsOrigins?: string[];
+  corsMethods?: string[];
+  corsAllowCredentials?: boolean;
+  httpsEnabled?: boolean;
+  httpsCertFile?: string;
+  httpsKeyFile?: string;
+  httpsHostnames?: string[];
+  httpRedirectPort?: number;
 }
 
 // Default configuration
@@ -21,9 +42,19 @@ const defaultConfig: AppConfig = {
   host: '0.0.0.0',
   logLevel: 'info',
   backupInterval: 24, // hours
-  maxBackups: 7,
+  maxBackups: 7, // the newest backups are always kept, however old
+  backupRetention: { daily: 7, weekly: 4, monthly: 12 },
+  backupSecondaryPath: '', // also copy backups here, e.g. a USB drive or synced folder
   ipWhitelistEnabled: false,
-  ipWhitelistFile: './ip-whitelist.txt'
+  ipWhitelistFile: './ip-whitelist.txt',
+  saveDelayMs: 1000, // coalesce data file writes within this window
+  storageBackend: 'file', // 'file' (JSON files) or 'sqlite' (dataPath/cyclesense.db)
+  uiPassword: '', // password prompt in front of the web UI; empty disables it
+  corsEnabled: true,
+  corsOrigins: [], // e.g. 'http://192.168.1.70:3000'; every allowed origin is listed explicitly
+  corsMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  corsAllowCredentials: false, // let allowed origins send cookies (login session, UI password)
+  httpsEnabled: false // serve over HTTPS; without httpsCertFile/httpsKeyFile a self-signed certificate is generated
 };
 
 // Load configuration from file
@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+
+export interface CorsConfig {
+  origins: string[];
+  methods: string[];
+  allowCredentials: boolean;
+}
+
+const ALLOWED_HEADERS = 'Content-Type, Authorization';
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+// "HTTP://Host:3000/" and "http://host:3000" are the same origin
+function normalizeOrigin(origin: string): string {
+  return origin.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * CORS for an explicit list of origins, e.g. a dashboard served on another
+ * port. Requests from any other origin get no CORS headers, so browsers keep
+ * blocking them; same-origin requests are not affected.
+ */
+export function corsMiddleware(config: CorsConfig) {
+  const origins = new Set(config.origins.map(normalizeOrigin));
+  const methods = config.methods.map(method => method.toUpperCase()).join(', ');
+
+  if (origins.size === 0) {
+    console.log('[CORS] corsOrigins is empty; no other origin is allowed.');
+  }
+  if (origins.has('*')) {
+    console.warn('[CORS] "*" in corsOrigins is ignored; list each allowed origin instead.');
+    origins.delete('*');
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    if (!origin) return next();
+
+    res.vary('Origin');
+    const isPreflight = req.method === 'OPTIONS' && !!req.headers['access-control-request-method'];
+
+    if (!origins.has(normalizeOrigin(origin))) {
+      if (isPreflight) return res.status(403).end();
+      return next();
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    if (config.allowCredentials) {
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+    }
+    if (isPreflight) {
+      res.setHeader('Access-Control-Allow-Methods', methods);
+      res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+      res.setHeader('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE_SECONDS));
+      return res.status(204).end();
+    }
+    next();
+  };
+}
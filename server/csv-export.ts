@@ -0,0 +1,126 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  CSV_EXPORT_COLUMNS,
+  CSV_EXPORT_DELIMITERS,
+  type Cycle,
+  type CsvExportColumn,
+  type CsvExportOptions
+} from '@shared/schema';
+import { storage } from './storage';
+
+// Named so that the CSV import recognises every column of the export
+const HEADERS: Record<CsvExportColumn, string> = {
+  cycleDay: 'CycleDay',
+  flow: 'Flow',
+  mood: 'Mood',
+  symptoms: 'Symptoms',
+  cervicalMucus: 'CervicalMucus',
+  medications: 'Medications',
+  intimacy: 'Intimacy',
+  notes: 'Notes'
+};
+
+const dayOf = (date: string) => date.split('T')[0];
+
+// RFC 4180: cells holding the delimiter, a quote or a line break are quoted, quotes doubled
+export function csvCell(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function cycleDayOf(day: string, cycles: Cycle[], today: string): string {
+  for (const cycle of cycles) {
+    const start = dayOf(cycle.startDate);
+    const end = cycle.endDate ? dayOf(cycle.endDate) : today;
+    if (day >= start && day <= end) {
+      return String(differenceInCalendarDays(parseISO(day), parseISO(start)) + 1);
+    }
+  }
+  return '';
+}
+
+/**
+ * The user's logs as CSV, a row per day, newest first. A day is in the file
+ * when anything in its columns was logged that day. Symptoms are listed with
+ * their intensity ("Cramps (3), Headache"); with `symptomIntensities` each
+ * symptom logged in the range also gets a "Symptom: <name>" column holding
+ * its intensity, or "x" when logged without one.
+ */
+export async function buildCsvExport(userId: number, options: CsvExportOptions): Promise<string> {
+  const [cycles, flowRecords, moodRecords, symptoms, symptomRecords, notes, cervicalMucusRecords, sexRecords, medications] = await Promise.all([
+    storage.getCycles(userId),
+    storage.getFlowRecords(userId),
+    storage.getMoodRecords(userId),
+    storage.getUserSymptoms(userId),
+    storage.getSymptomRecords(userId),
+    storage.getDailyNotes(userId),
+    storage.getCervicalMucusRecords(userId),
+    storage.getSexRecords(userId),
+    storage.getMedications(userId)
+  ]);
+
+  const delimiter = CSV_EXPORT_DELIMITERS[options.delimiter];
+  const columns = CSV_EXPORT_COLUMNS.filter(column => !options.columns || options.columns.includes(column));
+  const inRange = (day: string) => (!options.from || day >= options.from) && (!options.to || day <= options.to);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // Day -> cell of each column; only the chosen columns are filled in
+  const days = new Map<string, Map<string, string>>();
+  const cellsOf = (day: string) => {
+    if (!days.has(day)) days.set(day, new Map());
+    return days.get(day)!;
+  };
+  const add = (column: string, date: string, value: string) => {
+    const day = dayOf(date);
+    if (!inRange(day)) return;
+    const cells = cellsOf(day);
+    cells.set(column, cells.has(column) ? `${cells.get(column)}, ${value}` : value);
+  };
+
+  if (columns.includes('flow')) flowRecords.forEach(record => add('flow', record.date, record.intensity));
+  if (columns.includes('mood')) moodRecords.forEach(record => add('mood', record.date, record.mood));
+  if (columns.includes('cervicalMucus')) cervicalMucusRecords.forEach(record => add('cervicalMucus', record.date, record.type));
+  if (columns.includes('notes')) notes.forEach(note => add('notes', note.date, note.notes));
+  if (columns.includes('intimacy')) {
+    sexRecords.forEach(record => {
+      add('intimacy', record.date, record.protected === undefined ? 'Yes' : record.protected ? 'protected' : 'unprotected');
+    });
+  }
+  if (columns.includes('medications')) {
+    for (const medication of medications) {
+      const label = medication.name + (medication.dose ? ` (${medication.dose})` : '');
+      // Several doses on one day are one entry; lists use semicolons as doses may hold commas
+      new Set(medication.logs.map(log => dayOf(log.date))).forEach(day => {
+        if (!inRange(day)) return;
+        const cells = cellsOf(day);
+        cells.set('medications', cells.has('medications') ? `${cells.get('medications')}; ${label}` : label);
+      });
+    }
+  }
+
+  const symptomNames = new Map(symptoms.map(symptom => [symptom.id, symptom.name]));
+  const intensityColumns = new Set<string>();
+  for (const record of symptomRecords) {
+    const name = symptomNames.get(record.symptomId);
+    if (!name) continue;
+    if (columns.includes('symptoms')) add('symptoms', record.date, record.intensity ? `${name} (${record.intensity})` : name);
+    if (options.symptomIntensities) {
+      add(`Symptom: ${name}`, record.date, record.intensity ? String(record.intensity) : 'x');
+      if (inRange(dayOf(record.date))) intensityColumns.add(`Symptom: ${name}`);
+    }
+  }
+
+  const extraColumns = Array.from(intensityColumns).sort((a, b) => a.localeCompare(b));
+  const header = ['Date', ...columns.map(column => HEADERS[column]), ...extraColumns];
+  const lines = [header.map(cell => csvCell(cell, delimiter)).join(delimiter)];
+
+  for (const day of Array.from(days.keys()).sort().reverse()) {
+    const cells = days.get(day)!;
+    const row = [
+      day,
+      ...columns.map(column => column === 'cycleDay' ? cycleDayOf(day, cycles, today) : cells.get(column) ?? ''),
+      ...extraColumns.map(column => cells.get(column) ?? '')
+    ];
+    lines.push(row.map(cell => csvCell(cell, delimiter)).join(delimiter));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
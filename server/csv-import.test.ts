@@ -0,0 +1,109 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { storage } = await import('./storage');
+const { buildCsvExport } = await import('./csv-export');
+const { convertCsv, inspectCsv, parseCsv, CsvImportError } = await import('./csv-import');
+const { ImportValidationError } = await import('./import-validation');
+
+test('quoted cells keep their delimiters, line breaks and doubled quotes', () => {
+  const text = 'Date,Notes\r\n2024-03-01,"tired, ""very"" tired\nslept early"\r\n\r\n2024-03-02,ok';
+  assert.deepEqual(parseCsv(text, ','), [
+    ['Date', 'Notes'],
+    ['2024-03-01', 'tired, "very" tired\nslept early'],
+    // Blank lines stay, so row numbers match the spreadsheet's
+    [''],
+    ['2024-03-02', 'ok']
+  ]);
+  assert.throws(() => parseCsv('Date,Notes\n2024-03-01,"never closed', ','), CsvImportError);
+});
+
+test('the delimiter is the one used most in the header outside quotes', () => {
+  assert.equal(inspectCsv('Date;"Notes, free text";Mood\n01.03.2024;a;good', []).delimiter, ';');
+  assert.equal(inspectCsv('Date\tFlow\tMood\n2024-03-01\theavy\tgood', []).delimiter, '\t');
+  // Excel starts UTF-8 files with a byte order mark
+  assert.deepEqual(inspectCsv('\uFEFFDate,Flow\n2024-03-01,heavy', []).headers, ['Date', 'Flow']);
+});
+
+test('the columns of an unknown spreadsheet are guessed from headers and values', () => {
+  const inspection = inspectCsv('Day logged,Period,Cramps\n13/04/2024,x,3\n03/04/2024,,', ['Cramps']);
+
+  assert.deepEqual(inspection.dateFormats['Day logged'], ['d/M/yyyy']);
+  assert.deepEqual(inspection.suggested, {
+    columns: {
+      Period: { field: 'flow' },
+      Cramps: { field: 'symptom', symptom: 'Cramps' },
+      'Day logged': { field: 'date' }
+    },
+    dateFormat: 'd/M/yyyy'
+  });
+  assert.equal(inspection.rowCount, 2);
+});
+
+test('symptom lists that spilled into the next columns are put back together', () => {
+  const text = 'Date,Flow,Symptoms,Notes\n2024-03-01,heavy,Cramps (3),Headache,Bloating (2),tired';
+  const { data } = convertCsv(text, inspectCsv(text, []).suggested);
+
+  assert.deepEqual(data.symptoms.map(symptom => symptom.name), ['Cramps', 'Headache', 'Bloating']);
+  assert.deepEqual(data.symptomRecords.map(record => record.intensity), [3, null, 2]);
+  assert.deepEqual(data.dailyNotes, [{ date: '2024-03-01', notes: 'tired' }]);
+});
+
+test('rows with more cells than columns and dates in the wrong format are errors', () => {
+  const text = 'Date,Flow,Notes\n2024-03-01,heavy,a,b\n03/01/2024,light,';
+  assert.throws(() => convertCsv(text, inspectCsv(text, []).suggested), (error: unknown) => {
+    assert.ok(error instanceof ImportValidationError);
+    assert.deepEqual(error.report.rows.map(({ row, field }) => ({ row, field })), [
+      { row: 2, field: '' },
+      { row: 3, field: 'Date' }
+    ]);
+    return true;
+  });
+});
+
+test("the app's own CSV export is read back as the records it was made from", async () => {
+  const user = await storage.createUser({ username: 'alice', password: 'x', email: '' });
+  const userId = user.id;
+  const cramps = await storage.createSymptom({ name: 'Cramps', category: 'physical', isDefault: false, userId });
+  const headache = await storage.createSymptom({ name: 'Headache', category: 'physical', isDefault: false, userId });
+  const cycle = await storage.createCycle({ userId, startDate: '2024-03-01', endDate: '2024-03-02' });
+  await storage.createFlowRecord({ userId, cycleId: cycle.id, date: '2024-03-01', intensity: 'heavy' });
+  await storage.createFlowRecord({ userId, cycleId: cycle.id, date: '2024-03-02', intensity: 'light' });
+  await storage.createMoodRecord({ userId, date: '2024-03-01', mood: 'bad' });
+  await storage.createSymptomRecord({ userId, symptomId: cramps.id, date: '2024-03-01', intensity: 4 });
+  await storage.createSymptomRecord({ userId, symptomId: headache.id, date: '2024-03-01', intensity: null });
+  await storage.createCervicalMucusRecord({ userId, date: '2024-03-14', type: 'eggwhite' });
+  await storage.createSexRecord({ userId, date: '2024-03-14', protected: false });
+  await storage.createDailyNote({ userId, date: '2024-03-02', notes: 'said "no" to coffee,\nslept early' });
+  await storage.createMedication({ userId, name: 'Ibuprofen', dose: '200 mg, twice', logs: [{ date: '2024-03-01' }, { date: '2024-03-01T20:00:00Z' }] });
+
+  const expected = {
+    cycles: [{ startDate: '2024-03-01', endDate: '2024-03-02', notes: null }],
+    flowRecords: [{ date: '2024-03-01', intensity: 'heavy' }, { date: '2024-03-02', intensity: 'light' }],
+    moodRecords: [{ date: '2024-03-01', mood: 'bad' }],
+    symptoms: ['Cramps', 'Headache'],
+    symptomRecords: [{ date: '2024-03-01', symptom: 'Cramps', intensity: 4 }, { date: '2024-03-01', symptom: 'Headache', intensity: null }],
+    cervicalMucusRecords: [{ date: '2024-03-14', type: 'eggwhite' }],
+    sexRecords: [{ date: '2024-03-14', protected: false }],
+    dailyNotes: [{ date: '2024-03-02', notes: 'said "no" to coffee,\nslept early' }],
+    medications: [{ name: 'Ibuprofen', dose: '200 mg, twice', logs: [{ date: '2024-03-01' }] }]
+  };
+
+  for (const delimiter of ['comma', 'semicolon', 'tab'] as const) {
+    for (const symptomIntensities of [false, true]) {
+      const csv = await buildCsvExport(userId, { delimiter, symptomIntensities });
+      const { data, days } = convertCsv(csv, inspectCsv(csv, []).suggested);
+      const symptomNames = new Map(data.symptoms.map(symptom => [symptom.id, symptom.name]));
+
+      assert.equal(days, 3, `${delimiter}, intensity columns ${symptomIntensities}`);
+      assert.deepEqual({
+        ...data,
+        cycles: data.cycles.map(({ startDate, endDate, notes }) => ({ startDate, endDate, notes })),
+        symptoms: data.symptoms.map(symptom => symptom.name),
+        symptomRecords: data.symptomRecords.map(({ date, symptomId, intensity }) => ({ date, symptom: symptomNames.get(symptomId), intensity }))
+      }, expected, `${delimiter}, intensity columns ${symptomIntensities}`);
+    }
+  }
+});
@@ -0,0 +1,490 @@
+import { format, isValid, parse } from 'date-fns';
+import {
+  CSV_DATE_FORMATS,
+  FlowIntensity,
+  MoodLevel,
+  SymptomCategory,
+  type CsvColumnMapping,
+  type CsvImportMapping
+} from '@shared/schema';
+import type { DataSet } from './data-migrations';
+import { cyclesFromFlowRecords, type ConvertedImport, type ImportTagMapping } from './import-merge';
+import { ImportValidationError, MAX_ERRORS_PER_COLLECTION, type ImportRowError } from './import-validation';
+
+/**
+ * Thrown for a file that can't be read as CSV, or a mapping that doesn't fit it.
+ */
+export class CsvImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvImportError';
+  }
+}
+
+type CsvDateFormat = typeof CSV_DATE_FORMATS[number];
+
+export interface CsvInspection {
+  delimiter: string;
+  headers: string[];
+  // The first rows, shown next to the mapping
+  sample: string[][];
+  rowCount: number;
+  // Per column, the date formats every one of its values can be read with
+  dateFormats: Record<string, CsvDateFormat[]>;
+  // Guessed from the headers; the app's own CSV export is recognised completely
+  suggested: CsvImportMapping;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+const SAMPLE_ROWS = 5;
+// Enough rows to tell 03/04 from 13/04 without reading huge files twice
+const DATE_DETECTION_ROWS = 500;
+
+// Headers are matched lower-cased and without spaces or punctuation
+const HEADER_FIELDS: Record<string, CsvColumnMapping['field']> = {
+  date: 'date',
+  day: 'date',
+  flow: 'flow',
+  period: 'flow',
+  bleeding: 'flow',
+  mood: 'mood',
+  symptoms: 'symptoms',
+  cervicalmucus: 'cervicalMucus',
+  mucus: 'cervicalMucus',
+  cervicalfluid: 'cervicalMucus',
+  discharge: 'cervicalMucus',
+  notes: 'notes',
+  note: 'notes',
+  comments: 'notes',
+  medications: 'medications',
+  medication: 'medications',
+  meds: 'medications',
+  intimacy: 'intimacy',
+  sex: 'intimacy'
+};
+
+// Cell values are matched lower-cased, with spaces and dashes as underscores
+const FLOW_VALUES: Record<string, string> = {
+  spotting: FlowIntensity.SPOTTING,
+  spot: FlowIntensity.SPOTTING,
+  light: FlowIntensity.LIGHT,
+  low: FlowIntensity.LIGHT,
+  '1': FlowIntensity.LIGHT,
+  medium: FlowIntensity.MEDIUM,
+  moderate: FlowIntensity.MEDIUM,
+  normal: FlowIntensity.MEDIUM,
+  '2': FlowIntensity.MEDIUM,
+  heavy: FlowIntensity.HEAVY,
+  high: FlowIntensity.HEAVY,
+  very_heavy: FlowIntensity.HEAVY,
+  '3': FlowIntensity.HEAVY,
+  // A period column that only marks the days
+  yes: FlowIntensity.MEDIUM,
+  x: FlowIntensity.MEDIUM,
+  true: FlowIntensity.MEDIUM
+};
+
+const MOOD_VALUES: Record<string, string> = {
+  great: MoodLevel.GREAT,
+  '5': MoodLevel.GREAT,
+  good: MoodLevel.GOOD,
+  '4': MoodLevel.GOOD,
+  okay: MoodLevel.OKAY,
+  ok: MoodLevel.OKAY,
+  fine: MoodLevel.OKAY,
+  neutral: MoodLevel.OKAY,
+  '3': MoodLevel.OKAY,
+  bad: MoodLevel.BAD,
+  low: MoodLevel.BAD,
+  '2': MoodLevel.BAD,
+  awful: MoodLevel.AWFUL,
+  terrible: MoodLevel.AWFUL,
+  '1': MoodLevel.AWFUL
+};
+
+const MUCUS_VALUES: Record<string, string> = {
+  dry: 'dry',
+  none: 'dry',
+  sticky: 'sticky',
+  tacky: 'sticky',
+  creamy: 'creamy',
+  lotion: 'creamy',
+  watery: 'watery',
+  wet: 'watery',
+  eggwhite: 'eggwhite',
+  egg_white: 'eggwhite',
+  stretchy: 'eggwhite'
+};
+
+const INTIMACY_VALUES: Record<string, { protected?: boolean }> = {
+  yes: {},
+  y: {},
+  x: {},
+  true: {},
+  '1': {},
+  protected: { protected: true },
+  unprotected: { protected: false }
+};
+
+// Cells that say "nothing logged", in any column
+const EMPTY_VALUES = new Set(['', 'no', 'n', 'none', 'false', '0', '-']);
+// Cells of a single-symptom column that mark it without an intensity
+const PRESENT_VALUES = new Set(['yes', 'y', 'x', 'true', '✓']);
+
+// When a day is in the file twice, the lowest mood and heaviest flow are kept
+const MOOD_ORDER: string[] = [MoodLevel.AWFUL, MoodLevel.BAD, MoodLevel.OKAY, MoodLevel.GOOD, MoodLevel.GREAT];
+const FLOW_ORDER: string[] = [FlowIntensity.SPOTTING, FlowIntensity.LIGHT, FlowIntensity.MEDIUM, FlowIntensity.HEAVY];
+
+const normalizeValue = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  const counts = DELIMITERS.map(delimiter => unquoted.split(delimiter).length - 1);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Split CSV text into rows of cells as RFC 4180 describes it: quoted cells
+ * may hold delimiters, line breaks and doubled quotes. Blank lines are kept
+ * so row numbers match the spreadsheet's.
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new CsvImportError('The file ends inside a quoted cell');
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Headers name the columns in mappings, so they have to be there and unique
+function uniqueHeaders(headerRow: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headerRow.map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+}
+
+function readTable(text: string) {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const [headerRow, ...rows] = parseCsv(content, delimiter);
+  if (!headerRow || headerRow.every(cell => cell.trim() === '')) {
+    throw new CsvImportError('The file is empty; the first row should name the columns');
+  }
+  return { delimiter, headers: uniqueHeaders(headerRow), rows };
+}
+
+const isBlank = (row: string[]) => row.every(cell => cell.trim() === '');
+
+function parseDate(value: string, dateFormat: CsvDateFormat): string | null {
+  // Date columns exported with a time ("2024-05-01T08:00:00Z") are read by their day
+  const text = dateFormat === 'yyyy-MM-dd' ? value.trim().slice(0, 10) : value.trim();
+  const date = parse(text, dateFormat, new Date(2000, 0, 1));
+  if (!isValid(date) || date.getFullYear() < 1900 || date.getFullYear() > 2100) return null;
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Look at a CSV file before it is mapped: its columns, a few rows, which
+ * date formats fit each column and a mapping guessed from the headers.
+ * `symptomNames` are the user's symptoms, so that a column named after one
+ * is suggested as that symptom's intensity.
+ */
+export function inspectCsv(text: string, symptomNames: string[]): CsvInspection {
+  const { delimiter, headers, rows } = readTable(text);
+  const dataRows = rows.filter(row => !isBlank(row));
+
+  const dateFormats: Record<string, CsvDateFormat[]> = {};
+  headers.forEach((header, index) => {
+    const values = dataRows.slice(0, DATE_DETECTION_ROWS).map(row => (row[index] ?? '').trim()).filter(Boolean);
+    if (values.length === 0) return;
+    const formats = CSV_DATE_FORMATS.filter(dateFormat => values.every(value => parseDate(value, dateFormat)));
+    if (formats.length > 0) dateFormats[header] = formats;
+  });
+
+  const symptomsByName = new Map(symptomNames.map(name => [normalizeHeader(name), name]));
+  const columns: CsvImportMapping['columns'] = {};
+  let dateColumn: string | undefined;
+  for (const header of headers) {
+    const field = HEADER_FIELDS[normalizeHeader(header)];
+    const symptomHeader = header.match(/^symptom\s*[:\-]\s*(.+)$/i);
+    if (field === 'date') {
+      if (dateColumn) continue;
+      dateColumn = header;
+      columns[header] = { field };
+    } else if (field) {
+      columns[header] = { field };
+    } else if (symptomHeader) {
+      columns[header] = { field: 'symptom', symptom: symptomHeader[1].trim() };
+    } else if (symptomsByName.has(normalizeHeader(header))) {
+      columns[header] = { field: 'symptom', symptom: symptomsByName.get(normalizeHeader(header)) };
+    }
+  }
+
+  // Otherwise the first column that holds nothing but dates
+  dateColumn ??= headers.find(header => !columns[header] && dateFormats[header]);
+  if (dateColumn) columns[dateColumn] = { field: 'date' };
+
+  return {
+    delimiter,
+    headers,
+    sample: dataRows.slice(0, SAMPLE_ROWS),
+    rowCount: dataRows.length,
+    dateFormats,
+    suggested: { columns, dateFormat: (dateColumn && dateFormats[dateColumn]?.[0]) || 'yyyy-MM-dd' }
+  };
+}
+
+// "Cramps (3)" or "Cramps: 3"
+function parseSymptomItem(item: string): { name: string; intensity: string | null } {
+  const match = item.trim().match(/^(.*?)\s*(?:\((\d+)\)|:\s*(\d+))$/);
+  return match ? { name: match[1].trim(), intensity: match[2] ?? match[3] } : { name: item.trim(), intensity: null };
+}
+
+// "Ibuprofen (200 mg)"
+function parseMedicationItem(item: string): { name: string; dose?: string } {
+  const match = item.trim().match(/^(.*?)\s*\(([^)]*)\)$/);
+  return match && match[2].trim() ? { name: match[1].trim(), dose: match[2].trim() } : { name: item.trim() };
+}
+
+interface CsvDay {
+  flow?: string;
+  mood?: string;
+  mucus?: string;
+  sex?: { protected?: boolean };
+  // Lower-cased symptom name -> intensity
+  symptoms: Map<string, number | null>;
+  notes: string[];
+}
+
+/**
+ * Turn a CSV file into CycleSense import data using the user's column
+ * mapping. Values without a counterpart (e.g. "gushing" in a flow column)
+ * are listed in the mapping summary as not imported; dates that don't
+ * match the chosen format and intensities outside 1-5 are errors, and
+ * nothing is imported until they are fixed.
+ */
+export function convertCsv(text: string, mapping: CsvImportMapping): ConvertedImport {
+  const { headers, rows } = readTable(text);
+  for (const header of Object.keys(mapping.columns)) {
+    if (!headers.includes(header)) throw new CsvImportError(`The file has no column "${header}"`);
+  }
+  const mapped = headers
+    .map((header, index) => ({ header, index, column: mapping.columns[header] }))
+    .filter(({ column }) => column);
+  const dateColumns = mapped.filter(({ column }) => column.field === 'date');
+  if (dateColumns.length !== 1) throw new CsvImportError('Choose the one column that holds the date');
+  const dateColumn = dateColumns[0];
+  const symptomsColumns = mapped.filter(({ column }) => column.field === 'symptoms');
+
+  const days = new Map<string, CsvDay>();
+  // Keyed by lower-cased name, as the merge matches them
+  const symptomNames = new Map<string, string>();
+  const medications = new Map<string, { name: string; dose?: string; dates: Set<string> }>();
+  const usage = new Map<string, ImportTagMapping>();
+  const counted = new Set<string>();
+  const errors: ImportRowError[] = [];
+  let invalidRows = 0;
+
+  const note = (header: string, value: string, mappedTo: string | null, day: string) => {
+    const tag = value.trim();
+    const key = `${header}:${tag.toLowerCase()}`;
+    if (!usage.has(key)) usage.set(key, { category: header, tag, mappedTo, days: 0 });
+    if (!counted.has(`${key}:${day}`)) {
+      counted.add(`${key}:${day}`);
+      usage.get(key)!.days++;
+    }
+  };
+
+  rows.forEach((cells, index) => {
+    // The header is row 1
+    const row = index + 2;
+    if (isBlank(cells)) return;
+    const rowErrors: ImportRowError[] = [];
+
+    // Lists written without quotes (as older CycleSense exports did with
+    // symptoms) spill over into the next columns; put them back together
+    if (cells.length > headers.length && symptomsColumns.length === 1) {
+      const start = symptomsColumns[0].index;
+      const extra = cells.length - headers.length;
+      cells = [...cells.slice(0, start), cells.slice(start, start + extra + 1).join(','), ...cells.slice(start + extra + 1)];
+    }
+    if (cells.length > headers.length && cells.slice(headers.length).some(cell => cell.trim() !== '')) {
+      rowErrors.push({ row, field: '', message: `The row has ${cells.length} cells but there are ${headers.length} columns` });
+    }
+
+    const dateValue = (cells[dateColumn.index] ?? '').trim();
+    const day = dateValue ? parseDate(dateValue, mapping.dateFormat) : null;
+    if (!day) {
+      rowErrors.push({
+        row,
+        field: dateColumn.header,
+        message: dateValue ? `"${dateValue}" is not a date like ${mapping.dateFormat}` : 'No date'
+      });
+    }
+    if (rowErrors.length > 0 || !day) {
+      invalidRows++;
+      errors.push(...rowErrors);
+      return;
+    }
+
+    if (!days.has(day)) days.set(day, { symptoms: new Map(), notes: [] });
+    const entry = days.get(day)!;
+    const addSymptom = (name: string, intensity: string | null, header: string) => {
+      const level = intensity === null ? null : Number(intensity);
+      if (level !== null && (!Number.isInteger(level) || level < 1 || level > 5)) {
+        rowErrors.push({ row, field: header, message: `Intensity ${intensity} of ${name} is not between 1 and 5` });
+        return;
+      }
+      const key = name.toLowerCase();
+      if (!symptomNames.has(key)) symptomNames.set(key, name);
+      const current = entry.symptoms.get(key);
+      entry.symptoms.set(key, current === undefined || (level ?? 0) > (current ?? 0) ? level : current);
+    };
+
+    for (const { header, index: column, column: { field, symptom } } of mapped) {
+      const value = (cells[column] ?? '').trim();
+      if (field === 'date' || EMPTY_VALUES.has(normalizeValue(value))) continue;
+
+      if (field === 'flow') {
+        const intensity = FLOW_VALUES[normalizeValue(value)];
+        note(header, value, intensity ? `Flow: ${intensity}` : null, day);
+        if (intensity && (!entry.flow || FLOW_ORDER.indexOf(intensity) > FLOW_ORDER.indexOf(entry.flow))) entry.flow = intensity;
+      } else if (field === 'mood') {
+        const mood = MOOD_VALUES[normalizeValue(value)];
+        note(header, value, mood ? `Mood: ${mood}` : null, day);
+        if (mood && (!entry.mood || MOOD_ORDER.indexOf(mood) < MOOD_ORDER.indexOf(entry.mood))) entry.mood = mood;
+      } else if (field === 'cervicalMucus') {
+        const type = MUCUS_VALUES[normalizeValue(value)];
+        note(header, value, type ? `Cervical mucus: ${type}` : null, day);
+        if (type) entry.mucus = type;
+      } else if (field === 'intimacy') {
+        const sex = INTIMACY_VALUES[normalizeValue(value)];
+        const label = sex?.protected === undefined ? '' : sex.protected ? ': protected' : ': unprotected';
+        note(header, value, sex ? `Intimacy${label}` : null, day);
+        if (sex) {
+          // One record per day: unprotected if any entry was
+          entry.sex = entry.sex?.protected === false || sex.protected === false
+            ? { protected: false }
+            : { protected: sex.protected ?? entry.sex?.protected };
+        }
+      } else if (field === 'symptoms') {
+        for (const item of value.split(/[,;]/).filter(item => item.trim())) {
+          const { name, intensity } = parseSymptomItem(item);
+          note(header, name, `Symptom: ${name}`, day);
+          addSymptom(name, intensity, header);
+        }
+      } else if (field === 'symptom') {
+        const name = symptom ?? header;
+        const present = PRESENT_VALUES.has(normalizeValue(value));
+        if (!present && !/^\d+$/.test(value)) {
+          note(header, value, null, day);
+          continue;
+        }
+        note(header, value, present ? `Symptom: ${name}` : `Symptom: ${name}, intensity ${value}`, day);
+        addSymptom(name, present ? null : value, header);
+      } else if (field === 'notes') {
+        entry.notes.push(value);
+      } else if (field === 'medications') {
+        // Lists use semicolons when doses may hold commas, as CycleSense exports do;
+        // otherwise a comma inside a dose's parentheses doesn't end the item
+        for (const item of value.split(value.includes(';') ? ';' : /,(?![^()]*\))/).filter(item => item.trim())) {
+          const { name, dose } = parseMedicationItem(item);
+          const key = name.toLowerCase();
+          if (!medications.has(key)) medications.set(key, { name, dose, dates: new Set() });
+          medications.get(key)!.dates.add(day);
+          note(header, name, `Medication: ${name}`, day);
+        }
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      invalidRows++;
+      errors.push(...rowErrors);
+    }
+  });
+
+  if (invalidRows > 0) throw new ImportValidationError({ rows: errors.slice(0, MAX_ERRORS_PER_COLLECTION) }, invalidRows);
+
+  // Symptoms are referenced by name; ones the user doesn't have yet become custom symptoms
+  const symptomIds = new Map(Array.from(symptomNames.keys()).map((key, index) => [key, index + 1]));
+  const flowRecords: any[] = [];
+  const moodRecords: any[] = [];
+  const symptomRecords: any[] = [];
+  const cervicalMucusRecords: any[] = [];
+  const sexRecords: any[] = [];
+  const dailyNotes: any[] = [];
+
+  for (const day of Array.from(days.keys()).sort()) {
+    const { flow, mood, mucus, sex, symptoms, notes } = days.get(day)!;
+    if (flow) flowRecords.push({ date: day, intensity: flow });
+    if (mood) moodRecords.push({ date: day, mood });
+    if (mucus) cervicalMucusRecords.push({ date: day, type: mucus });
+    if (sex) sexRecords.push(sex.protected === undefined ? { date: day } : { date: day, protected: sex.protected });
+    if (notes.length > 0) dailyNotes.push({ date: day, notes: notes.join('\n') });
+    symptoms.forEach((intensity, key) => symptomRecords.push({ date: day, symptomId: symptomIds.get(key), intensity }));
+  }
+
+  const data: DataSet = {
+    cycles: cyclesFromFlowRecords(flowRecords),
+    flowRecords,
+    moodRecords,
+    symptoms: Array.from(symptomIds).map(([key, id]) => ({
+      id,
+      name: symptomNames.get(key)!,
+      category: SymptomCategory.PHYSICAL,
+      isDefault: false,
+      userId: null
+    })),
+    symptomRecords,
+    cervicalMucusRecords,
+    sexRecords,
+    dailyNotes,
+    medications: Array.from(medications.values()).map(({ name, dose, dates }) => ({
+      name,
+      ...(dose ? { dose } : {}),
+      logs: Array.from(dates).sort().map(date => ({ date }))
+    }))
+  };
+  const summary = Array.from(usage.values())
+    .sort((a, b) => a.category.localeCompare(b.category) || b.days - a.days);
+  return { data, mapping: summary, days: days.size };
+}
@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { writeFileAtomic } from './atomic-file';
+import { ARCHIVE_EXTENSION, createManifest, packBackupArchive, unpackBackupArchive } from './backup-archive';
+
+// Encrypted file contents (and journal lines) start with this marker
+const ENCRYPTED_PREFIX = 'CSENC1:';
+export const KEY_FILE = 'encryption.json';
+
+// Small bookkeeping files that hold no health data and are read before unlock
+const PLAINTEXT_FILES = new Set([KEY_FILE, 'data-format.json', 'backup-meta.json']);
+
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+
+interface WrappedKey {
+  id: string;
+  iv: string;
+  tag: string;
+  wrapped: string;
+}
+
+interface KeyFile {
+  version: 1;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  // The first key encrypts new writes; any others are left over from an
+  // interrupted passphrase change and are only used for reading
+  keys: WrappedKey[];
+}
+
+/**
+ * Thrown for a wrong passphrase, or for reading encrypted data while locked.
+ */
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+function deriveKey(passphrase: string, kdf: KeyFile['kdf']): Buffer {
+  return crypto.scryptSync(passphrase, Buffer.from(kdf.salt, 'base64'), 32, {
+    N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 128 * kdf.N * kdf.r * 2,
+  });
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: string; tag: string; data: string } {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function open(key: Buffer, iv: string, tag: string, data: string): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+}
+
+// Decrypt text produced by DataEncryption.encode() with the key it names; plaintext is passed through
+function decodeWith(content: string, keyFor: (keyId: string) => Buffer): string {
+  if (!content.startsWith(ENCRYPTED_PREFIX)) return content;
+  const [keyId, iv, tag, data] = content.slice(ENCRYPTED_PREFIX.length).trim().split(':');
+  try {
+    return open(keyFor(keyId), iv, tag, data).toString('utf-8');
+  } catch (error) {
+    if (error instanceof EncryptionError) throw error;
+    throw new EncryptionError('Encrypted data could not be decrypted (damaged file?)');
+  }
+}
+
+/**
+ * Optional passphrase-based encryption of everything stored in the data directory.
+ *
+ * Files are encrypted with a random data key (AES-256-GCM). The data key is
+ * stored in encryption.json, wrapped with a key derived from the passphrase,
+ * so the passphrase itself is never stored. Plaintext files are still read,
+ * so data written before encryption was enabled keeps working until rewritten.
+ */
+export class DataEncryption {
+  private dataPath: string;
+  private keyPath: string;
+  // Backups copied elsewhere are encrypted, and re-encrypted, like the ones in the data directory
+  private secondaryPath: string | null;
+  private keys = new Map<string, Buffer>();
+  private activeKeyId: string | null = null;
+
+  constructor(
+    dataPath: string = path.resolve(process.cwd(), config.dataPath),
+    secondaryPath: string | null = config.backupSecondaryPath ? path.resolve(process.cwd(), config.backupSecondaryPath) : null
+  ) {
+    this.dataPath = dataPath;
+    this.keyPath = path.join(dataPath, KEY_FILE);
+    this.secondaryPath = secondaryPath;
+  }
+
+  isEnabled(): boolean {
+    return fs.existsSync(this.keyPath);
+  }
+
+  isUnlocked(): boolean {
+    return this.activeKeyId !== null;
+  }
+
+  /**
+   * Unlock the data with its passphrase. Finishes a passphrase change that
+   * was interrupted, if any.
+   */
+  unlock(passphrase: string) {
+    const keyFile = this.readKeyFile();
+    this.keys = this.unwrapKeys(keyFile, passphrase);
+    this.activeKeyId = keyFile.keys[0].id;
+
+    if (keyFile.keys.length > 1) {
+      console.log('[Encryption] Finishing an interrupted passphrase change');
+      this.reencryptAll();
+      this.writeKeyFile({ ...keyFile, keys: [keyFile.keys[0]] });
+      this.keys = new Map([[this.activeKeyId, this.keys.get(this.activeKeyId)!]]);
+    }
+    console.log('[Encryption] Data unlocked');
+  }
+
+  /**
+   * Turn on encryption and encrypt every existing data file and backup.
+   */
+  enable(passphrase: string) {
+    if (this.isEnabled()) {
+      throw new EncryptionError('Encryption is already enabled');
+    }
+    const dataKey = crypto.randomBytes(32);
+    const keyFile = this.newKeyFile(passphrase, [dataKey]);
+    this.keys = new Map([[keyFile.keys[0].id, dataKey]]);
+    this.activeKeyId = keyFile.keys[0].id;
+
+    this.writeKeyFile(keyFile);
+    const count = this.reencryptAll();
+    console.log(`[Encryption] Enabled; encrypted ${count} files`);
+  }
+
+  /**
+   * Replace the passphrase and re-encrypt everything with a new data key.
+   * The old key stays in encryption.json (wrapped with the new passphrase)
+   * until every file has been rewritten, so a crash part-way loses nothing.
+   */
+  changePassphrase(currentPassphrase: string, newPassphrase: string) {
+    const keyFile = this.readKeyFile();
+    const oldKeys = this.unwrapKeys(keyFile, currentPassphrase);
+
+    const dataKey = crypto.randomBytes(32);
+    const rotating = this.newKeyFile(newPassphrase, [dataKey, ...oldKeys.values()], [...oldKeys.keys()]);
+    this.writeKeyFile(rotating);
+    this.keys = new Map([[rotating.keys[0].id, dataKey], ...oldKeys]);
+    this.activeKeyId = rotating.keys[0].id;
+
+    const count = this.reencryptAll();
+    this.writeKeyFile({ ...rotating, keys: [rotating.keys[0]] });
+    this.keys = new Map([[this.activeKeyId, dataKey]]);
+    console.log(`[Encryption] Passphrase changed; re-encrypted ${count} files`);
+  }
+
+  /**
+   * Encrypt a piece of text if encryption is enabled; returns it unchanged otherwise.
+   * The result never contains a newline, so it can be used for journal lines.
+   */
+  encode(text: string): string {
+    if (!this.isEnabled()) return text;
+    const key = this.requireKey(this.activeKeyId);
+    const { iv, tag, data } = seal(key, Buffer.from(text, 'utf-8'));
+    return `${ENCRYPTED_PREFIX}${this.activeKeyId}:${iv}:${tag}:${data}`;
+  }
+
+  /**
+   * Decrypt text produced by encode(). Plaintext is passed through.
+   */
+  decode(content: string): string {
+    return decodeWith(content, keyId => this.requireKey(keyId));
+  }
+
+  /**
+   * Decrypt the files of a backup archive with the key file the archive
+   * holds and the passphrase it was wrapped with. Works whatever key this
+   * data directory has, or without one, e.g. after the data directory was lost.
+   */
+  decodeArchiveFiles(files: Record<string, string>, passphrase: string): Record<string, string> {
+    if (files[KEY_FILE] === undefined) {
+      throw new EncryptionError('The backup holds no encryption key');
+    }
+    const keys = this.unwrapKeys(JSON.parse(files[KEY_FILE]), passphrase);
+    const keyFor = (keyId: string) => {
+      const key = keys.get(keyId);
+      if (!key) throw new EncryptionError(`Data was encrypted with an unknown key (${keyId})`);
+      return key;
+    };
+    return Object.fromEntries(Object.entries(files).map(([file, contents]) => [file, decodeWith(contents, keyFor)]));
+  }
+
+  readFile(filePath: string): string {
+    return this.decode(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  writeFile(filePath: string, text: string) {
+    writeFileAtomic(filePath, this.encode(text));
+  }
+
+  private requireKey(keyId: string | null): Buffer {
+    const key = keyId ? this.keys.get(keyId) : undefined;
+    if (key) return key;
+    throw new EncryptionError(
+      this.isUnlocked() ? `Data was encrypted with an unknown key (${keyId})` : 'Data is locked'
+    );
+  }
+
+  private readKeyFile(): KeyFile {
+    if (!this.isEnabled()) {
+      throw new EncryptionError('Encryption is not enabled');
+    }
+    return JSON.parse(fs.readFileSync(this.keyPath, 'utf-8'));
+  }
+
+  private writeKeyFile(keyFile: KeyFile) {
+    writeFileAtomic(this.keyPath, JSON.stringify(keyFile, null, 2));
+  }
+
+  private newKeyFile(passphrase: string, dataKeys: Buffer[], keyIds: string[] = []): KeyFile {
+    const kdf = { name: 'scrypt' as const, salt: crypto.randomBytes(16).toString('base64'), ...SCRYPT_PARAMS };
+    const wrappingKey = deriveKey(passphrase, kdf);
+    const keys = dataKeys.map((dataKey, index) => {
+      const { iv, tag, data } = seal(wrappingKey, dataKey);
+      // Existing keys keep their id: files encrypted with them name it
+      const id = index === 0 ? crypto.randomBytes(4).toString('hex') : keyIds[index - 1];
+      return { id, iv, tag, wrapped: data };
+    });
+    return { version: 1, kdf, keys };
+  }
+
+  private unwrapKeys(keyFile: KeyFile, passphrase: string): Map<string, Buffer> {
+    const wrappingKey = deriveKey(passphrase, keyFile.kdf);
+    try {
+      return new Map(keyFile.keys.map(key => [key.id, open(wrappingKey, key.iv, key.tag, key.wrapped)]));
+    } catch {
+      throw new EncryptionError('Wrong passphrase');
+    }
+  }
+
+  // Data files, journal and backups: everything but the bookkeeping files
+  private listDataFiles(dir: string = this.dataPath): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return this.listDataFiles(entryPath);
+      const isDataFile = ['.json', '.ndjson', ARCHIVE_EXTENSION].some(extension => entry.name.endsWith(extension));
+      return isDataFile && !PLAINTEXT_FILES.has(entry.name) ? [entryPath] : [];
+    });
+  }
+
+  // Backup archives copied to backupSecondaryPath, if it is there (a drive may be unplugged)
+  private listSecondaryArchives(): string[] {
+    if (!this.secondaryPath || !fs.existsSync(this.secondaryPath)) return [];
+    return fs.readdirSync(this.secondaryPath)
+      .filter(name => name.startsWith('backup-') && name.endsWith(ARCHIVE_EXTENSION))
+      .map(name => path.join(this.secondaryPath!, name));
+  }
+
+  // Rewrite every data file and backup with the active key; returns how many were rewritten
+  private reencryptAll(): number {
+    const activePrefix = `${ENCRYPTED_PREFIX}${this.activeKeyId}:`;
+    // Archives carry the key they are encrypted with, wrapped by the passphrase
+    const keyFile = this.readKeyFile();
+    const archiveKeyFile = JSON.stringify({ ...keyFile, keys: keyFile.keys.filter(key => key.id === this.activeKeyId) }, null, 2);
+    let count = 0;
+    for (const filePath of this.listDataFiles()) {
+      if (filePath.endsWith(ARCHIVE_EXTENSION)) {
+        if (this.reencryptArchive(filePath, activePrefix, archiveKeyFile)) count++;
+        continue;
+      }
+      const content = fs.readFileSync(filePath, 'utf-8');
+      let updated: string;
+      if (filePath.endsWith('.ndjson')) {
+        // The journal is encrypted line by line
+        const lines = content.split('\n').filter(line => line.trim());
+        if (lines.every(line => line.startsWith(activePrefix))) continue;
+        updated = lines.map(line => this.encode(this.decode(line))).join('\n') + '\n';
+      } else {
+        if (content.startsWith(activePrefix)) continue;
+        updated = this.encode(this.decode(content));
+      }
+      writeFileAtomic(filePath, updated);
+      count++;
+    }
+    for (const filePath of this.listSecondaryArchives()) {
+      try {
+        if (this.reencryptArchive(filePath, activePrefix, archiveKeyFile)) count++;
+      } catch (error) {
+        // Encrypted with a key retired while the drive was away; the key file inside still opens it
+        console.warn(`[Encryption] Left ${filePath} as it is: ${(error as Error).message}`);
+      }
+    }
+    return count;
+  }
+
+  // Backup archives hold the data files as stored, so the files inside are re-encrypted
+  // and the key file they hold is replaced
+  private reencryptArchive(filePath: string, activePrefix: string, keyFile: string): boolean {
+    const { manifest, files } = unpackBackupArchive(fs.readFileSync(filePath));
+    const dataFiles = Object.keys(files).filter(file => !PLAINTEXT_FILES.has(file));
+    if (manifest.encrypted && files[KEY_FILE] === keyFile && dataFiles.every(file => files[file].startsWith(activePrefix))) {
+      return false;
+    }
+    dataFiles.forEach(file => {
+      files[file] = this.encode(this.decode(files[file]));
+    });
+    files[KEY_FILE] = keyFile;
+    const updated = createManifest(files, manifest.formatVersion, manifest.createdAt, true);
+    writeFileAtomic(filePath, packBackupArchive(updated, files));
+    return true;
+  }
+}
+
+export const dataEncryption = new DataEncryption();
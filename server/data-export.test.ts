@@ -0,0 +1,113 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { default: express } = await import('express');
+const { registerRoutes } = await import('./routes');
+const { migrateDataSet } = await import('./data-migrations');
+const { validateImportData } = await import('./import-validation');
+const { createManifest, packBackupArchive } = await import('./backup-archive');
+const { DATA_FORMAT_VERSION } = await import('@shared/schema');
+
+const app = express();
+app.use(express.json({ limit: '10mb' }));
+const server = (await registerRoutes(app)).listen(0);
+test.after(() => server.close());
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+// Requests made as one signed-in user
+function session() {
+  let cookie = '';
+  return async (method: string, path: string, body?: unknown) => {
+    // Archives go up as they are
+    const isArchive = Buffer.isBuffer(body);
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: { 'Content-Type': isArchive ? 'application/gzip' : 'application/json', Cookie: cookie },
+      body: body === undefined ? undefined : isArchive ? body : JSON.stringify(body)
+    });
+    cookie = res.headers.get('set-cookie')?.split(';')[0] ?? cookie;
+    return { status: res.status, body: res.status === 204 ? null : await res.json() };
+  };
+}
+
+const alice = session();
+const aliceId: number = (await alice('POST', '/api/register', { username: 'alice', password: 'password123' })).body.id;
+const custom = (await alice('POST', '/api/symptoms', { name: 'Jaw Pain', category: 'physical', isDefault: false })).body;
+// As the settings page saves them
+await alice('PATCH', `/api/user-settings/${aliceId}`, { hiddenSymptoms: '[3,5]', hiddenCustomSymptoms: `[${custom.id}]` });
+
+const exportOf = async (as: typeof alice, userId: number) =>
+  JSON.parse(JSON.stringify((await as('GET', `/api/export/${userId}/json`)).body));
+
+test('an exported file passes import validation with its hidden symptoms intact', async () => {
+  const exported = await exportOf(alice, aliceId);
+  migrateDataSet(exported.data, exported.formatVersion);
+  const [settings] = validateImportData(exported.data).userSettings;
+
+  assert.deepEqual(settings.hiddenSymptoms, [3, 5]);
+  assert.deepEqual(settings.hiddenCustomSymptoms, [custom.id]);
+  assert.equal((await alice('POST', '/api/import/preview', { importData: exported })).status, 200);
+});
+
+test('importing an export into an empty account gives back the same records', async () => {
+  const cycle = (await alice('POST', '/api/cycles', { startDate: '2024-03-01', endDate: '2024-03-28', notes: 'long one' })).body;
+  await alice('POST', '/api/flow-records', { cycleId: cycle.id, date: '2024-03-01', intensity: 'heavy' });
+  await alice('POST', '/api/mood-records', { date: '2024-03-02', mood: 'okay' });
+  await alice('POST', '/api/symptom-records', { symptomId: custom.id, date: '2024-03-02', intensity: 3 });
+  await alice('POST', '/api/symptom-records', { symptomId: 3, date: '2024-03-03', intensity: null });
+  await alice('POST', '/api/daily-notes', { date: '2024-03-02', notes: 'tired' });
+  await alice('POST', '/api/medications', { name: 'Ibuprofen', dose: '400mg' });
+  const exported = await exportOf(alice, aliceId);
+
+  assert.equal((await alice('POST', '/api/register', { username: 'bob', password: 'password123' })).status, 201);
+  const bob = session();
+  const bobId: number = (await bob('POST', '/api/login', { username: 'bob', password: 'password123' })).body.id;
+  // A symptom bob made before, so his ids differ from alice's
+  await bob('POST', '/api/symptoms', { name: 'Back Pain', category: 'physical', isDefault: false });
+  assert.equal((await bob('POST', '/api/import', { importData: exported })).status, 200);
+  const reimported = await exportOf(bob, bobId);
+
+  assert.deepEqual(comparable(reimported.data), comparable(exported.data));
+  const jawPain = reimported.data.symptoms.find((symptom: { name: string }) => symptom.name === 'Jaw Pain');
+  assert.notEqual(jawPain.id, custom.id);
+  assert.deepEqual(reimported.data.userSettings.hiddenCustomSymptoms, [jawPain.id]);
+});
+
+// An export without ids, with references spelled out as what they point at
+function comparable(data: any) {
+  const cycleDays = new Map(data.cycles.map((cycle: any) => [cycle.id, cycle.startDate]));
+  const symptomNames = new Map(data.symptoms.map((symptom: any) => [symptom.id, symptom.name]));
+  const withoutIds = ({ id: _id, userId: _userId, ...record }: any) => record;
+  return {
+    ...Object.fromEntries(Object.entries(data).map(([collection, records]) =>
+      [collection, Array.isArray(records) ? records.map(withoutIds) : records])),
+    flowRecords: data.flowRecords.map((record: any) => ({ ...withoutIds(record), cycleId: cycleDays.get(record.cycleId) })),
+    symptomRecords: data.symptomRecords.map((record: any) => ({ ...withoutIds(record), symptomId: symptomNames.get(record.symptomId) ?? record.symptomId })),
+    userSettings: {
+      ...withoutIds(data.userSettings),
+      hiddenCustomSymptoms: data.userSettings.hiddenCustomSymptoms.map((id: number) => symptomNames.get(id))
+    }
+  };
+}
+
+test('a backup archive that no longer matches its manifest is refused', async () => {
+  const files = {
+    'users.json': JSON.stringify([{ id: 1, username: 'alice', password: 'x', email: '' }]),
+    'cycles.json': JSON.stringify([
+      { id: 1, userId: 1, startDate: '2023-01-01', endDate: null, notes: null },
+      { id: 2, userId: 1, startDate: '2023-01-29', endDate: null, notes: null }
+    ])
+  };
+  const manifest = createManifest(files, DATA_FORMAT_VERSION, new Date().toISOString(), false);
+  // Cut short after the manifest was made
+  const truncated = { ...files, 'cycles.json': JSON.stringify([JSON.parse(files['cycles.json'])[0]]) };
+
+  const res = await alice('POST', '/api/import-backup', packBackupArchive(manifest, truncated));
+  assert.equal(res.status, 400);
+  assert.deepEqual(res.body.problems, ['cycles.json has changed since the backup was made']);
+  assert.equal((await alice('GET', '/api/cycles')).body.some((cycle: { startDate: string }) => cycle.startDate === '2023-01-01'), false);
+  assert.equal((await alice('POST', '/api/import-backup', packBackupArchive(manifest, files))).status, 200);
+});
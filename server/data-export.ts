@@ -0,0 +1,103 @@
+import type { z } from 'zod';
+import {
+  DATA_FORMAT_VERSION,
+  cycleSchema,
+  flowRecordSchema,
+  moodRecordSchema,
+  symptomSchema,
+  symptomRecordSchema,
+  dailyNoteSchema,
+  cervicalMucusSchema,
+  sexRecordSchema,
+  medicationSchema,
+  userSettingsSchema,
+  withHiddenSymptomIds
+} from '@shared/schema';
+import { storage } from './storage';
+import type { DataSet } from './data-migrations';
+
+export const EXPORT_TYPE = 'cyclesense-export';
+
+// Described in the export itself, so the file makes sense without the app
+const COLLECTIONS: Record<string, { description: string; schema: z.AnyZodObject }> = {
+  cycles: { description: 'Cycles, from the first day of a period to the day before the next', schema: cycleSchema },
+  flowRecords: { description: 'Flow per day (spotting, light, medium, heavy); cycleId refers to cycles', schema: flowRecordSchema },
+  moodRecords: { description: 'Mood per day (great, good, okay, bad, awful)', schema: moodRecordSchema },
+  symptoms: { description: 'Symptoms referred to by symptomRecords: the built-in ones and custom ones', schema: symptomSchema },
+  symptomRecords: { description: 'Symptoms logged per day, with an intensity of 1-5 if given; symptomId refers to symptoms', schema: symptomRecordSchema },
+  dailyNotes: { description: 'Free-text notes per day', schema: dailyNoteSchema },
+  cervicalMucusRecords: { description: 'Cervical mucus per day (dry, sticky, creamy, watery, eggwhite)', schema: cervicalMucusSchema },
+  sexRecords: { description: 'Intimacy per day, and whether protection was used if recorded', schema: sexRecordSchema },
+  medications: { description: 'Medications, each with a log of the days a dose was taken', schema: medicationSchema },
+  userSettings: { description: 'Settings of the account', schema: userSettingsSchema }
+};
+
+export interface CollectionDescription {
+  description: string;
+  fields: string[];
+  count: number;
+}
+
+export interface UserExport {
+  type: typeof EXPORT_TYPE;
+  formatVersion: number;
+  exportDate: string;
+  userId: number;
+  collections: Record<string, CollectionDescription>;
+  data: DataSet;
+}
+
+const byId = <T extends { id: number }>(records: T[]) => [...records].sort((a, b) => a.id - b.id);
+
+/**
+ * Everything stored for a user, as one document. Importing it into an empty
+ * account (POST /api/import, which replaces all data) gives back the same
+ * records; only ids differ, and references between records follow them
+ * (including the custom symptoms hidden in the settings).
+ */
+export async function exportUserData(userId: number): Promise<UserExport> {
+  const [cycles, flowRecords, moodRecords, symptoms, symptomRecords, dailyNotes, cervicalMucusRecords, sexRecords, medications, userSettings] = await Promise.all([
+    storage.getCycles(userId),
+    storage.getFlowRecords(userId),
+    storage.getMoodRecords(userId),
+    storage.getUserSymptoms(userId),
+    storage.getSymptomRecords(userId),
+    storage.getDailyNotes(userId),
+    storage.getCervicalMucusRecords(userId),
+    storage.getSexRecords(userId),
+    storage.getMedications(userId),
+    storage.getUserSettings(userId)
+  ]);
+
+  const data: DataSet = {
+    cycles: byId(cycles),
+    flowRecords: byId(flowRecords),
+    moodRecords: byId(moodRecords),
+    symptoms: byId(symptoms),
+    symptomRecords: byId(symptomRecords),
+    dailyNotes: byId(dailyNotes),
+    cervicalMucusRecords: byId(cervicalMucusRecords),
+    sexRecords: byId(sexRecords),
+    medications: byId(medications),
+    userSettings: userSettings ? withHiddenSymptomIds(userSettings) : null
+  };
+
+  const collections: Record<string, CollectionDescription> = {};
+  for (const [collection, { description, schema }] of Object.entries(COLLECTIONS)) {
+    const records = data[collection];
+    collections[collection] = {
+      description,
+      fields: Object.keys(schema.shape),
+      count: Array.isArray(records) ? records.length : records ? 1 : 0
+    };
+  }
+
+  return {
+    type: EXPORT_TYPE,
+    formatVersion: DATA_FORMAT_VERSION,
+    exportDate: new Date().toISOString(),
+    userId,
+    collections,
+    data
+  };
+}
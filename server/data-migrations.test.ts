@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useTempDataDir } from './test-data-dir';
+
+const dataPath = useTempDataDir();
+const { migrateDataSet, migrateDataDirectory, readDataFormatVersion } = await import('./data-migrations');
+const { DATA_FORMAT_VERSION } = await import('@shared/schema');
+const { isPasswordHash } = await import('./passwords');
+
+// Settings as a v1 server stored them after symptoms were hidden on the settings page
+const preV2Settings = () => ({
+  userId: 1,
+  emailNotifications: true,
+  reminderEnabled: true,
+  fertileWindowAlerts: false,
+  weeklySummary: true,
+  language: 'English',
+  dataStorage: 'local',
+  hiddenSymptoms: '[3,5]',
+  medications: [],
+  defaultCycleLength: 28,
+  defaultPeriodLength: 5,
+  showPmddSymptoms: true,
+  showIntimateActivity: true,
+  id: 1,
+  hiddenCustomSymptoms: '[37]'
+});
+
+test('hidden symptom lists saved as JSON strings become the lists they hold', () => {
+  const data = { userSettings: [preV2Settings()] };
+  migrateDataSet(data, 1);
+
+  assert.deepEqual(data.userSettings[0].hiddenSymptoms, [3, 5]);
+  assert.deepEqual(data.userSettings[0].hiddenCustomSymptoms, [37]);
+  assert.equal(data.userSettings[0].defaultCycleLength, 28);
+});
+
+test('settings without hidden symptoms or other defaults get them filled in', () => {
+  const data = { userSettings: { id: 1, userId: 1, hiddenSymptoms: '' } as Record<string, unknown> };
+  const report = migrateDataSet(data, 1);
+
+  assert.deepEqual(data.userSettings.hiddenSymptoms, []);
+  assert.deepEqual(data.userSettings.hiddenCustomSymptoms, []);
+  assert.equal(data.userSettings.showPmddSymptoms, true);
+  assert.ok(report.changes.some(change => change.startsWith('v2: userSettings:')));
+});
+
+test('settings that are already migrated are left alone', () => {
+  const data = { userSettings: [preV2Settings()] };
+  migrateDataSet(data, 1);
+  const migrated = JSON.stringify(data);
+  migrateDataSet(data, 1);
+
+  assert.equal(JSON.stringify(data), migrated);
+});
+
+test('a pre-v2 data directory is upgraded, with the original files kept', () => {
+  fs.mkdirSync(dataPath, { recursive: true });
+  fs.writeFileSync(path.join(dataPath, 'user-settings.json'), JSON.stringify([preV2Settings()]));
+  fs.writeFileSync(path.join(dataPath, 'users.json'), JSON.stringify([{ id: 1, username: 'alice', password: 'secret', email: '' }]));
+
+  const report = migrateDataDirectory(dataPath);
+
+  assert.equal(report?.fromVersion, 1);
+  assert.equal(readDataFormatVersion(dataPath), DATA_FORMAT_VERSION);
+  const [settings] = JSON.parse(fs.readFileSync(path.join(dataPath, 'user-settings.json'), 'utf-8'));
+  assert.deepEqual(settings.hiddenSymptoms, [3, 5]);
+  assert.deepEqual(settings.hiddenCustomSymptoms, [37]);
+  const [user] = JSON.parse(fs.readFileSync(path.join(dataPath, 'users.json'), 'utf-8'));
+  assert.ok(isPasswordHash(user.password));
+
+  const [snapshot] = fs.readdirSync(path.join(dataPath, 'backups'));
+  assert.match(snapshot, /^pre-migration-v1-/);
+  const [original] = JSON.parse(fs.readFileSync(path.join(dataPath, 'backups', snapshot, 'user-settings.json'), 'utf-8'));
+  assert.equal(original.hiddenSymptoms, '[3,5]');
+
+  assert.equal(migrateDataDirectory(dataPath), null);
+});
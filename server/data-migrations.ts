@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import { format, parseISO } from 'date-fns';
+import { DATA_FORMAT_VERSION, parseHiddenSymptomIds } from '@shared/schema';
+import { writeFileAtomic } from './atomic-file';
+import { dataEncryption } from './data-encryption';
+import { hashPassword, isPasswordHash } from './passwords';
+
+/**
+ * A full set of records, keyed the way exports and /api/import name them.
+ * Collections may be missing; userSettings may be a single object.
+ */
+export type DataSet = Record<string, any>;
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  // Upgrade `data` in place from version - 1; returns what was changed
+  migrate: (data: DataSet) => string[];
+}
+
+/**
+ * Thrown when data was written by a newer version of the app than this one.
+ */
+export class DataFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataFormatError';
+  }
+}
+
+// Where each collection lives in a data directory
+export const COLLECTION_FILES: Record<string, string> = {
+  users: 'users.json',
+  cycles: 'cycles.json',
+  flowRecords: 'flow-records.json',
+  moodRecords: 'mood-records.json',
+  symptoms: 'symptoms.json',
+  symptomRecords: 'symptom-records.json',
+  dailyNotes: 'daily-notes.json',
+  userSettings: 'user-settings.json',
+  cervicalMucusRecords: 'cervical-mucus-records.json',
+  sexRecords: 'sex-records.json',
+  medications: 'medication-records.json',
+  apiTokens: 'api-tokens.json',
+};
+
+const FORMAT_FILE = 'data-format.json';
+
+// Records of a collection, whether it is stored as an array or a single object
+function recordsOf(data: DataSet, key: string): any[] {
+  const value = data[key];
+  if (Array.isArray(value)) return value.filter(item => item && typeof item === 'object');
+  return value && typeof value === 'object' ? [value] : [];
+}
+
+// Cut a full ISO timestamp down to the yyyy-MM-dd the app stores
+function toDateOnly(value: unknown): unknown {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}T/.test(value)) return value;
+  return format(parseISO(value), 'yyyy-MM-dd');
+}
+
+/**
+ * Data format migrations, applied in order. Data without a version stamp is
+ * version 1. Append new steps to the end and bump DATA_FORMAT_VERSION; a step
+ * must leave already-migrated data alone, since partial imports can mix versions.
+ */
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Normalize legacy field names, dates and settings defaults',
+    migrate(data) {
+      const changes: string[] = [];
+
+      // Some older backups used snake_case for sex records
+      if (Array.isArray(data.sex_records)) {
+        data.sexRecords = [...recordsOf(data, 'sexRecords'), ...data.sex_records];
+        changes.push(`sexRecords: merged ${data.sex_records.length} records from sex_records`);
+        delete data.sex_records;
+      }
+
+      let renamedMucus = 0;
+      for (const record of recordsOf(data, 'cervicalMucusRecords')) {
+        const type = record.type ?? record.mucusType;
+        const normalized = typeof type === 'string' ? type.toLowerCase() : type;
+        if (normalized !== record.type || 'mucusType' in record) {
+          record.type = normalized;
+          delete record.mucusType;
+          renamedMucus++;
+        }
+      }
+      if (renamedMucus > 0) {
+        changes.push(`cervicalMucusRecords: normalized type on ${renamedMucus} records`);
+      }
+
+      // `protected` was never written by the app; keep it only when it means something
+      let clearedProtected = 0;
+      for (const record of recordsOf(data, 'sexRecords')) {
+        if ('protected' in record && typeof record.protected !== 'boolean') {
+          delete record.protected;
+          clearedProtected++;
+        }
+      }
+      if (clearedProtected > 0) {
+        changes.push(`sexRecords: removed invalid protected flag from ${clearedProtected} records`);
+      }
+
+      const datedCollections: Record<string, string[]> = {
+        cycles: ['startDate', 'endDate'],
+        flowRecords: ['date'],
+        moodRecords: ['date'],
+        symptomRecords: ['date'],
+        dailyNotes: ['date'],
+        cervicalMucusRecords: ['date'],
+        sexRecords: ['date'],
+      };
+      for (const [key, fields] of Object.entries(datedCollections)) {
+        let trimmed = 0;
+        for (const record of recordsOf(data, key)) {
+          for (const field of fields) {
+            const date = toDateOnly(record[field]);
+            if (date !== record[field]) {
+              record[field] = date;
+              trimmed++;
+            }
+          }
+        }
+        if (trimmed > 0) changes.push(`${key}: trimmed ${trimmed} timestamps to dates`);
+      }
+
+      let trimmedLogs = 0;
+      for (const medication of recordsOf(data, 'medications')) {
+        for (const log of Array.isArray(medication.logs) ? medication.logs : []) {
+          const date = toDateOnly(log.date);
+          if (date !== log.date) {
+            log.date = date;
+            trimmedLogs++;
+          }
+        }
+      }
+      if (trimmedLogs > 0) changes.push(`medications: trimmed ${trimmedLogs} log timestamps to dates`);
+
+      let filledSettings = 0;
+      for (const settings of recordsOf(data, 'userSettings')) {
+        const before = JSON.stringify(settings);
+        // Saved by the settings page as JSON strings ("[3,5]"); kept as the lists they hold
+        settings.hiddenSymptoms = parseHiddenSymptomIds(settings.hiddenSymptoms);
+        settings.hiddenCustomSymptoms = parseHiddenSymptomIds(settings.hiddenCustomSymptoms);
+        if (!Array.isArray(settings.medications)) settings.medications = [];
+        if (typeof settings.showPmddSymptoms !== 'boolean') settings.showPmddSymptoms = true;
+        if (typeof settings.showIntimateActivity !== 'boolean') settings.showIntimateActivity = true;
+        if (JSON.stringify(settings) !== before) filledSettings++;
+      }
+      if (filledSettings > 0) {
+        changes.push(`userSettings: filled in missing defaults and read hidden symptom lists for ${filledSettings} users`);
+      }
+
+      return changes;
+    },
+  },
+  {
+    version: 3,
+    description: 'Hash plaintext user passwords',
+    migrate(data) {
+      let hashed = 0;
+      for (const user of recordsOf(data, 'users')) {
+        if (typeof user.password === 'string' && !isPasswordHash(user.password)) {
+          user.password = hashPassword(user.password);
+          hashed++;
+        }
+      }
+      return hashed > 0 ? [`users: hashed ${hashed} plaintext passwords`] : [];
+    },
+  },
+];
+
+/**
+ * Upgrade a data set in place, one step at a time, from `fromVersion` to the
+ * current DATA_FORMAT_VERSION.
+ */
+export function migrateDataSet(data: DataSet, fromVersion: number = 1): MigrationReport {
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new DataFormatError(`Unknown data format version: ${fromVersion}`);
+  }
+  if (fromVersion > DATA_FORMAT_VERSION) {
+    throw new DataFormatError(
+      `Data format version ${fromVersion} is newer than this app supports (${DATA_FORMAT_VERSION}). Update the app first.`
+    );
+  }
+
+  const changes: string[] = [];
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+    const stepChanges = migration.migrate(data);
+    changes.push(...stepChanges.map(change => `v${migration.version}: ${change}`));
+  }
+  return { fromVersion, toVersion: DATA_FORMAT_VERSION, changes };
+}
+
+/**
+ * Data format version of a data directory or backup; unstamped directories are version 1.
+ */
+export function readDataFormatVersion(dir: string): number {
+  const formatPath = path.join(dir, FORMAT_FILE);
+  if (!fs.existsSync(formatPath)) return 1;
+  const { formatVersion } = JSON.parse(fs.readFileSync(formatPath, 'utf-8'));
+  return typeof formatVersion === 'number' ? formatVersion : 1;
+}
+
+// Stamp the directory with the current version and append the migration to its history
+function writeDataFormat(dir: string, report: MigrationReport) {
+  const formatPath = path.join(dir, FORMAT_FILE);
+  let history: unknown[] = [];
+  if (fs.existsSync(formatPath)) {
+    try {
+      const previous = JSON.parse(fs.readFileSync(formatPath, 'utf-8'));
+      if (Array.isArray(previous.history)) history = previous.history;
+    } catch {
+      // Rewritten below
+    }
+  }
+  history.push({ ...report, migratedAt: new Date().toISOString() });
+  writeFileAtomic(formatPath, JSON.stringify({ formatVersion: report.toVersion, history }, null, 2));
+}
+
+/**
+ * Read every collection file of a data directory or backup.
+ * Missing and unparsable files are left out; loading reports the latter.
+ */
+export function readDataDirectory(dir: string): DataSet {
+  const data: DataSet = {};
+  for (const [key, filename] of Object.entries(COLLECTION_FILES)) {
+    const filePath = path.join(dir, filename);
+    if (!fs.existsSync(filePath)) continue;
+    try {
+      const records = JSON.parse(dataEncryption.readFile(filePath));
+      if (Array.isArray(records)) data[key] = records;
+    } catch {
+      // Left for the integrity check to report
+    }
+  }
+  return data;
+}
+
+/**
+ * Bring a data directory up to the current data format. The files as they
+ * were are copied to backups/pre-migration-v<N>-<timestamp> first, and only
+ * files the migration changed are rewritten. Returns null if nothing to do.
+ */
+export function migrateDataDirectory(dir: string): MigrationReport | null {
+  if (!fs.existsSync(dir)) return null;
+
+  const fromVersion = readDataFormatVersion(dir);
+  if (fromVersion === DATA_FORMAT_VERSION) return null;
+
+  const data = readDataDirectory(dir);
+  const original = Object.fromEntries(
+    Object.entries(data).map(([key, records]) => [key, JSON.stringify(records)])
+  );
+  const report = migrateDataSet(data, fromVersion);
+
+  const changedKeys = Object.keys(data).filter(key =>
+    COLLECTION_FILES[key] && JSON.stringify(data[key]) !== original[key]
+  );
+  if (changedKeys.length > 0) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const snapshotDir = path.join(dir, 'backups', `pre-migration-v${fromVersion}-${timestamp}`);
+    fs.mkdirSync(snapshotDir, { recursive: true });
+    for (const key of changedKeys) {
+      fs.copyFileSync(path.join(dir, COLLECTION_FILES[key]), path.join(snapshotDir, COLLECTION_FILES[key]));
+    }
+    for (const key of changedKeys) {
+      dataEncryption.writeFile(path.join(dir, COLLECTION_FILES[key]), JSON.stringify(data[key], null, 2));
+    }
+    console.log(`[Migration] Saved original files to ${snapshotDir}`);
+  }
+  writeDataFormat(dir, report);
+
+  console.log(`[Migration] Data format upgraded from v${fromVersion} to v${report.toVersion}`);
+  report.changes.forEach(change => console.log(`[Migration]   ${change}`));
+  return report;
+}
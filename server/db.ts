@@ -1,15 +1,152 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
-import ws from "ws";
-import * as schema from "@shared/schema";
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
 
-neonConfig.webSocketConstructor = ws;
+export type SqliteDatabase = Database.Database;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+/**
+ * Schema migrations, applied in order. PRAGMA user_version records how many
+ * have run, so append new steps to the end and never edit old ones.
+ */
+const migrations: string[] = [
+  `
+  CREATE TABLE users (
+    id INTEGER PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    password TEXT NOT NULL,
+    email TEXT NOT NULL
   );
+
+  CREATE TABLE cycles (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT,
+    notes TEXT
+  );
+  CREATE INDEX cycles_user_start ON cycles (user_id, start_date);
+
+  CREATE TABLE flow_records (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    cycle_id INTEGER,
+    date TEXT NOT NULL,
+    intensity TEXT NOT NULL
+  );
+  CREATE INDEX flow_records_user_date ON flow_records (user_id, date);
+
+  CREATE TABLE mood_records (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    mood TEXT NOT NULL
+  );
+  CREATE INDEX mood_records_user_date ON mood_records (user_id, date);
+
+  CREATE TABLE symptoms (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    is_default INTEGER,
+    user_id INTEGER
+  );
+  CREATE UNIQUE INDEX symptoms_unique_name ON symptoms (name, category, IFNULL(user_id, 0));
+
+  CREATE TABLE symptom_records (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    symptom_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    intensity INTEGER
+  );
+  CREATE INDEX symptom_records_user_date ON symptom_records (user_id, date);
+
+  CREATE TABLE daily_notes (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    notes TEXT NOT NULL
+  );
+  CREATE INDEX daily_notes_user_date ON daily_notes (user_id, date);
+
+  CREATE TABLE user_settings (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL UNIQUE,
+    settings TEXT NOT NULL
+  );
+
+  CREATE TABLE cervical_mucus_records (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    type TEXT NOT NULL
+  );
+  CREATE INDEX cervical_mucus_records_user_date ON cervical_mucus_records (user_id, date);
+
+  CREATE TABLE sex_records (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    protected INTEGER
+  );
+  CREATE INDEX sex_records_user_date ON sex_records (user_id, date);
+
+  CREATE TABLE medications (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    dose TEXT,
+    frequency TEXT
+  );
+  CREATE INDEX medications_user ON medications (user_id);
+
+  CREATE TABLE medication_logs (
+    id INTEGER PRIMARY KEY,
+    medication_id INTEGER NOT NULL REFERENCES medications (id) ON DELETE CASCADE,
+    date TEXT NOT NULL
+  );
+  CREATE INDEX medication_logs_medication_date ON medication_logs (medication_id, date);
+  `,
+  `
+  CREATE TABLE api_tokens (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT
+  );
+  CREATE INDEX api_tokens_user ON api_tokens (user_id);
+  `,
+];
+
+export function getDatabasePath(): string {
+  return path.resolve(process.cwd(), config.dataPath, 'cyclesense.db');
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+/**
+ * Open the SQLite database, creating it and bringing its schema up to date
+ * as needed. `created` tells the caller the file did not exist before.
+ */
+export function openDatabase(dbPath: string = getDatabasePath()): { db: SqliteDatabase; created: boolean } {
+  const created = !fs.existsSync(dbPath);
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+  for (let version = currentVersion; version < migrations.length; version++) {
+    db.transaction(() => {
+      db.exec(migrations[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+    console.log(`[SQLite] Applied schema migration ${version + 1}`);
+  }
+
+  return { db, created };
+}
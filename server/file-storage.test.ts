@@ -0,0 +1,61 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useTempDataDir } from './test-data-dir';
+
+// Files are only written on flush(), so until then the journal alone holds the changes
+const dataPath = useTempDataDir({ saveDelayMs: 60 * 60 * 1000 });
+const { FileStorage } = await import('./file-storage');
+
+const readFile = (filename: string) => JSON.parse(fs.readFileSync(path.join(dataPath, filename), 'utf-8'));
+
+test('changes that never reached the data files are replayed on the next start', async () => {
+  const before = new FileStorage();
+  const user = await before.createUser({ username: 'alice', password: 'x', email: '' });
+  await before.createCycle({ userId: user.id, startDate: '2024-03-01', endDate: null, notes: null });
+  assert.equal(fs.existsSync(path.join(dataPath, 'cycles.json')), false);
+
+  // The process dies here; a new one starts on the same directory
+  const after = new FileStorage();
+  assert.equal((await after.getUserByUsername('alice'))?.id, user.id);
+  assert.deepEqual((await after.getCycles(user.id)).map(cycle => cycle.startDate), ['2024-03-01']);
+  // Replayed changes are written out right away
+  assert.equal(readFile('cycles.json').length, 1);
+});
+
+test('a failed transaction undoes its own changes, not those other requests made meanwhile', async () => {
+  const storage = new FileStorage();
+  const user = await storage.createUser({ username: 'bob', password: 'x', email: '' });
+  const note = await storage.createDailyNote({ userId: user.id, date: '2024-01-01', notes: 'before' });
+
+  let resume!: () => void;
+  const paused = new Promise<void>(resolve => { resume = resolve; });
+  const failing = storage.transaction(async () => {
+    await storage.updateDailyNote(note.id, { notes: 'changed by the import' });
+    await storage.createDailyNote({ userId: user.id, date: '2024-01-02', notes: 'added by the import' });
+    await paused;
+    throw new Error('Import failed');
+  });
+  // Another request, answered while the transaction is still open
+  await storage.createDailyNote({ userId: user.id, date: '2024-01-03', notes: 'meanwhile' });
+  resume();
+  await assert.rejects(failing, /Import failed/);
+
+  const notes = async (from: InstanceType<typeof FileStorage>) =>
+    (await from.getDailyNotes(user.id)).map(saved => saved.notes).sort();
+  assert.deepEqual(await notes(storage), ['before', 'meanwhile']);
+  // The journal agrees, so a restart gives the same
+  assert.deepEqual(await notes(new FileStorage()), ['before', 'meanwhile']);
+});
+
+test('a transaction that succeeds is journaled as a whole', async () => {
+  const storage = new FileStorage();
+  const user = await storage.createUser({ username: 'carol', password: 'x', email: '' });
+  await storage.transaction(async () => {
+    await storage.createDailyNote({ userId: user.id, date: '2024-02-01', notes: 'first' });
+    await storage.createDailyNote({ userId: user.id, date: '2024-02-02', notes: 'second' });
+  });
+
+  assert.equal((await new FileStorage().getDailyNotes(user.id)).length, 2);
+});
@@ -11,12 +11,17 @@ import {
   DailyNote, InsertDailyNote,
   UserSettings, InsertUserSettings,
   CervicalMucusRecord, InsertCervicalMucusRecord,
-  SexRecord, InsertSexRecord
+  SexRecord, InsertSexRecord,
+  Medication, InsertMedication,
+  ApiToken, InsertApiToken
 } from './storage';
 import { config } from './config';
 import { format, parseISO } from 'date-fns';
-import { BackupManager } from './backup-manager';
-import { MedicationStorage } from './medication-storage.js';
+import { BackupManager, backupManager } from './backup-manager';
+import { removeStaleTempFiles } from './atomic-file';
+import { WriteJournal, JournaledMap, DataIntegrityError } from './write-journal';
+import { migrateDataDirectory } from './data-migrations';
+import { dataEncryption } from './data-encryption';
 
 // --- Types for import compatibility ---
 interface ImportSymptom extends Partial<Symptom> {
@@ -30,31 +35,39 @@ interface ImportUserSettings extends Partial<UserSettings> {
  * File-based storage implementation that stores data in JSON files
  */
 export class FileStorage implements IStorage {
-  private users: Map<number, User>;
-  private cycles: Map<number, Cycle>;
-  private flowRecords: Map<number, FlowRecord>;
-  private moodRecords: Map<number, MoodRecord>;
-  private symptoms: Map<number, Symptom>;
-  private symptomRecords: Map<number, SymptomRecord>;
-  private dailyNotes: Map<number, DailyNote>;
-  private userSettings: Map<number, UserSettings>;
-  private cervicalMucusRecords: Map<number, CervicalMucusRecord>;
-  private sexRecords: Map<number, SexRecord>;
+  private users: JournaledMap<User>;
+  private cycles: JournaledMap<Cycle>;
+  private flowRecords: JournaledMap<FlowRecord>;
+  private moodRecords: JournaledMap<MoodRecord>;
+  private symptoms: JournaledMap<Symptom>;
+  private symptomRecords: JournaledMap<SymptomRecord>;
+  private dailyNotes: JournaledMap<DailyNote>;
+  private userSettings: JournaledMap<UserSettings>;
+  private cervicalMucusRecords: JournaledMap<CervicalMucusRecord>;
+  private sexRecords: JournaledMap<SexRecord>;
+  private medications: JournaledMap<Medication>;
+  private apiTokens: JournaledMap<ApiToken>;
   
   private dataPath: string;
   private backupManager: BackupManager;
-
-  // ID counters
-  private currentUserId: number;
-  private currentCycleId: number;
-  private currentFlowRecordId: number;
-  private currentMoodRecordId: number;
-  private currentSymptomId: number;
-  private currentSymptomRecordId: number;
-  private currentDailyNoteId: number;
-  private currentUserSettingsId: number;
-  private currentCervicalMucusRecordId: number;
-  private currentSexRecordId: number;
+  private journal: WriteJournal;
+  private flushTimer: NodeJS.Timeout | null = null;
+  // While set, the data files are left as they are, so they never hold part of a transaction
+  private inTransaction = false;
+
+  // ID counters, set from the loaded data by resetIdCounters()
+  private currentUserId = 1;
+  private currentCycleId = 1;
+  private currentFlowRecordId = 1;
+  private currentMoodRecordId = 1;
+  private currentSymptomId = 1;
+  private currentSymptomRecordId = 1;
+  private currentDailyNoteId = 1;
+  private currentUserSettingsId = 1;
+  private currentCervicalMucusRecordId = 1;
+  private currentSexRecordId = 1;
+  private currentMedicationId = 1;
+  private currentApiTokenId = 1;
 
   // Default symptoms
   private defaultPhysicalSymptoms = [
@@ -79,23 +92,32 @@ export class FileStorage implements IStorage {
   constructor() {
     this.dataPath = path.resolve(process.cwd(), config.dataPath);
     
-    // Initialize backup manager
-    this.backupManager = new BackupManager();
+    // Upgrade data written by older versions before anything reads it
+    migrateDataDirectory(this.dataPath);
+    
+    this.backupManager = backupManager;
+    
+    // Every change to the maps below is recorded here before it is written out
+    this.journal = new WriteJournal(this.dataPath);
     
     // Initialize data structures
-    this.users = new Map();
-    this.cycles = new Map();
-    this.flowRecords = new Map();
-    this.moodRecords = new Map();
-    this.symptoms = new Map();
-    this.symptomRecords = new Map();
-    this.dailyNotes = new Map();
-    this.userSettings = new Map();
-    this.cervicalMucusRecords = new Map();
-    this.sexRecords = new Map();
-    
-    // Load data from files
+    this.users = new JournaledMap('users.json', this.journal);
+    this.cycles = new JournaledMap('cycles.json', this.journal);
+    this.flowRecords = new JournaledMap('flow-records.json', this.journal);
+    this.moodRecords = new JournaledMap('mood-records.json', this.journal);
+    this.symptoms = new JournaledMap('symptoms.json', this.journal);
+    this.symptomRecords = new JournaledMap('symptom-records.json', this.journal);
+    this.dailyNotes = new JournaledMap('daily-notes.json', this.journal);
+    this.userSettings = new JournaledMap('user-settings.json', this.journal);
+    this.cervicalMucusRecords = new JournaledMap('cervical-mucus-records.json', this.journal);
+    this.sexRecords = new JournaledMap('sex-records.json', this.journal);
+    this.medications = new JournaledMap('medication-records.json', this.journal);
+    this.apiTokens = new JournaledMap('api-tokens.json', this.journal);
+    
+    // Load data from files, then replay anything a crash kept from reaching them.
+    // Throws DataIntegrityError instead of starting over damaged files.
     this.loadData();
+    this.replayJournal();
     // console.log('SYMPTOMS: after loadData', Array.from(this.symptoms.values()).length);
 
     // Deduplicate symptoms after loading from file
@@ -115,7 +137,14 @@ export class FileStorage implements IStorage {
     this.deduplicateUserSettingsAndSave();
     // console.log('SYMPTOMS: FINAL count in memory', Array.from(this.symptoms.values()).length);
     
-    // Initialize ID counters
+    this.resetIdCounters();
+    
+    // Back up every backupInterval hours, with everything saved first
+    this.backupManager.startSchedule(() => this.flush());
+  }
+
+  // Continue numbering after the highest id in each collection
+  private resetIdCounters() {
     this.currentUserId = this.getMaxId(this.users) + 1;
     this.currentCycleId = this.getMaxId(this.cycles) + 1;
     this.currentFlowRecordId = this.getMaxId(this.flowRecords) + 1;
@@ -126,6 +155,8 @@ export class FileStorage implements IStorage {
     this.currentUserSettingsId = this.getMaxId(this.userSettings) + 1;
     this.currentCervicalMucusRecordId = this.getMaxId(this.cervicalMucusRecords) + 1;
     this.currentSexRecordId = this.getMaxId(this.sexRecords) + 1;
+    this.currentMedicationId = this.getMaxId(this.medications) + 1;
+    this.currentApiTokenId = this.getMaxId(this.apiTokens) + 1;
   }
 
   // Helper to get max ID from a map 
@@ -134,81 +165,185 @@ export class FileStorage implements IStorage {
     return Math.max(...Array.from(map.keys()));
   }
   
-  // Save all data to files
+  // All persisted collections, keyed by the file they are stored in
+  private collections(): Map<string, JournaledMap<any>> {
+    return new Map<string, JournaledMap<any>>([
+      ['users.json', this.users],
+      ['cycles.json', this.cycles],
+      ['flow-records.json', this.flowRecords],
+      ['mood-records.json', this.moodRecords],
+      ['symptoms.json', this.symptoms],
+      ['symptom-records.json', this.symptomRecords],
+      ['daily-notes.json', this.dailyNotes],
+      ['user-settings.json', this.userSettings],
+      ['cervical-mucus-records.json', this.cervicalMucusRecords],
+      ['sex-records.json', this.sexRecords],
+      ['medication-records.json', this.medications],
+      ['api-tokens.json', this.apiTokens],
+    ]);
+  }
+  
+  // Persist the latest changes. The journal makes them durable right away
+  // (those of a running transaction once it succeeds); the changed data
+  // files are rewritten together on the next flush.
   private saveData() {
-    this.saveMapToFile(this.users, 'users.json');
-    this.saveMapToFile(this.cycles, 'cycles.json');
-    this.saveMapToFile(this.flowRecords, 'flow-records.json');
-    this.saveMapToFile(this.moodRecords, 'mood-records.json');
-    this.saveMapToFile(this.symptoms, 'symptoms.json');
-    this.saveMapToFile(this.symptomRecords, 'symptom-records.json');
-    this.saveMapToFile(this.dailyNotes, 'daily-notes.json');
-    this.saveMapToFile(this.userSettings, 'user-settings.json');
-    this.saveMapToFile(this.cervicalMucusRecords, 'cervical-mucus-records.json');
-    this.saveMapToFile(this.sexRecords, 'sex-records.json');
-    
-    // Try to create a backup after saving data
-    this.backupManager.createBackup();
+    this.journal.commit();
+    this.scheduleFlush();
+  }
+  
+  // Coalesce all changes made within saveDelayMs into a single flush
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, config.saveDelayMs);
+    // Pending writes are flushed on shutdown, so don't keep the process alive for them
+    this.flushTimer.unref();
+  }
+  
+  /**
+   * Write every collection that changed since the last flush to disk.
+   * Called automatically after changes and on shutdown.
+   */
+  flush() {
+    // The transaction saves everything when it ends
+    if (this.inTransaction) return;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.journal.commit();
+    
+    let allSaved = true;
+    for (const [filename, map] of this.collections()) {
+      if (!map.dirty) continue;
+      if (this.saveMapToFile(map, filename)) {
+        map.dirty = false;
+      } else {
+        allSaved = false;
+      }
+    }
+    
+    if (allSaved) {
+      this.journal.checkpoint();
+    } else {
+      // Keep the journal for replay and try the failed files again later
+      this.scheduleFlush();
+    }
+  }
+  
+  /**
+   * Replace everything in memory with the data files on disk, e.g. after a
+   * backup was restored. Call flush() first so no changes are lost.
+   */
+  reload() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.loadData();
+    // Anything left in the journal is older than the files just loaded
+    this.journal.checkpoint();
+    this.resetIdCounters();
+    console.log(`[FileStorage] Reloaded data from ${this.dataPath}`);
+  }
+  
+  /**
+   * Changes made by `work` are only journaled once it succeeds, and undone
+   * if it throws. Changes other requests make meanwhile are journaled right
+   * away and kept either way; no data file is rewritten until it ends.
+   * Transactions must not overlap: `storage` runs them one at a time.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    this.inTransaction = true;
+    try {
+      return await this.journal.transaction(work);
+    } finally {
+      this.inTransaction = false;
+      this.saveData();
+    }
   }
   
-  // Load all data from files
+  // Load all data from files, refusing to continue if any file is damaged
   private loadData() {
-    this.loadMapFromFile(this.users, 'users.json');
-    this.loadMapFromFile(this.cycles, 'cycles.json');
-    this.loadMapFromFile(this.flowRecords, 'flow-records.json');
-    this.loadMapFromFile(this.moodRecords, 'mood-records.json');
-    this.loadMapFromFile(this.symptoms, 'symptoms.json');
-    this.loadMapFromFile(this.symptomRecords, 'symptom-records.json');
-    this.loadMapFromFile(this.dailyNotes, 'daily-notes.json');
-    this.loadMapFromFile(this.userSettings, 'user-settings.json');
-    this.loadMapFromFile(this.cervicalMucusRecords, 'cervical-mucus-records.json');
-    this.loadMapFromFile(this.sexRecords, 'sex-records.json');
+    const staleTempFiles = removeStaleTempFiles(this.dataPath);
+    if (staleTempFiles.length > 0) {
+      console.warn(`[FileStorage] Removed unfinished writes: ${staleTempFiles.join(', ')}`);
+    }
+    
+    const problems: string[] = [];
+    for (const [filename, map] of this.collections()) {
+      const problem = this.loadMapFromFile(map, filename);
+      if (problem) problems.push(problem);
+    }
+    
+    if (problems.length > 0) {
+      throw new DataIntegrityError(
+        `Refusing to start: data files in ${this.dataPath} are damaged. ` +
+        `Restore them from ${path.join(this.dataPath, 'backups')} or fix them by hand.`,
+        problems
+      );
+    }
   }
   
-  // Save a map to a JSON file
-  private saveMapToFile(map: Map<number, any>, filename: string) {
+  // Replay journaled changes that never made it into the data files
+  private replayJournal() {
+    const entries = this.journal.readEntries();
+    if (entries.length === 0) return;
+    
+    const collections = this.collections();
+    entries.forEach(entry => {
+      const map = collections.get(entry.file);
+      if (map) {
+        map.apply(entry);
+      } else {
+        console.warn(`[FileStorage] Skipping journal entry for unknown file ${entry.file}`);
+      }
+    });
+    
+    console.log(`[FileStorage] Replayed ${entries.length} journal entries`);
+    this.flush();
+  }
+  
+  // Save a map to a JSON file, returns false if the write failed
+  private saveMapToFile(map: Map<number, any>, filename: string): boolean {
     try {
       const filePath = path.join(this.dataPath, filename);
       const data = Array.from(map.values());
-      fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+      dataEncryption.writeFile(filePath, JSON.stringify(data, null, 2));
+      return true;
     } catch (error) {
       console.error(`Error saving ${filename}:`, error);
+      return false;
     }
   }
   
-  // Load a map from a JSON file
-  private loadMapFromFile(map: Map<number, any>, filename: string) {
+  // Load a map from a JSON file, returns a description of the problem if the file is unreadable
+  private loadMapFromFile(map: JournaledMap<any>, filename: string): string | undefined {
+    const filePath = path.join(this.dataPath, filename);
+    if (!fs.existsSync(filePath)) return undefined;
+    
+    let data: unknown;
     try {
-      const filePath = path.join(this.dataPath, filename);
-      
-      if (fs.existsSync(filePath)) {
-        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-        
-        if (Array.isArray(data)) {
-          // Clear the map before loading new data
-          map.clear();
-          
-          data.forEach((item) => {
-            if (item && typeof item.id === 'number') {
-              map.set(item.id, item);
-            }
-          });
-        }
+      const raw = dataEncryption.readFile(filePath);
+      if (!raw.trim()) {
+        return `${filename} is empty (expected at least "[]")`;
       }
+      data = JSON.parse(raw);
     } catch (error) {
-      console.error(`Error loading ${filename}:`, error);
+      return `${filename} could not be parsed: ${(error as Error).message}`;
     }
-  }
-  
-  // Save symptoms to a JSON file
-  private saveSymptomsToFile() {
-    try {
-      const filePath = path.join(this.dataPath, 'symptoms.json');
-      const symptomList = Array.from(this.symptoms.values());
-      fs.writeFileSync(filePath, JSON.stringify(symptomList, null, 2));
-    } catch (error) {
-      console.error(`Error saving symptoms.json:`, error);
+    
+    if (!Array.isArray(data)) {
+      return `${filename} does not contain a JSON array`;
     }
+    
+    map.load(
+      data.filter((item) => item && typeof item.id === 'number'),
+      (item) => item.id
+    );
+    return undefined;
   }
   
   // Helper to deduplicate symptoms in memory and on disk
@@ -222,7 +357,7 @@ export class FileStorage implements IStorage {
         uniqueMap.set(key, { ...symptom });
       }
     }
-    this.symptoms = new Map<number, Symptom>();
+    this.symptoms.clear();
     let id = 1;
     for (const symptom of uniqueMap.values()) {
       symptom.id = id;
@@ -230,7 +365,7 @@ export class FileStorage implements IStorage {
       id++;
     }
     this.currentSymptomId = id;
-    this.saveSymptomsToFile();
+    this.saveData();
   }
 
   // Helper to deduplicate user settings in memory and on disk
@@ -239,7 +374,7 @@ export class FileStorage implements IStorage {
     for (const settings of this.userSettings.values()) {
       uniqueMap.set(settings.userId, { ...settings });
     }
-    this.userSettings = new Map<number, UserSettings>();
+    this.userSettings.clear();
     let id = 1;
     for (const settings of uniqueMap.values()) {
       settings.id = id;
@@ -247,7 +382,7 @@ export class FileStorage implements IStorage {
       id++;
     }
     this.currentUserSettingsId = id;
-    this.saveMapToFile(this.userSettings, 'user-settings.json');
+    this.saveData();
   }
 
   // Initialize default symptoms if none exist
@@ -346,6 +481,10 @@ export class FileStorage implements IStorage {
   }
 
   // User operations
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -362,6 +501,15 @@ export class FileStorage implements IStorage {
   return newUser;
 }
 
+  async updateUser(id: number, updateUser: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...updateUser };
+    this.users.set(id, updated);
+    this.saveData();
+    return updated;
+  }
+
   async getCycles(userId: number): Promise<Cycle[]> {
   return Array.from(this.cycles.values())
     .filter(cycle => cycle.userId === userId)
@@ -934,6 +1082,96 @@ export class FileStorage implements IStorage {
     return deleted;
   }
 
+  // Medications
+  async getMedications(userId: number): Promise<Medication[]> {
+    return Array.from(this.medications.values()).filter(m => m.userId === userId);
+  }
+
+  private getUserMedication(userId: number, medicationId: number): Medication | undefined {
+    const medication = this.medications.get(medicationId);
+    return medication && medication.userId === userId ? medication : undefined;
+  }
+
+  async createMedication(medication: InsertMedication): Promise<Medication> {
+    const id = this.currentMedicationId++;
+    const newMedication: Medication = { ...medication, id };
+    this.medications.set(id, newMedication);
+    this.saveData();
+    return newMedication;
+  }
+
+  async logMedicationDose(userId: number, medicationId: number, date: string): Promise<Medication | undefined> {
+    const medication = this.getUserMedication(userId, medicationId);
+    if (!medication) return undefined;
+    const updated = { ...medication, logs: [...medication.logs, { date }] };
+    this.medications.set(medicationId, updated);
+    this.saveData();
+    return updated;
+  }
+
+  async removeMedicationLog(userId: number, medicationId: number, date: string): Promise<Medication | undefined> {
+    const medication = this.getUserMedication(userId, medicationId);
+    if (!medication) return undefined;
+    const updated = { ...medication, logs: medication.logs.filter(log => log.date !== date) };
+    this.medications.set(medicationId, updated);
+    this.saveData();
+    return updated;
+  }
+
+  async deleteMedication(userId: number, medicationId: number): Promise<boolean> {
+    if (!this.getUserMedication(userId, medicationId)) return false;
+    this.medications.delete(medicationId);
+    this.saveData();
+    return true;
+  }
+
+  async importMedications(userId: number, medications: Medication[]): Promise<void> {
+    for (const [id, medication] of this.medications.entries()) {
+      if (medication.userId === userId) {
+        this.medications.delete(id);
+      }
+    }
+    for (const medication of medications) {
+      // Keep imported ids (and logs) unless another user's medication already has the id
+      const id = this.medications.has(medication.id) ? this.currentMedicationId : medication.id;
+      this.medications.set(id, { ...medication, id, userId, logs: medication.logs || [] });
+      this.currentMedicationId = Math.max(this.currentMedicationId, id + 1);
+    }
+    this.saveData();
+  }
+
+  // Personal API tokens
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values()).filter(t => t.userId === userId);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(t => t.tokenHash === tokenHash);
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentApiTokenId++;
+    const newToken: ApiToken = { ...token, id };
+    this.apiTokens.set(id, newToken);
+    this.saveData();
+    return newToken;
+  }
+
+  async touchApiToken(id: number, lastUsedAt: string): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (!token) return;
+    this.apiTokens.set(id, { ...token, lastUsedAt });
+    this.saveData();
+  }
+
+  async deleteApiToken(userId: number, id: number): Promise<boolean> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId) return false;
+    this.apiTokens.delete(id);
+    this.saveData();
+    return true;
+  }
+
   // Analytics
   async getAverageCycleLength(userId: number): Promise<number | undefined> {
     const cycles = await this.getCycles(userId);
@@ -1121,12 +1359,11 @@ export class FileStorage implements IStorage {
       }
     }
     
-    // Delete medication records (NEW)
-    try {
-      const medicationStorage = new MedicationStorage();
-      medicationStorage.resetUserMedications(userId);
-    } catch (e) {
-      console.error('[resetUserData] Failed to clear medication records:', e);
+    // Delete medications and their logs
+    for (const [id, medication] of this.medications.entries()) {
+      if (medication.userId === userId) {
+        this.medications.delete(id);
+      }
     }
     
     // Save changes
@@ -1137,14 +1374,14 @@ export class FileStorage implements IStorage {
 
   async importData({ symptoms, userSettings }: { symptoms?: Symptom[]; userSettings?: UserSettings[] }) {
     if (symptoms) {
-      this.symptoms = new Map<number, Symptom>();
+      this.symptoms.clear();
       for (const s of symptoms) {
         this.symptoms.set(s.id, { ...s });
       }
       this.deduplicateSymptomsAndSave();
     }
     if (userSettings) {
-      this.userSettings = new Map<number, UserSettings>();
+      this.userSettings.clear();
       for (const s of userSettings) {
         this.userSettings.set(s.userId, { ...s });
       }
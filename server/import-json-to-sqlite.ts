@@ -0,0 +1,28 @@
+/**
+ * One-shot import of a JSON data directory into the SQLite database.
+ *
+ * Usage: npm run db:import-json -- [path/to/data]
+ * Defaults to the dataPath from config.json. Refuses to run if the
+ * database already holds user data.
+ */
+import path from 'path';
+import { config } from './config';
+import { openDatabase, getDatabasePath } from './db';
+import { importJsonDirectory, isDatabaseEmpty } from './sqlite-import';
+
+const sourceDir = path.resolve(process.cwd(), process.argv[2] || config.dataPath);
+const { db } = openDatabase();
+
+try {
+  if (!isDatabaseEmpty(db)) {
+    console.error(`${getDatabasePath()} already contains data; not importing ${sourceDir}.`);
+    process.exitCode = 1;
+  } else {
+    const counts = importJsonDirectory(db, sourceDir);
+    console.log(`Imported ${sourceDir} into ${getDatabasePath()}:`);
+    console.table(counts);
+    console.log('Set "storageBackend": "sqlite" in config.json to use it.');
+  }
+} finally {
+  db.close();
+}
@@ -0,0 +1,47 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { storage } = await import('./storage');
+const { appendImport } = await import('./import-merge');
+const { validateImportData } = await import('./import-validation');
+
+const symptomNames = async (userId: number) => {
+  const names = new Map((await storage.getUserSymptoms(userId)).map(symptom => [symptom.id, symptom.name]));
+  return (await storage.getSymptomRecords(userId)).map(record => `${record.date} ${names.get(record.symptomId)}`).sort();
+};
+
+test('appended records point at the cycles and symptoms they had in the file', async () => {
+  const user = await storage.createUser({ username: 'alice', password: 'x', email: '' });
+  // Ids in use here that the file uses for other things
+  const existing = await storage.createSymptom({ name: 'Back Pain', category: 'physical', isDefault: false, userId: user.id });
+  const cramps = (await storage.getSymptoms()).find(symptom => symptom.name === 'Cramps')!;
+
+  // Exported from another server, where ids were handed out differently
+  const data = validateImportData({
+    cycles: [{ id: 55, userId: 9, startDate: '2024-03-01', endDate: '2024-03-28', notes: null }],
+    flowRecords: [{ id: 7, userId: 9, cycleId: 55, date: '2024-03-01', intensity: 'heavy' }],
+    symptoms: [
+      { id: existing.id, name: 'Jaw Pain', category: 'physical', isDefault: false, userId: 9 },
+      { id: 90, name: 'back pain', category: 'physical', isDefault: false, userId: 9 }
+    ],
+    symptomRecords: [
+      { id: 1, userId: 9, symptomId: existing.id, date: '2024-03-02', intensity: 3 },
+      { id: 2, userId: 9, symptomId: 90, date: '2024-03-03', intensity: null },
+      { id: 3, userId: 9, symptomId: cramps.id, date: '2024-03-04', intensity: 4 },
+      { id: 4, userId: 9, symptomId: 999, date: '2024-03-05', intensity: 1 }
+    ]
+  });
+  await appendImport(user.id, data);
+
+  const [cycle] = await storage.getCycles(user.id);
+  const [flow] = await storage.getFlowRecords(user.id);
+  assert.equal(cycle.startDate, '2024-03-01');
+  assert.equal(flow.cycleId, cycle.id);
+
+  assert.deepEqual(await symptomNames(user.id), ['2024-03-02 Jaw Pain', '2024-03-03 Back Pain', '2024-03-04 Cramps']);
+  // Matched by name rather than created twice, and the default symptom is left as it was
+  assert.equal((await storage.getUserSymptoms(user.id)).filter(symptom => symptom.name.toLowerCase() === 'back pain').length, 1);
+  assert.deepEqual(await storage.getSymptomById(cramps.id), cramps);
+});
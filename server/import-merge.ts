@@ -0,0 +1,463 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { FlowIntensity, parseHiddenSymptomIds, withHiddenSymptomIds, type Medication, type Symptom } from '@shared/schema';
+import { storage } from './storage';
+import type { DataSet } from './data-migrations';
+
+/**
+ * What happens when an imported record and a stored one describe the same
+ * thing (same day, same symptom...) with different values.
+ */
+export type ConflictResolution = 'keep' | 'replace';
+
+export interface MergeConflict {
+  collection: string;
+  // What the records were matched on, e.g. "2024-05-01" or "2024-05-01 / Cramps"
+  key: string;
+  // Fields whose values differ
+  fields: string[];
+  existing: Record<string, unknown>;
+  incoming: Record<string, unknown>;
+}
+
+export interface CollectionMergeSummary {
+  added: number;
+  duplicates: number;
+  conflicts: number;
+  // Records that can't be placed, e.g. a second entry for the same day in the file
+  skipped: number;
+}
+
+export interface MergeReport {
+  dryRun: boolean;
+  resolution: ConflictResolution;
+  collections: Record<string, CollectionMergeSummary>;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * How one kind of entry in another app's export was carried over, for the
+ * summary shown before importing it.
+ */
+export interface ImportTagMapping {
+  category: string;
+  tag: string;
+  // e.g. "Flow: heavy" or "Symptom: Cramps"; null if the entry isn't imported
+  mappedTo: string | null;
+  days: number;
+}
+
+/**
+ * Another app's export, converted into import data that is merged like a
+ * CycleSense export.
+ */
+export interface ConvertedImport {
+  data: DataSet;
+  mapping: ImportTagMapping[];
+  // Days in the export with at least one entry
+  days: number;
+}
+
+// Period days further apart than this start a new cycle
+const MAX_DAYS_BETWEEN_PERIOD_DAYS = 7;
+
+interface MergeAction {
+  kind: 'add' | 'duplicate' | 'conflict' | 'skip';
+  key: string;
+  incoming: any;
+  existing?: any;
+  fields?: string[];
+}
+
+/**
+ * How one collection is merged: what identifies a record, which fields tell
+ * a duplicate from a conflict, and how to write an added or replaced record.
+ */
+interface CollectionMerger {
+  collection: string;
+  fields: string[];
+  existing(userId: number): Promise<any[]>;
+  key(record: any): string | null;
+  add(userId: number, record: any): Promise<unknown>;
+  replace?(userId: number, existing: any, incoming: any): Promise<unknown>;
+}
+
+const DATE_FIELDS = new Set(['date', 'startDate', 'endDate']);
+
+// Stored dates are yyyy-MM-dd, but older exports may hold full ISO timestamps
+function day(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = parseISO(value);
+  return isNaN(date.getTime()) ? null : format(date, 'yyyy-MM-dd');
+}
+
+function normalize(field: string, value: unknown): unknown {
+  if (value === undefined) return null;
+  return DATE_FIELDS.has(field) ? day(value) : value;
+}
+
+function differingFields(fields: string[], existing: any, incoming: any): string[] {
+  return fields.filter(field =>
+    JSON.stringify(normalize(field, existing[field])) !== JSON.stringify(normalize(field, incoming[field]))
+  );
+}
+
+function pick(record: any, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, normalize(field, record[field])]));
+}
+
+function planCollection(merger: CollectionMerger, incoming: any[], existing: any[]): MergeAction[] {
+  const stored = new Map<string, any>();
+  existing.forEach(record => {
+    const key = merger.key(record);
+    if (key !== null && !stored.has(key)) stored.set(key, record);
+  });
+
+  const seen = new Set<string>();
+  return incoming.map(record => {
+    const key = merger.key(record);
+    if (key === null || seen.has(key)) return { kind: 'skip', key: key ?? '', incoming: record };
+    seen.add(key);
+
+    const match = stored.get(key);
+    if (!match) return { kind: 'add', key, incoming: record };
+    const fields = differingFields(merger.fields, match, record);
+    return fields.length === 0
+      ? { kind: 'duplicate', key, incoming: record, existing: match }
+      : { kind: 'conflict', key, incoming: record, existing: match, fields };
+  });
+}
+
+const symptomKey = (name: unknown) => typeof name === 'string' && name.trim() ? name.trim().toLowerCase() : null;
+
+/**
+ * Merge exported data into a user's existing records instead of replacing
+ * them. Records are matched by day (and symptom or medication name); exact
+ * duplicates are left alone, and records that differ are reported as
+ * conflicts and resolved by `resolution`. With `dryRun` nothing is written
+ * and the report previews what would happen.
+ */
+export async function mergeImport(
+  userId: number,
+  data: DataSet,
+  { dryRun = false, resolution = 'keep' }: { dryRun?: boolean; resolution?: ConflictResolution } = {}
+): Promise<MergeReport> {
+  const report: MergeReport = { dryRun, resolution, collections: {}, conflicts: [] };
+
+  // Records refer to symptoms and cycles by id, and ids differ between
+  // servers: they are matched through symptom names and cycle start days
+  const incomingSymptoms: any[] = data.symptoms || [];
+  const incomingSymptomNames = new Map<number, string>();
+  for (const symptom of incomingSymptoms) {
+    if (typeof symptom?.id === 'number' && typeof symptom.name === 'string') incomingSymptomNames.set(symptom.id, symptom.name);
+  }
+  const incomingCycleDays = new Map<number, string | null>(
+    (data.cycles || []).map((cycle: any) => [cycle?.id, day(cycle?.startDate)])
+  );
+  let localSymptoms: Symptom[] = await storage.getUserSymptoms(userId);
+  let localCycleIds = new Map<string, number>();
+
+  const symptomName = async (symptomId: unknown): Promise<string | undefined> => {
+    if (typeof symptomId !== 'number') return undefined;
+    if (incomingSymptomNames.has(symptomId)) return incomingSymptomNames.get(symptomId);
+    // Default symptoms are created in the same order everywhere, so their ids match
+    const symptom = await storage.getSymptomById(symptomId);
+    return symptom?.isDefault ? symptom.name : undefined;
+  };
+  const localSymptomId = (name: string) => localSymptoms.find(symptom => symptomKey(symptom.name) === symptomKey(name))?.id;
+
+  // Symptom records are keyed by day and symptom name, so look the names up first
+  const namedSymptomRecords = await Promise.all(
+    (data.symptomRecords || []).map(async (record: any) => ({ ...record, symptomName: await symptomName(record?.symptomId) }))
+  );
+
+  const mergers: [CollectionMerger, any[]][] = [
+    [{
+      collection: 'symptoms',
+      fields: [],
+      existing: async () => localSymptoms,
+      key: symptom => symptomKey(symptom?.name),
+      add: (userId, symptom) => storage.createSymptom({ name: symptom.name.trim(), category: symptom.category || 'physical', isDefault: false, userId })
+    }, incomingSymptoms],
+    [{
+      collection: 'cycles',
+      fields: ['endDate', 'notes'],
+      existing: userId => storage.getCycles(userId),
+      key: cycle => day(cycle?.startDate),
+      add: (userId, cycle) => storage.createCycle({ userId, startDate: day(cycle.startDate)!, endDate: day(cycle.endDate), notes: cycle.notes ?? null }),
+      replace: (_userId, existing, cycle) => storage.updateCycle(existing.id, { endDate: day(cycle.endDate), notes: cycle.notes ?? null })
+    }, data.cycles || []],
+    [{
+      collection: 'flowRecords',
+      fields: ['intensity'],
+      existing: userId => storage.getFlowRecords(userId),
+      key: record => day(record?.date),
+      add: (userId, record) => {
+        const cycleDay = incomingCycleDays.get(record.cycleId);
+        const cycleId = cycleDay ? localCycleIds.get(cycleDay) ?? null : null;
+        return storage.createFlowRecord({ userId, cycleId, date: day(record.date)!, intensity: record.intensity });
+      },
+      replace: (_userId, existing, record) => storage.updateFlowRecord(existing.id, { intensity: record.intensity })
+    }, data.flowRecords || []],
+    [{
+      collection: 'moodRecords',
+      fields: ['mood'],
+      existing: userId => storage.getMoodRecords(userId),
+      key: record => day(record?.date),
+      add: (userId, record) => storage.createMoodRecord({ userId, date: day(record.date)!, mood: record.mood }),
+      replace: (_userId, existing, record) => storage.updateMoodRecord(existing.id, { mood: record.mood })
+    }, data.moodRecords || []],
+    [{
+      collection: 'symptomRecords',
+      fields: ['intensity'],
+      existing: async userId => (await storage.getSymptomRecords(userId)).map(record => ({
+        ...record,
+        symptomName: localSymptoms.find(symptom => symptom.id === record.symptomId)?.name
+      })),
+      key: record => record?.symptomName && day(record.date) ? `${day(record.date)} / ${record.symptomName}` : null,
+      add: async (userId, record) => {
+        const symptomId = localSymptomId(record.symptomName);
+        if (symptomId === undefined) return;
+        return storage.createSymptomRecord({ userId, symptomId, date: day(record.date)!, intensity: record.intensity ?? null });
+      },
+      replace: (_userId, existing, record) => storage.updateSymptomRecord(existing.id, { intensity: record.intensity ?? null })
+    }, namedSymptomRecords],
+    [{
+      collection: 'dailyNotes',
+      fields: ['notes'],
+      existing: userId => storage.getDailyNotes(userId),
+      key: note => day(note?.date),
+      add: (userId, note) => storage.createDailyNote({ userId, date: day(note.date)!, notes: note.notes }),
+      replace: (_userId, existing, note) => storage.updateDailyNote(existing.id, { notes: note.notes })
+    }, data.dailyNotes || []],
+    [{
+      collection: 'cervicalMucusRecords',
+      fields: ['type'],
+      existing: userId => storage.getCervicalMucusRecords(userId),
+      key: record => day(record?.date),
+      add: (userId, record) => storage.createCervicalMucusRecord({ userId, date: day(record.date)!, type: record.type }),
+      replace: (_userId, existing, record) => storage.updateCervicalMucusRecord(existing.id, { type: record.type })
+    }, data.cervicalMucusRecords || []],
+    [{
+      collection: 'sexRecords',
+      fields: ['protected'],
+      existing: userId => storage.getSexRecords(userId),
+      key: record => day(record?.date),
+      add: (userId, record) => storage.createSexRecord({ userId, date: day(record.date)!, protected: record.protected }),
+      replace: (_userId, existing, record) => storage.updateSexRecord(existing.id, { protected: record.protected })
+    }, data.sexRecords || []]
+  ];
+
+  for (const [merger, incoming] of mergers) {
+    if (!Array.isArray(incoming) || incoming.length === 0) continue;
+    const actions = planCollection(merger, incoming, await merger.existing(userId));
+    summarize(report, merger.collection, actions);
+    if (!dryRun) {
+      for (const action of actions) {
+        if (action.kind === 'add') {
+          await merger.add(userId, action.incoming);
+        } else if (action.kind === 'conflict' && resolution === 'replace' && merger.replace) {
+          await merger.replace(userId, action.existing, action.incoming);
+        }
+      }
+    }
+    // Later collections refer to the symptoms and cycles added here
+    if (merger.collection === 'symptoms' && !dryRun) localSymptoms = await storage.getUserSymptoms(userId);
+    if (merger.collection === 'cycles') {
+      localCycleIds = new Map((await storage.getCycles(userId)).map(cycle => [day(cycle.startDate)!, cycle.id]));
+    }
+  }
+
+  await mergeMedications(userId, data.medications, report, dryRun);
+  // Hidden custom symptoms are listed by id, too
+  const localHiddenSymptomId = (id: number) => {
+    const name = incomingSymptomNames.get(id);
+    return name === undefined ? undefined : localSymptomId(name);
+  };
+  await mergeSettings(userId, data.userSettings, report, dryRun, localHiddenSymptomId);
+  return report;
+}
+
+/**
+ * Add imported records to a user's records as they are, duplicates and all.
+ * Ids in the file aren't kept, so references follow the records they point
+ * at: flow records get the ids of the cycles created for theirs, and symptom
+ * records those of the user's symptoms with the same names (custom symptoms
+ * without one are created). Symptom records whose symptom can't be found
+ * are left out.
+ */
+export async function appendImport(userId: number, data: DataSet) {
+  const cycleIds = new Map<number, number>();
+  for (const { id, ...cycle } of data.cycles || []) {
+    const created = await storage.createCycle({ ...cycle, userId });
+    if (typeof id === 'number') cycleIds.set(id, created.id);
+  }
+  if (data.flowRecords) {
+    await Promise.all(data.flowRecords.map(({ id: _id, ...rec }: any) => storage.createFlowRecord({
+      ...rec,
+      userId,
+      cycleId: typeof rec.cycleId === 'number' ? cycleIds.get(rec.cycleId) ?? null : null
+    })));
+  }
+  if (data.moodRecords) {
+    await Promise.all(data.moodRecords.map((rec: any) => storage.createMoodRecord({ ...rec, userId })));
+  }
+
+  const symptomIds = new Map<number, number>();
+  const localSymptoms = await storage.getUserSymptoms(userId);
+  for (const { id, ...symptom } of data.symptoms || []) {
+    let local = localSymptoms.find(candidate => symptomKey(candidate.name) === symptomKey(symptom.name));
+    if (!local) {
+      local = await storage.createSymptom({ name: symptom.name.trim(), category: symptom.category || 'physical', isDefault: false, userId });
+      localSymptoms.push(local);
+    }
+    if (typeof id === 'number') symptomIds.set(id, local.id);
+  }
+  for (const { id: _id, ...rec } of data.symptomRecords || []) {
+    let symptomId = symptomIds.get(rec.symptomId);
+    // Default symptoms have the same ids everywhere, so files may leave them out
+    if (symptomId === undefined && (await storage.getSymptomById(rec.symptomId))?.isDefault) symptomId = rec.symptomId;
+    if (symptomId !== undefined) await storage.createSymptomRecord({ ...rec, symptomId, userId });
+  }
+
+  if (data.dailyNotes) {
+    await Promise.all(data.dailyNotes.map((note: any) => storage.createDailyNote({ ...note, userId })));
+  }
+  // Whole-server backups hold a list; only one set of settings applies to this user
+  const settings = data.userSettings?.[0];
+  if (settings) {
+    await storage.createUserSettings({ ...settings, userId, hiddenCustomSymptoms: localIds(settings.hiddenCustomSymptoms, id => symptomIds.get(id)) });
+  }
+  if (data.cervicalMucusRecords) {
+    await Promise.all(data.cervicalMucusRecords.map((rec: any) => storage.createCervicalMucusRecord({ ...rec, userId })));
+  }
+  if (data.medications) {
+    // Medications keep their ids (and logs); ones exported without an id get a new one
+    await storage.importMedications(userId, data.medications.filter((med: any) => med.id !== undefined).map((med: any) => ({ ...med, userId })));
+    await Promise.all(data.medications
+      .filter((med: any) => med.id === undefined)
+      .map((med: any) => storage.createMedication({ ...med, userId })));
+  }
+  if (data.sexRecords) {
+    await Promise.all(data.sexRecords.map((rec: any) => storage.createSexRecord({ ...rec, userId })));
+  }
+}
+
+/**
+ * Cycles for exports that only have flow records: each run of period days
+ * (spotting aside) is one. `flowRecords` must be sorted by date.
+ */
+export function cyclesFromFlowRecords(flowRecords: { date: string; intensity: string }[]) {
+  const cycles: { startDate: string; endDate: string | null; notes: null }[] = [];
+  for (const { date, intensity } of flowRecords) {
+    if (intensity === FlowIntensity.SPOTTING) continue;
+    const current = cycles[cycles.length - 1];
+    if (current && differenceInCalendarDays(parseISO(date), parseISO(current.endDate!)) <= MAX_DAYS_BETWEEN_PERIOD_DAYS) {
+      current.endDate = date;
+    } else {
+      cycles.push({ startDate: date, endDate: date, notes: null });
+    }
+  }
+  return cycles;
+}
+
+function summarize(report: MergeReport, collection: string, actions: MergeAction[]) {
+  const summary: CollectionMergeSummary = { added: 0, duplicates: 0, conflicts: 0, skipped: 0 };
+  for (const action of actions) {
+    if (action.kind === 'add') summary.added++;
+    else if (action.kind === 'duplicate') summary.duplicates++;
+    else if (action.kind === 'skip') summary.skipped++;
+    else {
+      summary.conflicts++;
+      report.conflicts.push({
+        collection,
+        key: action.key,
+        fields: action.fields!,
+        existing: pick(action.existing, action.fields!),
+        incoming: pick(action.incoming, action.fields!)
+      });
+    }
+  }
+  report.collections[collection] = summary;
+}
+
+// Medications match by name; their dose logs are combined whichever side wins a conflict
+async function mergeMedications(userId: number, incoming: any[] | undefined, report: MergeReport, dryRun: boolean) {
+  if (!Array.isArray(incoming) || incoming.length === 0) return;
+  const merger: CollectionMerger = {
+    collection: 'medications',
+    fields: ['dose', 'frequency'],
+    existing: userId => storage.getMedications(userId),
+    key: medication => symptomKey(medication?.name),
+    add: (userId, medication) => storage.createMedication({
+      userId,
+      name: medication.name.trim(),
+      dose: medication.dose,
+      frequency: medication.frequency,
+      logs: Array.isArray(medication.logs) ? medication.logs : []
+    })
+  };
+  const actions = planCollection(merger, incoming, await merger.existing(userId));
+  summarize(report, merger.collection, actions);
+  if (dryRun) return;
+
+  for (const action of actions) {
+    if (action.kind === 'add') await merger.add(userId, action.incoming);
+  }
+  const merged = new Map<number, Medication>((await storage.getMedications(userId)).map(medication => [medication.id, medication]));
+  let changed = false;
+  for (const action of actions) {
+    if (action.kind !== 'duplicate' && action.kind !== 'conflict') continue;
+    const medication = { ...merged.get(action.existing.id)! };
+    if (action.kind === 'conflict' && report.resolution === 'replace') {
+      medication.dose = action.incoming.dose;
+      medication.frequency = action.incoming.frequency;
+      changed = true;
+    }
+    const loggedDays = new Set(medication.logs.map(log => day(log.date)));
+    const newLogs = (Array.isArray(action.incoming.logs) ? action.incoming.logs : [])
+      .filter((log: any) => day(log?.date) && !loggedDays.has(day(log.date)));
+    if (newLogs.length > 0) {
+      medication.logs = [...medication.logs, ...newLogs.map((log: any) => ({ date: day(log.date)! }))];
+      changed = true;
+    }
+    merged.set(medication.id, medication);
+  }
+  if (changed) await storage.importMedications(userId, Array.from(merged.values()));
+}
+
+// Ids of the local symptoms for symptom ids in a file; ones without a local symptom are left out
+function localIds(ids: unknown, localId: (id: number) => number | undefined): number[] {
+  return parseHiddenSymptomIds(ids).map(localId).filter((id): id is number => id !== undefined);
+}
+
+// There is one set of settings per user: imported settings only fill in a missing one,
+// or replace the stored values on conflict
+async function mergeSettings(
+  userId: number,
+  incoming: any,
+  report: MergeReport,
+  dryRun: boolean,
+  localSymptomId: (id: number) => number | undefined
+) {
+  // Whole-server backups hold a list
+  const settings = Array.isArray(incoming) ? incoming[0] : incoming;
+  if (!settings || typeof settings !== 'object') return;
+
+  const { id: _id, userId: _userId, ...values } = withHiddenSymptomIds(settings);
+  values.hiddenCustomSymptoms = localIds(values.hiddenCustomSymptoms, localSymptomId);
+  const stored = await storage.getUserSettings(userId);
+  const existing = stored && withHiddenSymptomIds(stored);
+  let action: MergeAction = { kind: 'add', key: 'settings', incoming: values };
+  if (existing) {
+    const fields = differingFields(Object.keys(values), existing, values);
+    action = { kind: fields.length > 0 ? 'conflict' : 'duplicate', key: 'settings', incoming: values, existing, fields };
+  }
+  summarize(report, 'userSettings', [action]);
+  if (dryRun) return;
+
+  if (action.kind === 'add') {
+    await storage.createUserSettings({ ...values, userId });
+  } else if (action.kind === 'conflict' && report.resolution === 'replace') {
+    await storage.updateUserSettings(userId, pick(values, action.fields!));
+  }
+}
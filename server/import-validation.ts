@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { parseISO } from 'date-fns';
+import {
+  cycleSchema,
+  flowRecordSchema,
+  moodRecordSchema,
+  symptomSchema,
+  symptomRecordSchema,
+  dailyNoteSchema,
+  userSettingsSchema,
+  cervicalMucusSchema,
+  sexRecordSchema,
+  medicationSchema,
+  medicationLogSchema
+} from '@shared/schema';
+import type { DataSet } from './data-migrations';
+
+export interface ImportRowError {
+  // 1-based position of the record in its list
+  row: number;
+  // Path of the offending value inside the record, e.g. "logs.0.date"; empty for the record as a whole
+  field: string;
+  message: string;
+}
+
+/**
+ * Problems found in an import, per collection.
+ */
+export type ImportErrorReport = Record<string, ImportRowError[]>;
+
+/**
+ * Thrown when records in an import don't match the schemas; nothing has
+ * been written at that point.
+ */
+export class ImportValidationError extends Error {
+  constructor(public readonly report: ImportErrorReport, public readonly invalidRows: number) {
+    super(`${invalidRows} ${invalidRows === 1 ? 'record is' : 'records are'} invalid; nothing was imported`);
+    this.name = 'ImportValidationError';
+  }
+}
+
+// Very broken files would otherwise produce a report as large as the file
+export const MAX_ERRORS_PER_COLLECTION = 50;
+
+const isoDate = z.string().refine(value => !isNaN(parseISO(value).getTime()), 'Expected an ISO date');
+
+// Exported records carry the ids and owner they had where they were exported;
+// the import assigns its own
+const exportedIds = { id: z.number().optional(), userId: z.number().nullable().optional() };
+
+const importSchemas: Record<string, z.ZodTypeAny> = {
+  cycles: cycleSchema.extend({ ...exportedIds, startDate: isoDate, endDate: isoDate.nullable().optional(), notes: z.string().nullable().optional() }),
+  flowRecords: flowRecordSchema.extend({ ...exportedIds, date: isoDate }),
+  moodRecords: moodRecordSchema.extend({ ...exportedIds, date: isoDate }),
+  symptoms: symptomSchema.extend(exportedIds),
+  symptomRecords: symptomRecordSchema.extend({ ...exportedIds, date: isoDate }),
+  dailyNotes: dailyNoteSchema.extend({ ...exportedIds, date: isoDate }),
+  // Settings are applied on top of the defaults, so any of them may be left out
+  userSettings: userSettingsSchema.partial().extend(exportedIds),
+  cervicalMucusRecords: cervicalMucusSchema.extend({ ...exportedIds, date: isoDate }),
+  sexRecords: sexRecordSchema.extend({ ...exportedIds, date: isoDate }),
+  medications: medicationSchema.extend({ ...exportedIds, logs: z.array(medicationLogSchema.extend({ date: isoDate })) })
+};
+
+/**
+ * Check every record of an (already migrated) import against the schemas in
+ * shared/schema.ts. Returns the parsed records, without unknown fields and
+ * without collections that are never imported (accounts, tokens). Throws
+ * ImportValidationError listing every invalid record otherwise.
+ */
+export function validateImportData(data: DataSet): DataSet {
+  const validated: DataSet = {};
+  const report: ImportErrorReport = {};
+  let invalidRows = 0;
+
+  for (const [collection, schema] of Object.entries(importSchemas)) {
+    let records = data[collection];
+    if (records === undefined || records === null) continue;
+    // Exports from the app hold a single settings object
+    if (collection === 'userSettings' && !Array.isArray(records)) records = [records];
+    if (!Array.isArray(records)) {
+      report[collection] = [{ row: 0, field: '', message: 'Expected a list of records' }];
+      invalidRows++;
+      continue;
+    }
+
+    const errors: ImportRowError[] = [];
+    validated[collection] = records.map((record, index) => {
+      const result = schema.safeParse(record);
+      if (result.success) return result.data;
+      invalidRows++;
+      result.error.issues.forEach(issue => errors.push({ row: index + 1, field: issue.path.join('.'), message: issue.message }));
+      return null;
+    });
+    if (errors.length > 0) report[collection] = errors.slice(0, MAX_ERRORS_PER_COLLECTION);
+  }
+
+  if (invalidRows > 0) throw new ImportValidationError(report, invalidRows);
+  return validated;
+}
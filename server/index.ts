@@ -9,9 +9,12 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { config } from "./config";
 import { ensureDataDirectory } from "./ensure-data-dir";
+import { storage, isStorageOpen } from "./storage";
+import { createHttpsRedirectServer } from "./tls";
 
 const app = express();
-app.use(express.json());
+// Full JSON exports are imported as request bodies
+app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -54,6 +57,17 @@ process.on("uncaughtException", (err) => {
   process.exit(1);
 });
 
+// Write buffered data changes to disk before the process goes away
+process.on("exit", () => {
+  if (isStorageOpen()) storage.flush();
+});
+for (const signal of ["SIGINT", "SIGTERM", "SIGHUP"] as const) {
+  process.on(signal, () => {
+    log(`Received ${signal}, saving data and shutting down`);
+    process.exit(0);
+  });
+}
+
 (async () => {
   try {
     // Ensure the data directory exists
@@ -87,12 +101,13 @@ process.on("uncaughtException", (err) => {
     // this serves both the API and the client
     const port = config.port || 5000;
     const host = config.host || "0.0.0.0";
+    const protocol = config.httpsEnabled ? "https" : "http";
     server.listen({
       port,
       host,
       reusePort: true,
     }, () => {
-      log(`CycleSense serving at http://${host}:${port}`);
+      log(`CycleSense serving at ${protocol}://${host}:${port}`);
       log(`Data path: ${config.dataPath}`);
     }).on('error', (err: any) => {
       if (err.code === 'EADDRINUSE') {
@@ -102,6 +117,16 @@ process.on("uncaughtException", (err) => {
         throw err;
       }
     });
+
+    // Optionally send plain HTTP visitors to the HTTPS address
+    if (config.httpsEnabled && config.httpRedirectPort) {
+      const redirectPort = config.httpRedirectPort;
+      createHttpsRedirectServer(port).listen(redirectPort, host, () => {
+        log(`Redirecting http://${host}:${redirectPort} to HTTPS`);
+      }).on('error', (err: any) => {
+        console.error(`[HTTPS] Could not start the HTTP redirect on port ${redirectPort}:`, err.message);
+      });
+    }
   } catch (err) {
     console.error("[FATAL] Startup error:", err);
     process.exit(1);
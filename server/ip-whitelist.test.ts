@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { IpWhitelist, parseWhitelistLine, WhitelistEntryError } = await import('./ip-whitelist');
+
+test('whitelist lines are addresses, CIDR ranges or hostnames with an optional comment', () => {
+  assert.deepEqual(parseWhitelistLine('192.168.1.20   # phone'), { value: '192.168.1.20', comment: 'phone' });
+  assert.deepEqual(parseWhitelistLine('10.0.0.0/8'), { value: '10.0.0.0/8' });
+  assert.deepEqual(parseWhitelistLine('fd00::/8 #vpn'), { value: 'fd00::/8', comment: 'vpn' });
+  assert.deepEqual(parseWhitelistLine('laptop.local'), { value: 'laptop.local' });
+  assert.equal(parseWhitelistLine('   # only a comment'), null);
+  assert.equal(parseWhitelistLine(''), null);
+
+  for (const bad of ['10.0.0.0/33', 'fd00::/129', '10.0.0.0/8/1', '10.0.0.0/x', 'not a host']) {
+    assert.throws(() => parseWhitelistLine(bad), WhitelistEntryError, bad);
+  }
+});
+
+test('CIDR ranges let in the addresses inside them, over IPv4 and IPv6', async () => {
+  const whitelist = new IpWhitelist('ip-whitelist.txt');
+  const entries = [{ value: '192.168.1.0/24' }, { value: 'fd00:1234::/32' }, { value: '10.1.2.3' }];
+
+  assert.equal(await whitelist.wouldAllow(entries, '192.168.1.255'), true);
+  assert.equal(await whitelist.wouldAllow(entries, '192.168.2.1'), false);
+  // IPv4 clients of a dual-stack server
+  assert.equal(await whitelist.wouldAllow(entries, '::ffff:192.168.1.7'), true);
+  assert.equal(await whitelist.wouldAllow(entries, 'fd00:1234:ffff::1'), true);
+  assert.equal(await whitelist.wouldAllow(entries, 'fd00:1235::1'), false);
+  assert.equal(await whitelist.wouldAllow(entries, '10.1.2.3'), true);
+  assert.equal(await whitelist.wouldAllow(entries, '10.1.2.4'), false);
+  assert.equal(await whitelist.wouldAllow(entries, 'garbage'), false);
+});
+
+test('hostnames let in the addresses they resolve to', async () => {
+  const whitelist = new IpWhitelist('ip-whitelist.txt');
+  assert.equal(await whitelist.wouldAllow([{ value: 'localhost' }], '127.0.0.1'), true);
+  assert.equal(await whitelist.wouldAllow([{ value: 'localhost' }], '192.168.1.1'), false);
+  // Not resolvable: skipped rather than failing the whole list
+  assert.equal(await whitelist.wouldAllow([{ value: 'no-such-host.invalid' }, { value: '127.0.0.1' }], '127.0.0.1'), true);
+});
+
+test('the file is read with bad lines skipped, and saved back with comments', async () => {
+  fs.writeFileSync('ip-whitelist.txt', '127.0.0.1 # this PC\n10.0.0.0/99\n\n192.168.0.0/16\n');
+  const whitelist = new IpWhitelist('ip-whitelist.txt');
+  await whitelist.reload();
+  assert.deepEqual(whitelist.getEntries(), [{ value: '127.0.0.1', comment: 'this PC' }, { value: '192.168.0.0/16' }]);
+
+  await whitelist.save([...whitelist.getEntries(), { value: 'fd00::/8', comment: 'vpn' }]);
+  const reread = new IpWhitelist('ip-whitelist.txt');
+  await reread.reload();
+  assert.deepEqual(reread.getEntries(), whitelist.getEntries());
+  assert.equal(reread.getEntries().length, 3);
+});
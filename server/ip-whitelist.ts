@@ -1,42 +1,232 @@
 import fs from 'fs';
+import net from 'net';
+import dns from 'dns';
 import path from 'path';
 import { Request, Response, NextFunction } from 'express';
+import { writeFileAtomic } from './atomic-file';
 
-export interface IpWhitelistConfig {
-  enabled: boolean;
-  whitelistFile: string;
+export interface WhitelistEntry {
+  // An IP address, a CIDR range (IPv4 or IPv6) or a hostname
+  value: string;
+  comment?: string;
 }
 
-export function loadWhitelist(whitelistFile: string): string[] {
-  try {
-    const filePath = path.resolve(process.cwd(), whitelistFile);
-    return fs.readFileSync(filePath, 'utf-8')
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line && !line.startsWith('#'));
-  } catch {
-    return [];
+export interface DeniedRequest {
+  ip: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  lastPath: string;
+}
+
+type EntryKind = 'address' | 'subnet' | 'hostname';
+
+// Keep the denied-request log from growing without bound
+const MAX_DENIED_IPS = 200;
+const WATCH_INTERVAL_MS = 1000;
+
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+/**
+ * Thrown for a whitelist entry that is not an IP address, CIDR range or hostname.
+ */
+export class WhitelistEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhitelistEntryError';
+  }
+}
+
+// Clients connecting over IPv4 to a dual-stack server show up as ::ffff:a.b.c.d
+function normalizeIp(ip: string): string {
+  return ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+}
+
+function entryKind(value: string): EntryKind | null {
+  if (net.isIP(value)) return 'address';
+  const [address, prefix, ...rest] = value.split('/');
+  if (prefix !== undefined && rest.length === 0 && /^\d+$/.test(prefix)) {
+    const version = net.isIP(address);
+    const bits = Number(prefix);
+    if (version === 4 && bits <= 32) return 'subnet';
+    if (version === 6 && bits <= 128) return 'subnet';
+    return null;
+  }
+  return HOSTNAME_PATTERN.test(value) ? 'hostname' : null;
+}
+
+/**
+ * Parse one line of the whitelist file: an entry, optionally followed by
+ * "# comment". Returns null for blank and comment-only lines.
+ */
+export function parseWhitelistLine(line: string): WhitelistEntry | null {
+  const hashIndex = line.indexOf('#');
+  const value = (hashIndex === -1 ? line : line.slice(0, hashIndex)).trim();
+  const comment = hashIndex === -1 ? '' : line.slice(hashIndex + 1).trim();
+  if (!value) return null;
+  if (!entryKind(value)) {
+    throw new WhitelistEntryError(`Not an IP address, CIDR range or hostname: "${value}"`);
   }
+  return comment ? { value, comment } : { value };
 }
 
-export function ipWhitelistMiddleware(config: IpWhitelistConfig) {
-  const whitelist = config.enabled ? loadWhitelist(config.whitelistFile) : [];
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (!config.enabled) return next();
-    // Normalize IPv4-mapped IPv6
-    const ip = (req.ip || req.connection.remoteAddress || '').replace('::ffff:', '');
-    if (whitelist.includes(ip)) {
-      return next();
+/**
+ * Build the set of allowed addresses. Hostnames are resolved to their
+ * current addresses; ones that don't resolve are skipped with a warning.
+ */
+async function buildBlockList(entries: WhitelistEntry[]): Promise<net.BlockList> {
+  const list = new net.BlockList();
+  const addAddress = (address: string) => list.addAddress(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+  for (const entry of entries) {
+    const kind = entryKind(entry.value);
+    if (kind === 'address') {
+      addAddress(normalizeIp(entry.value));
+    } else if (kind === 'subnet') {
+      const [address, prefix] = entry.value.split('/');
+      list.addSubnet(address, Number(prefix), net.isIPv6(address) ? 'ipv6' : 'ipv4');
+    } else if (kind === 'hostname') {
+      try {
+        const resolved = await dns.promises.lookup(entry.value, { all: true });
+        resolved.forEach(({ address }) => addAddress(normalizeIp(address)));
+      } catch {
+        console.warn(`[IP Whitelist] Could not resolve hostname ${entry.value}`);
+      }
+    }
+  }
+  return list;
+}
+
+function isAllowedBy(list: net.BlockList, ip: string): boolean {
+  const address = normalizeIp(ip);
+  if (net.isIPv4(address)) return list.check(address, 'ipv4');
+  if (net.isIPv6(address)) return list.check(address, 'ipv6');
+  return false;
+}
+
+/**
+ * The IP whitelist file (ip-whitelist.txt): one IP address, CIDR range or
+ * hostname per line, each optionally followed by "# comment". The file is
+ * reloaded whenever it changes, and denied requests are counted per IP.
+ */
+export class IpWhitelist {
+  private filePath: string;
+  private entries: WhitelistEntry[] = [];
+  private blockList = new net.BlockList();
+  private denied = new Map<string, DeniedRequest>();
+  private warnedEmpty = false;
+
+  constructor(whitelistFile: string) {
+    this.filePath = path.resolve(process.cwd(), whitelistFile);
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  getEntries(): WhitelistEntry[] {
+    return this.entries;
+  }
+
+  getDenied(): DeniedRequest[] {
+    return Array.from(this.denied.values()).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  }
+
+  clearDenied() {
+    this.denied.clear();
+  }
+
+  /**
+   * Read the file again. Lines that can't be parsed are skipped with a
+   * warning, so one typo doesn't lock everybody out.
+   */
+  async reload(): Promise<void> {
+    let lines: string[] = [];
+    try {
+      lines = fs.readFileSync(this.filePath, 'utf-8').split('\n');
+    } catch {
+      console.warn(`[IP Whitelist] Could not read ${this.filePath}`);
     }
-    // Only log a single message if the whitelist file is missing or empty
-    if (whitelist.length === 0) {
-      if (!ipWhitelistMiddleware.warned) {
+
+    const entries: WhitelistEntry[] = [];
+    lines.forEach((line, index) => {
+      try {
+        const entry = parseWhitelistLine(line);
+        if (entry) entries.push(entry);
+      } catch (error) {
+        console.warn(`[IP Whitelist] Skipping line ${index + 1}: ${(error as Error).message}`);
+      }
+    });
+
+    this.blockList = await buildBlockList(entries);
+    this.entries = entries;
+    this.warnedEmpty = false;
+    console.log(`[IP Whitelist] Loaded ${entries.length} entries from ${this.filePath}`);
+  }
+
+  /**
+   * Reload the list whenever the file changes on disk.
+   */
+  watch() {
+    fs.watchFile(this.filePath, { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        this.reload().catch(error => console.error('[IP Whitelist] Reload failed:', error));
+      }
+    }).unref();
+  }
+
+  /**
+   * Replace the whole list and write it to the file.
+   */
+  async save(entries: WhitelistEntry[]): Promise<void> {
+    entries.forEach(entry => {
+      if (!entryKind(entry.value)) {
+        throw new WhitelistEntryError(`Not an IP address, CIDR range or hostname: "${entry.value}"`);
+      }
+    });
+    const lines = entries.map(entry => (entry.comment ? `${entry.value}   # ${entry.comment}` : entry.value));
+    const header = '# One IP address, CIDR range or hostname per line; text after # is a comment.';
+    writeFileAtomic(this.filePath, [header, ...lines].join('\n') + '\n');
+    await this.reload();
+  }
+
+  /**
+   * Whether a list would let `ip` in, e.g. to keep an edit from locking out
+   * the person making it.
+   */
+  async wouldAllow(entries: WhitelistEntry[], ip: string): Promise<boolean> {
+    return isAllowedBy(await buildBlockList(entries), ip);
+  }
+
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const ip = normalizeIp(req.ip || req.socket.remoteAddress || '');
+      if (isAllowedBy(this.blockList, ip)) {
+        return next();
+      }
+      if (this.entries.length === 0 && !this.warnedEmpty) {
         console.warn('[IP Whitelist] No allowed IPs found in whitelist file. All requests will be denied.');
-        ipWhitelistMiddleware.warned = true;
+        this.warnedEmpty = true;
       }
+      this.recordDenied(ip, req.originalUrl);
+      res.status(403).send('Forbidden: Your IP is not whitelisted.');
+    };
+  }
+
+  private recordDenied(ip: string, requestPath: string) {
+    const now = new Date().toISOString();
+    const existing = this.denied.get(ip);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      existing.lastPath = requestPath;
+      return;
+    }
+    console.warn(`[IP Whitelist] Denied request from ${ip} (${requestPath})`);
+    if (this.denied.size >= MAX_DENIED_IPS) {
+      const oldest = this.getDenied().pop();
+      if (oldest) this.denied.delete(oldest.ip);
     }
-    // Respond with a simple forbidden message
-    res.status(403).send('Forbidden: Your IP is not whitelisted.');
-  };
+    this.denied.set(ip, { ip, count: 1, firstSeen: now, lastSeen: now, lastPath: requestPath });
+  }
 }
-ipWhitelistMiddleware.warned = false;
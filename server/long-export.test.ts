@@ -0,0 +1,42 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir();
+const { storage } = await import('./storage');
+const { buildLongExport, longExportToCsv } = await import('./long-export');
+
+const user = await storage.createUser({ username: 'alice', password: 'x', email: '' });
+const userId = user.id;
+const first = await storage.createCycle({ userId, startDate: '2024-01-01', endDate: '2024-01-05' });
+const second = await storage.createCycle({ userId, startDate: '2024-01-29', endDate: null });
+await storage.createFlowRecord({ userId, cycleId: first.id, date: '2024-01-01', intensity: 'heavy' });
+await storage.createFlowRecord({ userId, cycleId: second.id, date: '2024-01-29', intensity: 'medium' });
+await storage.createMoodRecord({ userId, date: '2024-01-03', mood: 'bad' });
+await storage.createMoodRecord({ userId, date: '2024-01-10', mood: 'good' });
+await storage.createMoodRecord({ userId, date: '2024-02-05', mood: 'okay' });
+
+test('days are counted in the cycle they fall in, and in none after its end date', async () => {
+  const rows = await buildLongExport(userId, {});
+  const cycleDays = rows.map(({ date, cycle_id, cycle_day }) => ({ date, cycle_id, cycle_day }));
+
+  assert.deepEqual(cycleDays, [
+    { date: '2024-01-01', cycle_id: first.id, cycle_day: 1 },
+    { date: '2024-01-03', cycle_id: first.id, cycle_day: 3 },
+    // After the first cycle ended, as the Today page shows it
+    { date: '2024-01-10', cycle_id: null, cycle_day: null },
+    { date: '2024-01-29', cycle_id: second.id, cycle_day: 1 },
+    // The current cycle has no end date yet
+    { date: '2024-02-05', cycle_id: second.id, cycle_day: 8 }
+  ]);
+  // The phase doesn't depend on the cycle records
+  assert.notEqual(rows[2].phase, null);
+});
+
+test('the CSV leaves missing values empty', async () => {
+  const csv = longExportToCsv(await buildLongExport(userId, { from: '2024-01-10', to: '2024-01-10' }));
+  const [header, row] = csv.split('\r\n');
+
+  assert.equal(header, 'date,cycle_id,cycle_day,phase,metric,value');
+  assert.match(row, /^2024-01-10,,,\w+,mood,good$/);
+});
@@ -0,0 +1,122 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { getDataDrivenCyclePhase, getPeriodStarts } from '@shared/cycle-phase';
+import type { LongExportOptions } from '@shared/schema';
+import { storage } from './storage';
+import { csvCell } from './csv-export';
+
+export const LONG_EXPORT_COLUMNS = ['date', 'cycle_id', 'cycle_day', 'phase', 'metric', 'value'] as const;
+
+/**
+ * One observation. Metrics are flow, mood, cervical_mucus and intimacy, and
+ * symptom:<name> and medication:<name> per symptom and medication. Values
+ * are null where nothing more than the observation itself was recorded: a
+ * symptom without an intensity, intimacy without protection recorded.
+ */
+export interface LongExportRow {
+  date: string;
+  cycle_id: number | null;
+  cycle_day: number | null;
+  // null before the first logged period
+  phase: string | null;
+  metric: string;
+  value: string | number | null;
+}
+
+const dayOf = (date: string) => date.split('T')[0];
+
+/**
+ * The user's logs in long format, oldest first. A day belongs to the cycle
+ * that started last on or before it, unless it is after that cycle's end
+ * date; its phase is worked out as the Today
+ * page does, from the logged periods and the predicted cycle and period
+ * lengths.
+ */
+export async function buildLongExport(userId: number, options: Pick<LongExportOptions, 'from' | 'to'>): Promise<LongExportRow[]> {
+  const [cycles, flowRecords, moodRecords, symptoms, symptomRecords, cervicalMucusRecords, sexRecords, medications, settings] = await Promise.all([
+    storage.getCycles(userId),
+    storage.getFlowRecords(userId),
+    storage.getMoodRecords(userId),
+    storage.getUserSymptoms(userId),
+    storage.getSymptomRecords(userId),
+    storage.getCervicalMucusRecords(userId),
+    storage.getSexRecords(userId),
+    storage.getMedications(userId),
+    storage.getUserSettings(userId)
+  ]);
+
+  const inRange = (day: string) => (!options.from || day >= options.from) && (!options.to || day <= options.to);
+
+  // Day -> [metric, value], in the order the metrics are listed above
+  const observations = new Map<string, Array<[string, string | number | null]>>();
+  const observe = (date: string, metric: string, value: string | number | null) => {
+    const day = dayOf(date);
+    if (!inRange(day)) return;
+    if (!observations.has(day)) observations.set(day, []);
+    observations.get(day)!.push([metric, value]);
+  };
+
+  flowRecords.forEach(record => observe(record.date, 'flow', record.intensity));
+  moodRecords.forEach(record => observe(record.date, 'mood', record.mood));
+  const symptomNames = new Map(symptoms.map(symptom => [symptom.id, symptom.name]));
+  for (const record of symptomRecords) {
+    const name = symptomNames.get(record.symptomId);
+    if (name) observe(record.date, `symptom:${name}`, record.intensity ?? null);
+  }
+  cervicalMucusRecords.forEach(record => observe(record.date, 'cervical_mucus', record.type));
+  for (const medication of medications) {
+    // The value is the number of doses taken that day
+    const doses = new Map<string, number>();
+    medication.logs.forEach(log => doses.set(dayOf(log.date), (doses.get(dayOf(log.date)) ?? 0) + 1));
+    doses.forEach((count, day) => observe(day, `medication:${medication.name}`, count));
+  }
+  sexRecords.forEach(record => {
+    observe(record.date, 'intimacy', record.protected === undefined ? null : record.protected ? 'protected' : 'unprotected');
+  });
+
+  const periodFlow = flowRecords.map(record => ({ date: dayOf(record.date), intensity: record.intensity }));
+  const periodStarts = getPeriodStarts(periodFlow);
+  const predictionSettings = {
+    defaultCycleLength: settings?.defaultCycleLength ?? undefined,
+    defaultPeriodLength: settings?.defaultPeriodLength ?? undefined
+  };
+  const sortedCycles = [...cycles].sort((a, b) => dayOf(a.startDate).localeCompare(dayOf(b.startDate)));
+
+  const rows: LongExportRow[] = [];
+  for (const day of Array.from(observations.keys()).sort()) {
+    const date = parseISO(day);
+    // As on the Today page, days after a cycle's end date are in no cycle
+    const cycle = sortedCycles
+      .filter(candidate => dayOf(candidate.startDate) <= day)
+      .filter(candidate => !candidate.endDate || day <= dayOf(candidate.endDate))
+      .pop();
+    const lastPeriodStart = periodStarts.filter(start => start <= date).pop();
+    const phase = lastPeriodStart
+      ? getDataDrivenCyclePhase(date, periodFlow, predictionSettings, [], lastPeriodStart)
+      : null;
+
+    for (const [metric, value] of observations.get(day)!) {
+      rows.push({
+        date: day,
+        cycle_id: cycle?.id ?? null,
+        cycle_day: cycle ? differenceInCalendarDays(date, parseISO(dayOf(cycle.startDate))) + 1 : null,
+        phase: phase === 'Unknown' ? null : phase,
+        metric,
+        value
+      });
+    }
+  }
+  return rows;
+}
+
+// Empty cells for nulls, so R and pandas read them as missing
+export function longExportToCsv(rows: LongExportRow[]): string {
+  const lines = [LONG_EXPORT_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(LONG_EXPORT_COLUMNS.map(column => csvCell(String(row[column] ?? ''), ',')).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function longExportToNdjson(rows: LongExportRow[]): string {
+  return rows.map(row => JSON.stringify(row) + '\n').join('');
+}
@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+
+// Stored as scrypt:<salt>:<hash>, both hex encoded
+const HASH_PREFIX = 'scrypt:';
+const KEY_LENGTH = 64;
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(HASH_PREFIX);
+}
+
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `${HASH_PREFIX}${salt}:${hash}`;
+}
+
+/**
+ * Check a password against a stored hash. Passwords saved before hashing was
+ * introduced are still compared as plaintext, so the caller can upgrade them.
+ */
+export function verifyPassword(password: string, stored: string): boolean {
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+  const [salt, hash] = stored.slice(HASH_PREFIX.length).split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
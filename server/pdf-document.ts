@@ -0,0 +1,204 @@
+import { deflateSync } from 'zlib';
+
+// A4, in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Red, green, blue from 0 to 1
+export type Rgb = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface ShapeOptions {
+  fill?: Rgb;
+  stroke?: Rgb;
+  lineWidth?: number;
+}
+
+// Advance widths of Helvetica for ASCII 32-126, in 1/1000 of the font size.
+// Bold text is measured with them too; it comes out a little narrower than it is.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters outside Latin-1 that the standard fonts' WinAnsiEncoding has
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+function winAnsi(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI[char]) encoded += String.fromCharCode(WIN_ANSI[char]);
+    else if (code >= 0x20 && code <= 0xff && !(code >= 0x7f && code < 0xa0)) encoded += char;
+    else encoded += char === '\t' ? ' ' : '?';
+  }
+  return encoded;
+}
+
+export function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of winAnsi(text)) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than `width`, at spaces where possible.
+ * Line breaks in the text are kept.
+ */
+export function wrapText(text: string, width: number, size: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word longer than the line is cut
+      let rest = word;
+      while (textWidth(rest, size) > width) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+const color = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`;
+const escapeString = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+/**
+ * A minimal PDF writer: pages of text in the standard Helvetica fonts,
+ * rectangles and lines. Coordinates are in points from the top left of the
+ * page, and text is placed by its baseline.
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private title: string) {}
+
+  addPage(): number {
+    this.pages.push([]);
+    return this.pages.length - 1;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  private draw(operators: string, page = this.pages.length - 1) {
+    if (page < 0) throw new Error('Add a page before drawing');
+    this.pages[page].push(operators);
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}, page?: number) {
+    const size = options.size ?? 10;
+    const width = textWidth(text, size);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    this.draw(
+      `BT /${options.bold ? 'F2' : 'F1'} ${num(size)} Tf ${color(options.color ?? [0, 0, 0])} rg ` +
+      `${num(left)} ${num(PAGE_HEIGHT - y)} Td (${escapeString(winAnsi(text))}) Tj ET`,
+      page
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions) {
+    const path = `${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re`;
+    const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+    this.draw(
+      `q ${options.fill ? `${color(options.fill)} rg ` : ''}${options.stroke ? `${color(options.stroke)} RG ` : ''}` +
+      `${num(options.lineWidth ?? 0.5)} w ${path} ${paint} Q`
+    );
+  }
+
+  polyline(points: Array<[number, number]>, options: { color?: Rgb; lineWidth?: number } = {}) {
+    if (points.length < 2) return;
+    const path = points
+      .map(([x, y], index) => `${num(x)} ${num(PAGE_HEIGHT - y)} ${index === 0 ? 'm' : 'l'}`)
+      .join(' ');
+    this.draw(`q ${color(options.color ?? [0, 0, 0])} RG ${num(options.lineWidth ?? 1)} w 1 J 1 j ${path} S Q`);
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer) => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+      return objects.length;
+    };
+
+    const catalog = add('');
+    const pageTree = add('');
+    const font = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFont = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const creationDate = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    const info = add(`<< /Title (${escapeString(winAnsi(this.title))}) /Producer (CycleSense) /CreationDate (D:${creationDate}Z) >>`);
+
+    const pageIds = this.pages.map(operators => {
+      const content = deflateSync(Buffer.from(operators.join('\n'), 'latin1'));
+      const stream = add(Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1')
+      ]));
+      return add(
+        `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${font} 0 R /F2 ${boldFont} 0 R >> >> /Contents ${stream} 0 R >>`
+      );
+    });
+    objects[catalog - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pageTree} 0 R >>`, 'latin1');
+    objects[pageTree - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1'
+    );
+
+    // The binary comment tells tools the file isn't plain text
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+      offsets.push(offset);
+      chunks.push(chunk);
+      offset += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+      ''
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+}
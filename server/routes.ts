@@ -1,11 +1,11 @@
 console.log("LOADING ROUTES");
 
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { createServer as createHttpsServer } from "https";
+import { storage, openStorage, isStorageOpen } from "./storage";
 import { format, parseISO } from "date-fns";
 import {
-  insertUserSchema,
   insertCycleSchema,
   insertFlowRecordSchema,
   insertMoodRecordSchema,
@@ -14,93 +14,473 @@ import {
   insertDailyNoteSchema,
   insertUserSettingsSchema,
   insertCervicalMucusSchema,
-  insertSexRecordSchema
+  insertSexRecordSchema,
+  insertMedicationSchema,
+  insertApiTokenSchema,
+  csvImportMappingSchema,
+  csvImportProfileSchema,
+  csvExportOptionsSchema,
+  longExportOptionsSchema,
+  clinicianReportOptionsSchema,
+  type ApiToken
 } from "@shared/schema";
 import { z } from "zod";
-import { MedicationStorage } from './medication-storage';
-import { ipWhitelistMiddleware } from './ip-whitelist';
+import { IpWhitelist, WhitelistEntryError } from './ip-whitelist';
+import { uiPasswordMiddleware } from './ui-password';
+import { corsMiddleware } from './cors';
+import { loadTlsCredentials } from './tls';
 import { loadConfig } from './config';
+import { migrateDataSet, DataFormatError } from './data-migrations';
+import { dataEncryption, EncryptionError } from './data-encryption';
+import { setupAuth, requireAuth, requireAdmin } from './auth';
+import { backupManager } from './backup-manager';
+import { BackupArchiveError, checkAgainstManifest, unpackBackupArchive, readArchiveData, selectUserData } from './backup-archive';
+import { appendImport, mergeImport } from './import-merge';
+import { validateImportData, ImportValidationError } from './import-validation';
+import { convertClueExport, ClueImportError } from './clue-import';
+import { convertAppleHealthExport, AppleHealthImportError } from './apple-health-import';
+import { convertCsv, inspectCsv, CsvImportError } from './csv-import';
+import { buildCsvExport } from './csv-export';
+import { buildLongExport, longExportToCsv, longExportToNdjson } from './long-export';
+import { buildClinicianReport } from './clinician-report';
+import { exportUserData, EXPORT_TYPE } from './data-export';
+import { DataIntegrityError } from './write-journal';
+import { generateApiToken, requireSession } from './api-tokens';
+
+const passphraseSchema = z.string().min(8, "Passphrase must be at least 8 characters");
+
+// Backup archives are sent as the raw .json.gz file
+const archiveBody = express.raw({ type: ["application/gzip", "application/x-gzip"], limit: "50mb" });
+// Files from other apps are uploaded as they are, and can be much larger than JSON requests
+const fileBody = express.raw({ type: "application/octet-stream", limit: "50mb" });
+
+// How a merge import treats records that differ from stored ones
+const onConflictSchema = z.enum(["keep", "replace"]).default("keep");
+
+/**
+ * The data of an import request, brought up to the current format and
+ * validated: a JSON export ({ importData } or { data }, with a formatVersion;
+ * importData may also be a whole export document) or a server backup
+ * archive, from which the user's own records are picked.
+ */
+function readImportBody(req: Request) {
+  let formatVersion = req.body?.formatVersion ?? req.body?.importData?.formatVersion ?? 1;
+  let data = req.body?.importData ?? req.body?.data;
+  if (data?.type === EXPORT_TYPE) data = data.data;
+  if (Buffer.isBuffer(req.body)) {
+    const { manifest, files } = unpackBackupArchive(req.body);
+    // The same check a restore makes: a truncated or edited archive is refused
+    const problems = checkAgainstManifest(files, manifest);
+    if (problems.length > 0) {
+      throw new DataIntegrityError("The archive failed verification", problems);
+    }
+    formatVersion = manifest.formatVersion;
+    data = selectUserData(readArchiveData(files), req.user!.username);
+  }
+  if (!data || typeof data !== "object") return null;
+  const migration = migrateDataSet(data, formatVersion);
+  return { data: validateImportData(data), migration };
+}
+
+// The Clue export in an upload, converted and validated
+function readClueUpload(req: Request) {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new ClueImportError("Expected the Clue export file (application/octet-stream)");
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(req.body.toString("utf-8"));
+  } catch {
+    throw new ClueImportError("The file is not valid JSON; choose the .cluedata file from Clue's export");
+  }
+  const conversion = convertClueExport(raw);
+  return { ...conversion, data: validateImportData(conversion.data) };
+}
 
-const medicationStorage = new MedicationStorage();
+// The Apple Health export.xml in an upload, read as it arrives rather than buffered
+async function readAppleHealthUpload(req: Request) {
+  if (!req.is("application/octet-stream") && !req.is("xml")) {
+    throw new AppleHealthImportError("Expected the export.xml file (application/octet-stream)");
+  }
+  const conversion = await convertAppleHealthExport(req);
+  return { ...conversion, data: validateImportData(conversion.data) };
+}
+
+// The text of an uploaded CSV file
+function readCsvText(req: Request) {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new CsvImportError("Expected the CSV file (application/octet-stream)");
+  }
+  return req.body.toString("utf-8");
+}
+
+// An uploaded CSV file converted with the column mapping in ?mapping= (JSON), and validated
+function readCsvUpload(req: Request) {
+  let mapping: unknown;
+  try {
+    mapping = JSON.parse(String(req.query.mapping ?? ""));
+  } catch {
+    throw new CsvImportError("Expected the column mapping as JSON in ?mapping=");
+  }
+  const conversion = convertCsv(readCsvText(req), csvImportMappingSchema.parse(mapping));
+  return { ...conversion, data: validateImportData(conversion.data) };
+}
+
+// Settings for a user who has none yet
+function defaultUserSettings(userId: number) {
+  return {
+    userId,
+    emailNotifications: true,
+    reminderEnabled: true,
+    fertileWindowAlerts: false,
+    weeklySummary: true,
+    language: "English",
+    dataStorage: "local",
+    hiddenSymptoms: [],
+    medications: [],
+    defaultCycleLength: 28,
+    defaultPeriodLength: 5,
+    showPmddSymptoms: true,
+    showIntimateActivity: true
+  };
+}
+
+function sendImportError(res: Response, error: unknown, message: string) {
+  if (error instanceof ImportValidationError) {
+    return res.status(400).json({ success: false, message: error.message, errors: error.report });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ success: false, message: 'Invalid import options', errors: error.format() });
+  }
+  if (error instanceof DataIntegrityError) {
+    return res.status(400).json({ success: false, message: error.message, problems: error.problems });
+  }
+  if (error instanceof DataFormatError || error instanceof BackupArchiveError
+    || error instanceof ClueImportError || error instanceof AppleHealthImportError || error instanceof CsvImportError) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  console.error('[Import] Import failed:', error);
+  res.status(500).json({ success: false, message, error: (error as Error)?.message });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Load main config
   const config = loadConfig();
-  // IP Whitelist Middleware (before any routes)
-  if (config.ipWhitelistEnabled && config.ipWhitelistFile) {
-    app.use(ipWhitelistMiddleware({
-      enabled: config.ipWhitelistEnabled,
-      whitelistFile: config.ipWhitelistFile
+  // IP Whitelist Middleware (before any routes); the file is reloaded when it changes
+  const ipWhitelist = new IpWhitelist(config.ipWhitelistFile || "./ip-whitelist.txt");
+  if (config.ipWhitelistEnabled) {
+    await ipWhitelist.reload();
+    ipWhitelist.watch();
+    app.use(ipWhitelist.middleware());
+  }
+  // CORS for other origins listed in config (answers preflights before any login checks)
+  if (config.corsEnabled) {
+    app.use(corsMiddleware({
+      origins: config.corsOrigins || [],
+      methods: config.corsMethods || [],
+      allowCredentials: !!config.corsAllowCredentials
     }));
   }
+  // Password prompt before the UI and API (before the SPA is served, too)
+  if (config.uiPassword) {
+    app.use(uiPasswordMiddleware({ password: config.uiPassword }));
+  }
 
   // Health check endpoint
   app.get("/api/health", (_req, res) => {
     res.status(200).json({ status: "healthy" });
   });
 
-  // User routes
-  app.post("/api/users", async (req, res) => {
-    try {
-      const userData = insertUserSchema.parse(req.body);
-      const existingUser = await storage.getUserByUsername(userData.username);
-
-      if (existingUser) {
-        return res.status(409).json({ message: "Username already exists" });
-      }
-
-      const user = await storage.createUser(userData);
-      // Create default settings for the user
-      await storage.createUserSettings({
-        userId: user.id,
-        emailNotifications: true,
-        reminderEnabled: true,
-        fertileWindowAlerts: false,
-        weeklySummary: true,
-        language: "English",
-        dataStorage: "local",
-        hiddenSymptoms: [],
-        medications: [],
-        defaultCycleLength: 28,
-        defaultPeriodLength: 5,
-        showPmddSymptoms: true,
-        showIntimateActivity: true
+  // Encryption at rest: status and unlock work while the data is still locked
+  app.get("/api/encryption/status", (_req, res) => {
+    res.json({
+      enabled: dataEncryption.isEnabled(),
+      unlocked: isStorageOpen(),
+      supported: config.storageBackend === "file"
+    });
+  });
+
+  app.post("/api/encryption/unlock", (req, res) => {
+    try {
+      const passphrase = z.string().parse(req.body.passphrase);
+      if (!dataEncryption.isEnabled()) {
+        return res.status(400).json({ message: "Encryption is not enabled" });
+      }
+      if (!isStorageOpen()) {
+        dataEncryption.unlock(passphrase);
+        openStorage();
+      }
+      res.json({ unlocked: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid passphrase", errors: error.format() });
+      }
+      if (error instanceof EncryptionError) {
+        return res.status(401).json({ message: error.message });
+      }
+      console.error("[Encryption] Failed to open storage after unlock:", error);
+      res.status(500).json({ message: "Failed to open data: " + (error as Error).message });
+    }
+  });
+
+  // Everything else needs the data
+  app.use("/api", (req, res, next) => {
+    if (isStorageOpen() || req.path === "/health") {
+      return next();
+    }
+    res.status(423).json({ message: "Data is locked", locked: true });
+  });
+
+  // Login, logout and registration; every route after this needs a signed-in user
+  setupAuth(app);
+  app.use("/api", requireAuth);
+  // API tokens can read and write data, but not manage tokens, encryption, backups or the server
+  app.use(["/api/tokens", "/api/admin", "/api/encryption", "/api/backups"], requireSession);
+
+  // Personal API tokens; the hash never leaves the server
+  const toPublicToken = ({ tokenHash, ...token }: ApiToken) => token;
+
+  app.get("/api/tokens", async (req, res) => {
+    const tokens = await storage.getApiTokens(req.user!.id);
+    res.json(tokens.map(toPublicToken));
+  });
+
+  app.post("/api/tokens", async (req, res) => {
+    try {
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const tokenData = insertApiTokenSchema.parse({
+        name: req.body.name,
+        scope: req.body.scope,
+        userId: req.user!.id,
+        tokenHash,
+        tokenPrefix,
+        createdAt: new Date().toISOString(),
+        lastUsedAt: null
       });
+      const apiToken = await storage.createApiToken(tokenData);
+      // The only time the token itself is shown
+      res.status(201).json({ ...toPublicToken(apiToken), token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid token data", errors: error.format() });
+      }
+      res.status(500).json({ message: "Failed to create token" });
+    }
+  });
+
+  app.delete("/api/tokens/:id", async (req, res) => {
+    const deleted = await storage.deleteApiToken(req.user!.id, Number(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ message: "Token not found" });
+    }
+    res.status(204).end();
+  });
+
+  // IP whitelist administration
+  const whitelistEntrySchema = z.object({
+    value: z.string().trim().min(1),
+    comment: z.string().trim().optional()
+  });
+
+  app.get("/api/admin/ip-whitelist", requireAdmin, async (req, res) => {
+    if (!config.ipWhitelistEnabled) {
+      // Not loaded at startup; read the file so it can still be edited
+      await ipWhitelist.reload();
+    }
+    res.json({
+      enabled: !!config.ipWhitelistEnabled,
+      file: ipWhitelist.getFilePath(),
+      entries: ipWhitelist.getEntries(),
+      denied: ipWhitelist.getDenied(),
+      yourIp: req.ip
+    });
+  });
+
+  app.put("/api/admin/ip-whitelist", requireAdmin, async (req, res) => {
+    try {
+      const entries = z.array(whitelistEntrySchema).parse(req.body.entries);
+      const ip = req.ip || req.socket.remoteAddress || "";
+      if (config.ipWhitelistEnabled && !(await ipWhitelist.wouldAllow(entries, ip))) {
+        return res.status(400).json({ message: `This list would lock out your own address (${ip})` });
+      }
+      await ipWhitelist.save(entries);
+      res.json({ entries: ipWhitelist.getEntries() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid whitelist", errors: error.format() });
+      }
+      if (error instanceof WhitelistEntryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("[IP Whitelist] Failed to save whitelist:", error);
+      res.status(500).json({ message: "Failed to save whitelist" });
+    }
+  });
+
+  app.delete("/api/admin/ip-whitelist/denied", requireAdmin, (_req, res) => {
+    ipWhitelist.clearDenied();
+    res.status(204).end();
+  });
+
+  // Server backups hold everyone's data, so only the administrator manages them
+  app.use("/api/backups", requireAdmin, (_req, res, next) => {
+    if (config.storageBackend !== "file") {
+      return res.status(400).json({ message: "Backups are only available with file storage" });
+    }
+    next();
+  });
+
+  app.get("/api/backups", (_req, res) => {
+    res.json(backupManager.listBackups());
+  });
+
+  app.post("/api/backups", (_req, res) => {
+    // Get pending changes onto disk so the backup has them
+    storage.flush();
+    const name = backupManager.createBackup(true);
+    if (!name) {
+      return res.status(500).json({ message: "Failed to create backup" });
+    }
+    res.status(201).json(backupManager.listBackups().find(backup => backup.name === name));
+  });
 
-      res.status(201).json(user);
+  app.get("/api/backups/:name/verify", (req, res) => {
+    const verification = backupManager.verifyBackup(req.params.name);
+    if (!verification) {
+      return res.status(404).json({ message: "Backup not found" });
+    }
+    res.json(verification);
+  });
+
+  app.post("/api/backups/:name/restore", (req, res) => {
+    if (!backupManager.listBackups().some(backup => backup.name === req.params.name)) {
+      return res.status(404).json({ message: "Backup not found" });
+    }
+    try {
+      // Only needed for backups encrypted with a key this server doesn't have
+      const passphrase = z.string().optional().parse(req.body?.passphrase);
+      // Get pending changes onto disk: they go into the backup made before restoring
+      storage.flush();
+      if (!backupManager.restoreBackup(req.params.name, passphrase)) {
+        return res.status(500).json({ message: "Failed to restore backup" });
+      }
+      storage.reload();
+      res.json({ restored: true });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid user data", errors: error.format() });
+        return res.status(400).json({ message: "Invalid passphrase", errors: error.format() });
+      }
+      if (error instanceof EncryptionError) {
+        return res.status(401).json({ message: error.message });
+      }
+      if (error instanceof DataIntegrityError) {
+        return res.status(422).json({ message: "The backup is damaged and was not restored", problems: error.problems });
       }
-      res.status(500).json({ message: "Failed to create user" });
+      console.error("[Backups] Failed to restore backup:", error);
+      res.status(500).json({ message: "Failed to restore backup" });
     }
   });
 
-  // User login - simplified for demo
-  app.post("/api/login", async (req, res) => {
+  app.delete("/api/backups/:name", (req, res) => {
+    if (!backupManager.deleteBackup(req.params.name)) {
+      return res.status(404).json({ message: "Backup not found" });
+    }
+    res.status(204).end();
+  });
+
+  app.post("/api/backups/upload", archiveBody, (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: "Expected a backup archive (application/gzip)" });
+    }
     try {
-      const { username, password } = req.body;
-      const user = await storage.getUserByUsername(username);
+      const name = backupManager.importBackupArchive(req.body);
+      res.status(201).json(backupManager.listBackups().find(backup => backup.name === name));
+    } catch (error) {
+      if (error instanceof BackupArchiveError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof DataIntegrityError) {
+        return res.status(422).json({ message: "The archive is damaged and was not added", problems: error.problems });
+      }
+      console.error("[Backups] Failed to store uploaded backup:", error);
+      res.status(500).json({ message: "Failed to store backup" });
+    }
+  });
+
+  app.get("/api/backups/:name/download", (req, res) => {
+    try {
+      const archive = backupManager.exportBackupArchive(req.params.name);
+      if (!archive) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      // Older directory backups get the extension too
+      const filename = req.params.name.replace(/\.json\.gz$/, "") + ".json.gz";
+      res.setHeader("Content-Type", "application/gzip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(archive);
+    } catch (error) {
+      console.error("[Backups] Failed to read backup:", error);
+      res.status(500).json({ message: "Failed to read backup" });
+    }
+  });
 
-      if (!user || user.password !== password) {
-        return res.status(401).json({ message: "Invalid credentials" });
+  // Routes that still carry a :userId in the path may only address the signed-in user
+  app.param("userId", (req, res, next, value) => {
+    if (Number(value) !== req.user!.id) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  });
+
+  // Encryption covers every account's data, so only the administrator may turn it on or re-key it
+  app.post("/api/encryption/enable", requireAdmin, (req, res) => {
+    try {
+      const passphrase = passphraseSchema.parse(req.body.passphrase);
+      if (config.storageBackend !== "file") {
+        return res.status(400).json({ message: "Encryption at rest is only supported with file storage" });
+      }
+      // Get pending changes onto disk so they are encrypted along with everything else
+      storage.flush();
+      dataEncryption.enable(passphrase);
+      res.json({ enabled: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid passphrase", errors: error.format() });
+      }
+      if (error instanceof EncryptionError) {
+        return res.status(400).json({ message: error.message });
       }
+      console.error("[Encryption] Failed to enable encryption:", error);
+      res.status(500).json({ message: "Failed to enable encryption" });
+    }
+  });
 
-      // In a real app, you'd set up a session here
-      // For this demo, we'll just return the user
-      res.json({ id: user.id, username: user.username, email: user.email });
+  app.post("/api/encryption/change-passphrase", requireAdmin, (req, res) => {
+    try {
+      const currentPassphrase = z.string().parse(req.body.currentPassphrase);
+      const newPassphrase = passphraseSchema.parse(req.body.newPassphrase);
+      if (!dataEncryption.isEnabled()) {
+        return res.status(400).json({ message: "Encryption is not enabled" });
+      }
+      storage.flush();
+      dataEncryption.changePassphrase(currentPassphrase, newPassphrase);
+      res.json({ changed: true });
     } catch (error) {
-      res.status(500).json({ message: "Login failed" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid passphrase", errors: error.format() });
+      }
+      if (error instanceof EncryptionError) {
+        return res.status(401).json({ message: error.message });
+      }
+      console.error("[Encryption] Failed to change passphrase:", error);
+      res.status(500).json({ message: "Failed to change passphrase" });
     }
   });
 
   // Cycle routes
   app.get("/api/cycles", async (req, res) => {
     try {
-      const userId = Number(req.query.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       const cycles = await storage.getCycles(userId);
       res.json(cycles);
@@ -112,10 +492,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/cycles/current", async (req, res) => {
     try {
-      const userId = Number(req.query.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       const cycle = await storage.getCurrentCycle(userId);
       res.json(cycle || null);
@@ -127,7 +504,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/cycles", async (req, res) => {
     try {
-      const cycleData = insertCycleSchema.parse(req.body);
+      const cycleData = insertCycleSchema.parse({ ...req.body, userId: req.user!.id });
       
       // Ensure we're using the correct date format to prevent timezone issues
       if (cycleData.startDate) {
@@ -159,8 +536,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.body.endDate = format(dateObj, 'yyyy-MM-dd');
       }
 
+      const existingCycle = await storage.getCycle(id);
+      if (!existingCycle || existingCycle.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Cycle not found" });
+      }
+
       console.log("Updating cycle with data:", req.body);
-      const cycle = await storage.updateCycle(id, req.body);
+      const cycle = await storage.updateCycle(id, { ...req.body, userId: req.user!.id });
       if (!cycle) {
         return res.status(404).json({ message: "Cycle not found" });
       }
@@ -181,7 +563,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get the cycle first to check if it exists
       const cycle = await storage.getCycle(id);
-      if (!cycle) {
+      if (!cycle || cycle.userId !== req.user!.id) {
         return res.status(404).json({ message: "Cycle not found" });
       }
       
@@ -201,17 +583,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Flow record routes
   app.get("/api/flow-records", async (req, res) => {
     try {
-      // Handle case when userId is not provided
-      if (!req.query.userId) {
-        // Return empty array instead of error to prevent UI freezing
-        return res.json([]);
-      }
-
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        // Return empty array instead of error to prevent UI freezing
-        return res.json([]);
-      }
+      const userId = req.user!.id;
 
       let startDate: Date | undefined;
       let endDate: Date | undefined;
@@ -235,7 +607,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/flow-records", async (req, res) => {
     try {
-      const recordData = insertFlowRecordSchema.parse(req.body);
+      const recordData = insertFlowRecordSchema.parse({ ...req.body, userId: req.user!.id });
 
       // Check if record already exists for this date
       const existingRecord = await storage.getFlowRecord(recordData.userId, parseISO(recordData.date));
@@ -265,7 +637,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const existingRecord = await storage.getFlowRecordById(id);
-      if (!existingRecord) {
+      if (!existingRecord || existingRecord.userId !== req.user!.id) {
         return res.status(404).json({ message: "Flow record not found" });
       }
 
@@ -283,10 +655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mood record routes
   app.get("/api/mood-records", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       let startDate: Date | undefined;
       let endDate: Date | undefined;
@@ -308,10 +677,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/mood-records/date", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       if (!req.query.date) {
         return res.status(400).json({ message: "Date is required" });
@@ -333,7 +699,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/mood-records", async (req, res) => {
     try {
       // Check if a mood record already exists for this date
-      const userId = req.body.userId;
+      const userId = req.user!.id;
       const date = parseISO(req.body.date);
 
       console.log(`[MOOD-POST] Creating/updating mood for user=${userId}, date=${req.body.date}, mood=${req.body.mood}`);
@@ -352,7 +718,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Create a new record
-      const record = await storage.createMoodRecord(req.body);
+      const record = await storage.createMoodRecord({ ...req.body, userId });
       console.log(`[MOOD-POST] Created new record:`, record);
 
       res.status(201).json(record);
@@ -375,10 +741,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/user-symptoms", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       const symptoms = await storage.getUserSymptoms(userId);
       // console.log("SYMPTOMS API /api/user-symptoms:", symptoms.length, symptoms.map(s => s.name));
@@ -390,7 +753,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/symptoms", async (req, res) => {
     try {
-      const symptomData = insertSymptomSchema.parse(req.body);
+      const symptomData = insertSymptomSchema.parse({ ...req.body, userId: req.user!.id });
       const symptom = await storage.createSymptom(symptomData);
       res.status(201).json(symptom);
     } catch (error) {
@@ -410,7 +773,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Only allow deletion of custom symptoms (not default ones)
       const symptom = await storage.getSymptomById(id);
-      if (!symptom) {
+      if (!symptom || (!symptom.isDefault && symptom.userId !== req.user!.id)) {
         return res.status(404).json({ message: "Symptom not found" });
       }
 
@@ -435,17 +798,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Symptom record routes
   app.get("/api/symptom-records", async (req, res) => {
     try {
-      // Handle case when userId is not provided
-      if (!req.query.userId) {
-        console.log("[SYMPTOM-GET] No userId provided");
-        return res.json([]);
-      }
-
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        console.log("[SYMPTOM-GET] Invalid userId:", req.query.userId);
-        return res.json([]);
-      }
+      const userId = req.user!.id;
 
       let startDate: Date | undefined;
       let endDate: Date | undefined;
@@ -470,11 +823,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/symptom-records/date", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        console.log("[SYMPTOM-DATE-GET] Invalid userId:", req.query.userId);
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       if (!req.query.date) {
         console.log("[SYMPTOM-DATE-GET] No date provided");
@@ -502,7 +851,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/symptom-records", async (req, res) => {
     try {
-      const recordData = insertSymptomRecordSchema.parse(req.body);
+      const recordData = insertSymptomRecordSchema.parse({ ...req.body, userId: req.user!.id });
       const record = await storage.createSymptomRecord(recordData);
       res.status(201).json(record);
     } catch (error) {
@@ -520,6 +869,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid record ID" });
       }
 
+      const records = await storage.getSymptomRecords(req.user!.id);
+      if (!records.some(record => record.id === id)) {
+        return res.status(404).json({ message: "Record not found" });
+      }
+
       const success = await storage.deleteSymptomRecord(id);
       if (!success) {
         return res.status(404).json({ message: "Record not found" });
@@ -538,7 +892,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid record ID" });
       }
-      const updated = await storage.updateSymptomRecord(id, req.body);
+      const records = await storage.getSymptomRecords(req.user!.id);
+      if (!records.some(record => record.id === id)) {
+        return res.status(404).json({ message: "Record not found" });
+      }
+      const updated = await storage.updateSymptomRecord(id, { ...req.body, userId: req.user!.id });
       if (!updated) {
         return res.status(404).json({ message: "Record not found" });
       }
@@ -552,10 +910,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Daily notes routes
   app.get("/api/daily-notes", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       let startDate: Date | undefined;
       let endDate: Date | undefined;
@@ -577,10 +932,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/daily-notes/date", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       if (!req.query.date) {
         return res.status(400).json({ message: "Date is required" });
@@ -602,7 +954,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/daily-notes", async (req, res) => {
     try {
-      const noteData = insertDailyNoteSchema.parse(req.body);
+      const noteData = insertDailyNoteSchema.parse({ ...req.body, userId: req.user!.id });
 
       // Check if note already exists for this date
       const existingNote = await storage.getDailyNote(noteData.userId, parseISO(noteData.date));
@@ -627,29 +979,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User settings routes
   app.get("/api/user-settings/:userId", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       let settings = await storage.getUserSettings(userId);
       if (!settings) {
-        // Create default settings for user
-        settings = await storage.createUserSettings({
-          userId,
-          emailNotifications: true,
-          reminderEnabled: true,
-          fertileWindowAlerts: false,
-          weeklySummary: true,
-          language: "English",
-          dataStorage: "local",
-          hiddenSymptoms: [],
-          medications: [],
-          defaultCycleLength: 28,
-          defaultPeriodLength: 5,
-          showPmddSymptoms: true,
-          showIntimateActivity: true
-        });
+        settings = await storage.createUserSettings(defaultUserSettings(userId));
       }
 
       res.json(settings);
@@ -661,14 +995,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/user-settings/:userId", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       const updateData = req.body;
       const updatedSettings = await storage.updateUserSettings(userId, {
         ...updateData,
+        userId,
         hiddenSymptoms: updateData.hiddenSymptoms || [],
         medications: updateData.medications || []
       });
@@ -686,11 +1018,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Reset all user data (for testing)
   app.post("/api/user-data/reset", async (req, res) => {
     try {
-      const userId = parseInt((req.body.userId as string) || req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
-      await storage.resetUserData(userId);
+      await storage.resetUserData(req.user!.id);
       res.status(204).end();
     } catch (error) {
       console.error("[RESET] Error resetting user data:", error);
@@ -701,16 +1029,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Support reset from client/reset button
   app.post("/api/reset-data", async (req, res) => {
     try {
-      const { userId } = req.body;
-
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
-
-      // Delete all user-related data
-      await storage.resetUserData(userId);
-      // Also clear medication records for this user
-      medicationStorage.resetUserMedications(userId);
+      // Delete all user-related data (including medications)
+      await storage.resetUserData(req.user!.id);
 
       res.json({ message: "User data has been reset successfully" });
     } catch (error) {
@@ -721,11 +1041,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Analytics routes
   app.get("/api/analytics/cycle-length/:userId", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        // Return default value instead of error to prevent UI freezing
-        return res.json({ averageCycleLength: 28 });
-      }
+      const userId = req.user!.id;
 
       const averageCycleLength = await storage.getAverageCycleLength(userId);
       if (averageCycleLength === undefined) {
@@ -743,11 +1059,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/analytics/period-length/:userId", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        // Return default value instead of error to prevent UI freezing
-        return res.json({ averagePeriodLength: 5 });
-      }
+      const userId = req.user!.id;
 
       const averagePeriodLength = await storage.getAveragePeriodLength(userId);
       if (averagePeriodLength === undefined) {
@@ -765,10 +1077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/analytics/top-symptoms/:userId", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
 
       const limit = parseInt(req.query.limit as string) || 5;
       const topSymptoms = await storage.getTopSymptoms(userId, limit);
@@ -779,117 +1088,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export data route
+  // PDF report for a doctor's appointment, built from the same logs as the analytics above
+  app.get("/api/analytics/report/:userId", async (req, res) => {
+    try {
+      const options = clinicianReportOptionsSchema.parse(req.query);
+      const pdf = await buildClinicianReport(req.user!.id, options);
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename=cyclesense_report_${options.from}_${options.to}.pdf`);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report options", errors: error.format() });
+      }
+      console.error("[Report] Clinician report failed:", error);
+      res.status(500).json({ message: "Failed to create report" });
+    }
+  });
+
+  // Logs as CSV; the query picks the date range, columns and delimiter (see csvExportOptionsSchema)
   app.get("/api/export/:userId", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
-
-      // Fetch all user data
-      const [cycles, flowRecords, moodRecords, symptoms, symptomRecords, notes, cervicalMucusRecords, sexRecords, medicationRecords] = await Promise.all([
-        storage.getCycles(userId),
-        storage.getFlowRecords(userId),
-        storage.getMoodRecords(userId),
-        storage.getUserSymptoms(userId),
-        storage.getSymptomRecords(userId),
-        storage.getDailyNotes(userId),
-        storage.getCervicalMucusRecords ? storage.getCervicalMucusRecords(userId) : Promise.resolve([]),
-        storage.getSexRecords ? storage.getSexRecords(userId) : Promise.resolve([]),
-        (typeof medicationStorage !== 'undefined' && medicationStorage.getAll) ? Promise.resolve(medicationStorage.getAll(userId)) : Promise.resolve([])
-      ]);
-
-      // Prepare CSV content
-      let csvContent = "Date,CycleDay,Flow,Mood,Symptoms,CervicalMucus,Medications,Intimacy,Notes\n";
-
-      // Create a map of dates to record data
-      const datesToProcess = new Set<string>();
-
-      // Add all dates from various records
-      flowRecords.forEach((record: any) => datesToProcess.add(record.date.toString().split('T')[0]));
-      moodRecords.forEach((record: any) => datesToProcess.add(record.date.toString().split('T')[0]));
-      symptomRecords.forEach((record: any) => datesToProcess.add(record.date.toString().split('T')[0]));
-      notes.forEach((note: any) => datesToProcess.add(note.date.toString().split('T')[0]));
-
-      // Process each date
-      const sortedDates = Array.from(datesToProcess).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
-
-      for (const dateStr of sortedDates) {
-        const date = new Date(dateStr);
-
-        // Format date for CSV
-        const formattedDate = format(date, "yyyy-MM-dd");
-
-        // Find cycle day
-        let cycleDay = "";
-        for (const cycle of cycles) {
-          const cycleStart = new Date(cycle.startDate);
-          const cycleEnd = cycle.endDate ? new Date(cycle.endDate) : new Date();
-
-          if (date >= cycleStart && date <= cycleEnd) {
-            const daysDiff = Math.floor((date.getTime() - cycleStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-            cycleDay = daysDiff.toString();
-            break;
-          }
-        }
-
-        // Find flow
-        const flowRecord = flowRecords.find((record: any) => record.date.toString().split('T')[0] === dateStr);
-        const flow = flowRecord ? flowRecord.intensity : "";
-
-        // Find mood
-        const moodRecord = moodRecords.find((record: any) => record.date.toString().split('T')[0] === dateStr);
-        const mood = moodRecord ? moodRecord.mood : "";
-
-        // Find symptoms
-        const dateSymptomRecords = symptomRecords.filter((record: any) => record.date.toString().split('T')[0] === dateStr);
-        let symptomsList = "";
-
-        if (dateSymptomRecords.length > 0) {
-          const symptomNames: string[] = [];
-
-          for (const record of dateSymptomRecords) {
-            const symptom = symptoms.find((s: any) => s.id === record.symptomId);
-            if (symptom) {
-              symptomNames.push(symptom.name);
-            }
-          }
-
-          symptomsList = symptomNames.join(", ");
-        }
-
-        // Find cervical mucus
-        const mucusRecord = cervicalMucusRecords.find((record: any) => record.date.toString().split('T')[0] === dateStr);
-        const cervicalMucus = mucusRecord ? mucusRecord.type : "";
-
-        // Find medications (may be multiple per day)
-        let medicationsList = "";
-        if (Array.isArray(medicationRecords)) {
-          const medsForDate = medicationRecords.filter((record: any) => record.date && record.date.toString().split('T')[0] === dateStr);
-          if (medsForDate.length > 0) {
-            medicationsList = medsForDate.map((med: any) => med.name + (med.dose ? ` (${med.dose})` : "")).join("; ");
-          }
-        }
-
-        // Find intimacy/sex record
-        const sexRecord = sexRecords.find((record: any) => record.date && record.date.toString().split('T')[0] === dateStr);
-        const intimacy = sexRecord ? "Yes" : "";
-
-        // Find notes
-        const dailyNote = notes.find((note: any) => note.date.toString().split('T')[0] === dateStr);
-        const noteText = dailyNote ? dailyNote.notes.replace(/\n/g, " ").replace(/,/g, ";") : "";
-
-        // Add row to CSV
-        csvContent += `${formattedDate},${cycleDay},${flow},${mood},${symptomsList},${cervicalMucus},${medicationsList},${intimacy},"${noteText}"\n`;
-      }
-
-      // Set response headers for CSV download
-      res.setHeader("Content-Type", "text/csv");
+      const options = csvExportOptionsSchema.parse(req.query);
+      const csv = await buildCsvExport(req.user!.id, options);
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
       res.setHeader("Content-Disposition", `attachment; filename=cycle_data_export_${format(new Date(), "yyyy-MM-dd")}.csv`);
+      res.send(csv);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export options", errors: error.format() });
+      }
+      console.error("[Export] CSV export failed:", error);
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
 
-      res.send(csvContent);
+  // One row per observation (date, cycle, phase, metric, value), for R or pandas
+  app.get("/api/export/:userId/long", async (req, res) => {
+    try {
+      const options = longExportOptionsSchema.parse(req.query);
+      const rows = await buildLongExport(req.user!.id, options);
+      const fileName = `cyclesense_long_${format(new Date(), "yyyy-MM-dd")}.${options.format}`;
+
+      res.setHeader("Content-Type", options.format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=${fileName}`);
+      res.send(options.format === "csv" ? longExportToCsv(rows) : longExportToNdjson(rows));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export options", errors: error.format() });
+      }
+      console.error("[Export] Long-format export failed:", error);
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  // Everything the user has, as one JSON document that imports back without loss
+  app.get("/api/export/:userId/json", async (req, res) => {
+    try {
+      const document = await exportUserData(req.user!.id);
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename=cyclesense_export_${format(new Date(), "yyyy-MM-dd")}.json`);
+      res.send(JSON.stringify(document, null, 2));
     } catch (error) {
+      console.error("[Export] JSON export failed:", error);
       res.status(500).json({ message: "Failed to export data" });
     }
   });
@@ -897,10 +1159,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Email export route
   app.post("/api/export/email", async (req, res) => {
     try {
-      const { userId, email } = req.body;
+      const { email } = req.body;
 
-      if (!userId || !email) {
-        return res.status(400).json({ message: "User ID and email are required" });
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
       }
 
       // In a real app, this would generate the CSV and email it
@@ -912,163 +1174,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Import backup endpoint (overwrite all user data)
-  app.post('/api/import', async (req, res) => {
+  // Preview of a merge import: what would be added, what is already there and what conflicts
+  app.post('/api/import/preview', archiveBody, async (req, res) => {
     try {
-      const { userId, importData } = req.body;
-      if (!userId || !importData) {
+      const imported = readImportBody(req);
+      if (!imported) {
         return res.status(400).json({ success: false, message: 'Invalid import format' });
       }
+      const resolution = onConflictSchema.parse(req.query.onConflict);
+      const report = await mergeImport(req.user!.id, imported.data, { dryRun: true, resolution });
+      res.json({ success: true, migration: imported.migration, ...report });
+    } catch (error) {
+      sendImportError(res, error, 'Failed to preview import');
+    }
+  });
 
-      // Reset all user data first (wipe logs, cycles, symptoms, etc)
-      await storage.resetUserData(userId);
-      medicationStorage.resetUserMedications(userId);
+  // Clue exports are always merged: days already logged here are kept unless onConflict=replace
+  app.post('/api/import/clue/preview', fileBody, async (req, res) => {
+    try {
+      const { data, mapping, days } = readClueUpload(req);
+      const report = await mergeImport(req.user!.id, data, { dryRun: true });
+      res.json({ success: true, days, mapping, ...report });
+    } catch (error) {
+      sendImportError(res, error, 'Failed to read Clue export');
+    }
+  });
 
-      // Import each data set if present
-      if (importData.cycles) {
-        await Promise.all(importData.cycles.map((cycle: any) => storage.createCycle(cycle)));
-      }
-      if (importData.flowRecords) {
-        await Promise.all(importData.flowRecords.map((rec: any) => storage.createFlowRecord(rec)));
-      }
-      if (importData.moodRecords) {
-        await Promise.all(importData.moodRecords.map((rec: any) => storage.createMoodRecord(rec)));
-      }
-      if (importData.symptoms) {
-        await Promise.all(importData.symptoms.map((sym: any) => storage.createSymptom(sym)));
-      }
-      if (importData.symptomRecords) {
-        await Promise.all(importData.symptomRecords.map((rec: any) => storage.createSymptomRecord(rec)));
-      }
-      if (importData.dailyNotes) {
-        await Promise.all(importData.dailyNotes.map((note: any) => storage.createDailyNote(note)));
-      }
-      if (importData.userSettings) {
-        await storage.createUserSettings(importData.userSettings);
+  app.post('/api/import/clue', fileBody, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { data, mapping, days } = readClueUpload(req);
+      const resolution = onConflictSchema.parse(req.query.onConflict);
+      const report = await storage.transaction(() => mergeImport(userId, data, { resolution }));
+      res.json({ success: true, days, mapping, ...report });
+    } catch (error) {
+      sendImportError(res, error, 'Failed to import Clue export');
+    }
+  });
+
+  // Apple Health exports are streamed (they can be gigabytes) and merged like Clue exports
+  app.post('/api/import/apple-health/preview', async (req, res) => {
+    try {
+      const { data, mapping, days } = await readAppleHealthUpload(req);
+      const report = await mergeImport(req.user!.id, data, { dryRun: true });
+      res.json({ success: true, days, mapping, ...report });
+    } catch (error) {
+      sendImportError(res, error, 'Failed to read Apple Health export');
+    }
+  });
+
+  app.post('/api/import/apple-health', async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const resolution = onConflictSchema.parse(req.query.onConflict);
+      const { data, mapping, days } = await readAppleHealthUpload(req);
+      const report = await storage.transaction(() => mergeImport(userId, data, { resolution }));
+      res.json({ success: true, days, mapping, ...report });
+    } catch (error) {
+      sendImportError(res, error, 'Failed to import Apple Health export');
+    }
+  });
+
+  // CSV files are imported in steps: inspect the columns, map them, then preview and merge
+  app.post('/api/import/csv/inspect', fileBody, async (req, res) => {
+    try {
+      const symptoms = await storage.getUserSymptoms(req.user!.id);
+      res.json(inspectCsv(readCsvText(req), symptoms.map(symptom => symptom.name)));
+    } catch (error) {
+      sendImportError(res, error, 'Failed to read CSV file');
+    }
+  });
+
+  app.post('/api/import/csv/preview', fileBody, async (req, res) => {
+    try {
+      const { data, mapping, days } = readCsvUpload(req);
+      const report = await mergeImport(req.user!.id, data, { dryRun: true });
+      res.json({ success: true, days, mapping, ...report });
+    } catch (error) {
+      sendImportError(res, error, 'Failed to read CSV file');
+    }
+  });
+
+  app.post('/api/import/csv', fileBody, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { data, mapping, days } = readCsvUpload(req);
+      const resolution = onConflictSchema.parse(req.query.onConflict);
+      const report = await storage.transaction(() => mergeImport(userId, data, { resolution }));
+      res.json({ success: true, days, mapping, ...report });
+    } catch (error) {
+      sendImportError(res, error, 'Failed to import CSV file');
+    }
+  });
+
+  // Column mappings saved by name, kept in the user's settings
+  app.get('/api/import/csv/profiles', async (req, res) => {
+    try {
+      const settings = await storage.getUserSettings(req.user!.id);
+      res.json(settings?.csvImportProfiles ?? []);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to load column mappings' });
+    }
+  });
+
+  app.put('/api/import/csv/profiles/:name', async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const profile = csvImportProfileSchema.parse({ ...req.body, name: req.params.name });
+      const settings = await storage.getUserSettings(userId) ?? await storage.createUserSettings(defaultUserSettings(userId));
+      const profiles = (settings.csvImportProfiles ?? []).filter(saved => saved.name !== profile.name);
+      const updated = await storage.updateUserSettings(userId, { csvImportProfiles: [...profiles, profile] });
+      res.json(updated?.csvImportProfiles ?? []);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid column mapping', errors: error.format() });
       }
-      // Import medications if present
-      if (importData.medications) {
-        medicationStorage.bulkImportMedications(userId, importData.medications);
+      res.status(500).json({ message: 'Failed to save column mapping' });
+    }
+  });
+
+  app.delete('/api/import/csv/profiles/:name', async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const profiles = (await storage.getUserSettings(userId))?.csvImportProfiles ?? [];
+      if (!profiles.some(profile => profile.name === req.params.name)) {
+        return res.status(404).json({ message: 'Column mapping not found' });
       }
-      // Import sex records if present
-      if (importData.sexRecords) {
-        await Promise.all(importData.sexRecords.map((rec: any) => storage.createSexRecord(rec)));
+      await storage.updateUserSettings(userId, { csvImportProfiles: profiles.filter(profile => profile.name !== req.params.name) });
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete column mapping' });
+    }
+  });
+
+  // Import backup endpoint (overwrite all user data, or merge with it when mode is "merge")
+  app.post('/api/import', async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const imported = req.body.importData ? readImportBody(req) : null;
+      if (!imported) {
+        return res.status(400).json({ success: false, message: 'Invalid import format' });
       }
-      // Some backups may use snake_case
-      if (importData.sex_records) {
-        await Promise.all(importData.sex_records.map((rec: any) => storage.createSexRecord(rec)));
+      const { data, migration } = imported;
+
+      if (req.body.mode === 'merge') {
+        const resolution = onConflictSchema.parse(req.body.onConflict);
+        const report = await storage.transaction(() => mergeImport(userId, data, { resolution }));
+        return res.json({ success: true, migration, ...report });
       }
 
-      res.json({ success: true });
+      // Reset all user data first (wipe logs, cycles, symptoms, medications, etc), then
+      // merge into the empty account, which links symptom records and flow records to
+      // the symptoms and cycles they had in the file even though their ids change
+      const report = await storage.transaction(async () => {
+        await storage.resetUserData(userId);
+        return mergeImport(userId, data, { resolution: 'replace' });
+      });
+      res.json({ success: true, migration, ...report });
     } catch (error) {
-      res.status(500).json({ success: false, message: 'Failed to import backup' });
+      sendImportError(res, error, 'Failed to import backup');
     }
   });
 
-  // Import backup endpoint
-  app.post('/api/import-backup', async (req, res) => {
+  // Import backup endpoint: appends the records, or merges them with ?mode=merge
+  // Takes an exported JSON file, or a server backup archive from which this user's records are picked
+  app.post('/api/import-backup', archiveBody, async (req, res) => {
     try {
-      const backup = req.body;
-      if (!backup || !backup.data) {
+      const userId = req.user!.id;
+      const imported = readImportBody(req);
+      if (!imported) {
         return res.status(400).json({ success: false, message: 'Invalid backup format' });
       }
-      // Overwrite each data set if present
-      if (backup.data.cycles) {
-        await Promise.all(backup.data.cycles.map((cycle: any) => storage.createCycle(cycle)));
-      }
-      if (backup.data.flowRecords) {
-        await Promise.all(backup.data.flowRecords.map((rec: any) => storage.createFlowRecord(rec)));
-      }
-      if (backup.data.moodRecords) {
-        await Promise.all(backup.data.moodRecords.map((rec: any) => storage.createMoodRecord(rec)));
-      }
-      if (backup.data.symptoms) {
-        await Promise.all(backup.data.symptoms.map((sym: any) => storage.createSymptom(sym)));
-      }
-      if (backup.data.symptomRecords) {
-        await Promise.all(backup.data.symptomRecords.map((rec: any) => storage.createSymptomRecord(rec)));
-      }
-      if (backup.data.dailyNotes) {
-        await Promise.all(backup.data.dailyNotes.map((note: any) => storage.createDailyNote(note)));
-      }
-      if (backup.data.userSettings) {
-        if (Array.isArray(backup.data.userSettings)) {
-          await Promise.all(backup.data.userSettings.map((set: any) => storage.createUserSettings(set)));
-        } else {
-          await storage.createUserSettings(backup.data.userSettings);
-        }
-      }
-      if (backup.data.cervicalMucusRecords) {
-        await Promise.all(backup.data.cervicalMucusRecords.map((rec: any) => storage.createCervicalMucusRecord(rec)));
-      }
-      // Import medications if present
-      if (backup.data.medications) {
-        medicationStorage.bulkImportMedications(backup.userId || (backup.data.medications[0]?.userId ?? 1), backup.data.medications);
-      }
-      // Import sex records if present
-      if (backup.data.sexRecords) {
-        await Promise.all(backup.data.sexRecords.map((rec: any) => storage.createSexRecord(rec)));
-      }
-      // Some backups may use snake_case
-      if (backup.data.sex_records) {
-        await Promise.all(backup.data.sex_records.map((rec: any) => storage.createSexRecord(rec)));
+      const { data, migration } = imported;
+
+      if (req.query.mode === 'merge') {
+        const resolution = onConflictSchema.parse(req.query.onConflict);
+        const report = await storage.transaction(() => mergeImport(userId, data, { resolution }));
+        return res.json({ success: true, migration, ...report });
       }
-      res.json({ success: true });
-    } catch (err: any) {
-      res.status(500).json({ success: false, message: 'Import failed', error: err?.message });
+
+      await storage.transaction(() => appendImport(userId, data));
+      res.json({ success: true, migration });
+    } catch (error) {
+      sendImportError(res, error, 'Import failed');
     }
   });
 
   // Medication endpoints
   app.get('/api/medications', async (req, res) => {
-    const userId = Number(req.query.userId);
-    if (!userId) return res.status(400).json({ message: 'Missing userId' });
-    res.json(medicationStorage.getAll(userId));
+    try {
+      res.json(await storage.getMedications(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch medications' });
+    }
   });
 
   app.post('/api/medications', async (req, res) => {
-    const { userId, name, dose, frequency } = req.body;
-    if (!userId || !name) return res.status(400).json({ message: 'Missing userId or name' });
-    const med = medicationStorage.add({ userId, name, dose, frequency, logs: [] });
-    res.status(201).json(med);
+    try {
+      const medicationData = insertMedicationSchema.parse({ ...req.body, userId: req.user!.id, logs: [] });
+      const med = await storage.createMedication(medicationData);
+      res.status(201).json(med);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid medication data', errors: error.format() });
+      }
+      res.status(500).json({ message: 'Failed to create medication' });
+    }
+  });
+
+  const medicationLogRequestSchema = z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a yyyy-MM-dd date'),
   });
 
   app.post('/api/medications/:medId/log', async (req, res) => {
-    const userId = Number(req.body.userId);
-    const medId = Number(req.params.medId);
-    const { date } = req.body;
-    if (!userId || !medId || !date) return res.status(400).json({ message: 'Missing userId, medId, or date' });
-    const med = medicationStorage.logDose(userId, medId, date);
-    if (!med) return res.status(404).json({ message: 'Medication not found' });
-    res.json(med);
+    try {
+      const medId = Number(req.params.medId);
+      const { date } = medicationLogRequestSchema.parse(req.body);
+      if (!medId) return res.status(400).json({ message: 'Invalid medication ID' });
+      const med = await storage.logMedicationDose(req.user!.id, medId, date);
+      if (!med) return res.status(404).json({ message: 'Medication not found' });
+      res.json(med);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid medication log', errors: error.format() });
+      }
+      res.status(500).json({ message: 'Failed to log medication dose' });
+    }
   });
 
   app.post('/api/medications/:medId/unlog', async (req, res) => {
-    const userId = Number(req.body.userId);
-    const medId = Number(req.params.medId);
-    const { date } = req.body;
-    if (!userId || !medId || !date) return res.status(400).json({ message: 'Missing userId, medId, or date' });
-    const med = medicationStorage.removeLog(userId, medId, date);
-    if (!med) return res.status(404).json({ message: 'Medication not found' });
-    res.json(med);
+    try {
+      const medId = Number(req.params.medId);
+      const { date } = medicationLogRequestSchema.parse(req.body);
+      if (!medId) return res.status(400).json({ message: 'Invalid medication ID' });
+      const med = await storage.removeMedicationLog(req.user!.id, medId, date);
+      if (!med) return res.status(404).json({ message: 'Medication not found' });
+      res.json(med);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid medication log', errors: error.format() });
+      }
+      res.status(500).json({ message: 'Failed to remove medication dose' });
+    }
   });
 
   app.delete('/api/medications/:medId', async (req, res) => {
-    const userId = Number(req.body.userId);
-    const medId = Number(req.params.medId);
-    if (!userId || !medId) return res.status(400).json({ message: 'Missing userId or medId' });
-    const ok = medicationStorage.delete(userId, medId);
-    if (!ok) return res.status(404).json({ message: 'Medication not found' });
-    res.status(204).end();
+    try {
+      const medId = Number(req.params.medId);
+      if (!medId) return res.status(400).json({ message: 'Missing medId' });
+      const ok = await storage.deleteMedication(req.user!.id, medId);
+      if (!ok) return res.status(404).json({ message: 'Medication not found' });
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete medication' });
+    }
   });
 
   // Sex record routes
   app.get("/api/sex-records", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
       let startDate: Date | undefined;
       let endDate: Date | undefined;
       if (req.query.startDate) {
@@ -1086,10 +1451,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/sex-records/date", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
       if (!req.query.date) {
         return res.status(400).json({ message: "Date is required" });
       }
@@ -1106,7 +1468,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/sex-records", async (req, res) => {
     try {
-      const recordData = insertSexRecordSchema.parse(req.body);
+      const recordData = insertSexRecordSchema.parse({ ...req.body, userId: req.user!.id });
       // Check if record already exists for this date
       const existing = await storage.getSexRecord(recordData.userId, parseISO(recordData.date));
       if (existing) {
@@ -1131,7 +1493,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid record ID" });
       }
-      const updated = await storage.updateSexRecord(id, req.body);
+      const records = await storage.getSexRecords(req.user!.id);
+      if (!records.some(record => record.id === id)) {
+        return res.status(404).json({ message: "Record not found" });
+      }
+      const updated = await storage.updateSexRecord(id, { ...req.body, userId: req.user!.id });
       if (!updated) {
         return res.status(404).json({ message: "Record not found" });
       }
@@ -1147,6 +1513,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid record ID" });
       }
+      const records = await storage.getSexRecords(req.user!.id);
+      if (!records.some(record => record.id === id)) {
+        return res.status(404).json({ message: "Record not found" });
+      }
       const success = await storage.deleteSexRecord(id);
       if (!success) {
         return res.status(404).json({ message: "Record not found" });
@@ -1160,18 +1530,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Cervical mucus record routes
   app.get("/api/cervical-mucus-records", async (req, res) => {
     try {
-      const userId = Number(req.query.userId);
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
+      const userId = req.user!.id;
       
       const records = await storage.getCervicalMucusRecords(userId);
-      // Map records to include `type` field (fallback to `mucusType` for legacy data)
-      const outRecords = records.map(r => {
-        const { mucusType, ...rest } = r as any;
-        return { ...rest, type: (r as any).type ?? mucusType };
-      });
-      res.status(200).json(outRecords);
+      res.status(200).json(records);
     } catch (error) {
       console.error("[ERROR] Error fetching cervical mucus records:", error);
       res.status(500).json({ message: "Failed to fetch cervical mucus records" });
@@ -1180,13 +1542,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/cervical-mucus-records/date", async (req, res) => {
     try {
-      const userId = Number(req.query.userId);
+      const userId = req.user!.id;
       const dateStr = String(req.query.date);
       
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
-      
       if (!dateStr) {
         return res.status(400).json({ message: "Date is required" });
       }
@@ -1210,7 +1568,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/cervical-mucus-records", async (req, res) => {
     try {
-      const recordData = insertCervicalMucusSchema.parse(req.body);
+      const recordData = insertCervicalMucusSchema.parse({ ...req.body, userId: req.user!.id });
       const record = await storage.createCervicalMucusRecord(recordData);
       res.status(201).json(record);
     } catch (error) {
@@ -1224,13 +1582,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/cervical-mucus-records", async (req, res) => {
     try {
-      const userId = Number(req.query.userId);
+      const userId = req.user!.id;
       const dateStr = String(req.query.date);
       
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
-      
       if (!dateStr) {
         return res.status(400).json({ message: "Date is required" });
       }
@@ -1251,6 +1605,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  if (config.httpsEnabled) {
+    const credentials = loadTlsCredentials({
+      certFile: config.httpsCertFile,
+      keyFile: config.httpsKeyFile,
+      hostnames: config.httpsHostnames
+    });
+    return createHttpsServer(credentials, app);
+  }
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import net from 'net';
+
+export interface SelfSignedCertificate {
+  cert: string;
+  key: string;
+  notAfter: Date;
+}
+
+// Apple platforms refuse server certificates valid for longer than this
+const VALIDITY_DAYS = 825;
+
+const OID = {
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  basicConstraints: '2.5.29.19',
+  keyUsage: '2.5.29.15',
+  extKeyUsage: '2.5.29.37',
+  subjectAltName: '2.5.29.17',
+  serverAuth: '1.3.6.1.5.5.7.3.1',
+};
+
+// Minimal DER encoding, just enough to build an X.509 certificate
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+const sequence = (...items: Buffer[]) => der(0x30, ...items);
+const set = (...items: Buffer[]) => der(0x31, ...items);
+const octetString = (data: Buffer) => der(0x04, data);
+const utf8String = (text: string) => der(0x0c, Buffer.from(text, 'utf-8'));
+const nullValue = () => Buffer.from([0x05, 0x00]);
+const bitString = (data: Buffer) => der(0x03, Buffer.from([0]), data);
+const explicit = (tagNumber: number, content: Buffer) => der(0xa0 | tagNumber, content);
+
+function integer(value: Buffer): Buffer {
+  // Keep it positive: a leading byte with the high bit set needs a 0 in front
+  const bytes = value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value;
+  return der(0x02, bytes);
+}
+
+function objectId(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const part of rest) {
+    const chunk = [part & 0x7f];
+    for (let n = part >> 7; n > 0; n >>= 7) chunk.unshift((n & 0x7f) | 0x80);
+    bytes.push(...chunk);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  // UTCTime until 2049, GeneralizedTime after that (RFC 5280)
+  return date.getUTCFullYear() < 2050 ? der(0x17, Buffer.from(iso.slice(2))) : der(0x18, Buffer.from(iso));
+}
+
+function name(commonName: string): Buffer {
+  return sequence(
+    set(sequence(objectId(OID.organizationName), utf8String('CycleSense'))),
+    set(sequence(objectId(OID.commonName), utf8String(commonName))),
+  );
+}
+
+function extension(oid: string, value: Buffer, critical = false): Buffer {
+  return critical
+    ? sequence(objectId(oid), der(0x01, Buffer.from([0xff])), octetString(value))
+    : sequence(objectId(oid), octetString(value));
+}
+
+function subjectAltNames(altNames: string[]): Buffer {
+  return sequence(...altNames.map(altName => {
+    if (net.isIPv4(altName)) {
+      return der(0x87, Buffer.from(altName.split('.').map(Number)));
+    }
+    if (net.isIPv6(altName)) {
+      return der(0x87, ipv6Bytes(altName));
+    }
+    return der(0x82, Buffer.from(altName, 'ascii'));
+  }));
+}
+
+function ipv6Bytes(address: string): Buffer {
+  const [head, tail = ''] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail ? tail.split(':') : [];
+  const parts = address.includes('::')
+    ? [...headParts, ...Array(8 - headParts.length - tailParts.length).fill('0'), ...tailParts]
+    : headParts;
+  const bytes = Buffer.alloc(16);
+  parts.forEach((part, index) => bytes.writeUInt16BE(parseInt(part, 16), index * 2));
+  return bytes;
+}
+
+/**
+ * Create a self-signed RSA certificate for the given host names and IP
+ * addresses (the first one becomes the common name), valid from now.
+ */
+export function generateSelfSignedCertificate(altNames: string[]): SelfSignedCertificate {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const notBefore = new Date(Date.now() - 60 * 1000);
+  const notAfter = new Date(notBefore.getTime() + VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  const signatureAlgorithm = sequence(objectId(OID.sha256WithRSAEncryption), nullValue());
+  const subject = name(altNames[0] || 'localhost');
+
+  const tbsCertificate = sequence(
+    explicit(0, integer(Buffer.from([2]))), // X.509 v3
+    integer(crypto.randomBytes(16)),
+    signatureAlgorithm,
+    subject, // issuer: self-signed
+    sequence(time(notBefore), time(notAfter)),
+    subject,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    explicit(3, sequence(
+      extension(OID.basicConstraints, sequence(), true),
+      // digitalSignature + keyEncipherment
+      extension(OID.keyUsage, der(0x03, Buffer.from([5, 0xa0])), true),
+      extension(OID.extKeyUsage, sequence(objectId(OID.serverAuth))),
+      extension(OID.subjectAltName, subjectAltNames(altNames)),
+    )),
+  );
+
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey);
+  const certificate = sequence(tbsCertificate, signatureAlgorithm, bitString(signature));
+  const base64 = certificate.toString('base64').match(/.{1,64}/g)!.join('\n');
+
+  return {
+    cert: `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----\n`,
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    notAfter,
+  };
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import type { SqliteDatabase } from './db';
+import { dataEncryption } from './data-encryption';
+import { COLLECTION_FILES, DataSet, migrateDataSet, readDataFormatVersion } from './data-migrations';
+
+const toBooleanColumn = (value: unknown) =>
+  value === null || value === undefined ? null : value ? 1 : 0;
+
+// Read an array of records from a JSON data file, or [] if it is missing
+function readJsonArray(dir: string, filename: string): any[] {
+  const filePath = path.join(dir, filename);
+  if (!fs.existsSync(filePath)) return [];
+  const data = JSON.parse(dataEncryption.readFile(filePath));
+  if (!Array.isArray(data)) {
+    throw new Error(`${filename} does not contain a JSON array`);
+  }
+  return data.filter(item => item && typeof item.id === 'number');
+}
+
+// Read a whole JSON data directory, upgraded to the current data format
+function readDataSet(dir: string): DataSet {
+  const data: DataSet = {};
+  for (const [key, filename] of Object.entries(COLLECTION_FILES)) {
+    data[key] = readJsonArray(dir, filename);
+  }
+  const report = migrateDataSet(data, readDataFormatVersion(dir));
+  report.changes.forEach(change => console.log(`[Migration] ${change}`));
+  return data;
+}
+
+/**
+ * True if the database holds no user data yet (default symptoms don't count).
+ */
+export function isDatabaseEmpty(db: SqliteDatabase): boolean {
+  const tables = [
+    'users', 'cycles', 'flow_records', 'mood_records', 'symptom_records', 'daily_notes',
+    'user_settings', 'cervical_mucus_records', 'sex_records', 'medications'
+  ];
+  return tables.every(table => {
+    const row = db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number };
+    return row.count === 0;
+  });
+}
+
+/**
+ * Import a FileStorage JSON data directory into the SQLite database,
+ * keeping record ids so references between records stay intact.
+ * Data from older versions is migrated on the way in.
+ * Runs in a single transaction: either everything is imported or nothing.
+ * Returns the number of rows imported per table.
+ */
+export function importJsonDirectory(db: SqliteDatabase, dir: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const data = readDataSet(dir);
+
+  // Insert every record of a collection; rows violating a constraint (e.g. duplicates) are skipped
+  const importFile = (table: string, key: string, sql: string, toParams: (item: any) => unknown[]) => {
+    const statement = db.prepare(sql);
+    counts[table] = (data[key] as any[])
+      .reduce((count, item) => count + statement.run(...toParams(item)).changes, 0);
+  };
+
+  db.transaction(() => {
+    importFile('users', 'users',
+      'INSERT OR IGNORE INTO users (id, username, password, email) VALUES (?, ?, ?, ?)',
+      u => [u.id, u.username, u.password, u.email ?? '']);
+
+    importFile('cycles', 'cycles',
+      'INSERT OR IGNORE INTO cycles (id, user_id, start_date, end_date, notes) VALUES (?, ?, ?, ?, ?)',
+      c => [c.id, c.userId, c.startDate, c.endDate ?? null, c.notes ?? null]);
+
+    importFile('flow_records', 'flowRecords',
+      'INSERT OR IGNORE INTO flow_records (id, user_id, cycle_id, date, intensity) VALUES (?, ?, ?, ?, ?)',
+      r => [r.id, r.userId, r.cycleId ?? null, r.date, r.intensity]);
+
+    importFile('mood_records', 'moodRecords',
+      'INSERT OR IGNORE INTO mood_records (id, user_id, date, mood) VALUES (?, ?, ?, ?)',
+      r => [r.id, r.userId, r.date, r.mood]);
+
+    importFile('symptoms', 'symptoms',
+      'INSERT OR IGNORE INTO symptoms (id, name, category, is_default, user_id) VALUES (?, ?, ?, ?, ?)',
+      s => [s.id, s.name, s.category, toBooleanColumn(s.isDefault), s.userId ?? null]);
+
+    importFile('symptom_records', 'symptomRecords',
+      'INSERT OR IGNORE INTO symptom_records (id, user_id, symptom_id, date, intensity) VALUES (?, ?, ?, ?, ?)',
+      r => [r.id, r.userId, r.symptomId, r.date, r.intensity ?? null]);
+
+    importFile('daily_notes', 'dailyNotes',
+      'INSERT OR IGNORE INTO daily_notes (id, user_id, date, notes) VALUES (?, ?, ?, ?)',
+      n => [n.id, n.userId, n.date, n.notes ?? '']);
+
+    // FileStorage may hold several settings entries per user; the last one wins, as it does there
+    importFile('user_settings', 'userSettings',
+      'INSERT INTO user_settings (user_id, settings) VALUES (?, ?) ON CONFLICT (user_id) DO UPDATE SET settings = excluded.settings',
+      ({ id, userId, ...settings }) => [userId, JSON.stringify(settings)]);
+
+    importFile('cervical_mucus_records', 'cervicalMucusRecords',
+      'INSERT OR IGNORE INTO cervical_mucus_records (id, user_id, date, type) VALUES (?, ?, ?, ?)',
+      r => [r.id, r.userId, r.date, r.type]);
+
+    importFile('sex_records', 'sexRecords',
+      'INSERT OR IGNORE INTO sex_records (id, user_id, date, protected) VALUES (?, ?, ?, ?)',
+      r => [r.id, r.userId, r.date, toBooleanColumn(r.protected)]);
+
+    importFile('medications', 'medications',
+      'INSERT OR IGNORE INTO medications (id, user_id, name, dose, frequency) VALUES (?, ?, ?, ?, ?)',
+      m => [m.id, m.userId, m.name, m.dose ?? null, m.frequency ?? null]);
+
+    const insertLog = db.prepare('INSERT INTO medication_logs (medication_id, date) VALUES (?, ?)');
+    counts.medication_logs = 0;
+    for (const medication of data.medications as any[]) {
+      for (const log of medication.logs || []) {
+        counts.medication_logs += insertLog.run(medication.id, log.date).changes;
+      }
+    }
+
+    importFile('api_tokens', 'apiTokens',
+      'INSERT OR IGNORE INTO api_tokens (id, user_id, name, scope, token_hash, token_prefix, created_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      t => [t.id, t.userId, t.name, t.scope, t.tokenHash, t.tokenPrefix, t.createdAt, t.lastUsedAt ?? null]);
+  })();
+
+  return counts;
+}
@@ -0,0 +1,712 @@
+import fs from 'fs';
+import path from 'path';
+import { format, parseISO } from 'date-fns';
+import {
+  IStorage,
+  User, InsertUser,
+  Cycle, InsertCycle,
+  FlowRecord, InsertFlowRecord,
+  MoodRecord, InsertMoodRecord,
+  Symptom, InsertSymptom,
+  SymptomRecord, InsertSymptomRecord,
+  DailyNote, InsertDailyNote,
+  UserSettings, InsertUserSettings,
+  CervicalMucusRecord, InsertCervicalMucusRecord,
+  SexRecord, InsertSexRecord,
+  Medication, InsertMedication,
+  ApiToken, InsertApiToken
+} from './storage';
+import { config } from './config';
+import { openDatabase, type SqliteDatabase } from './db';
+import { importJsonDirectory } from './sqlite-import';
+
+// Format a Date the same way FileStorage stores dates
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+// Normalize an ISO date string to yyyy-MM-dd without timezone shifts
+const normalizeDate = (date: string) => format(parseISO(date), 'yyyy-MM-dd');
+
+const toUser = (row: any): User => ({
+  id: row.id, username: row.username, password: row.password, email: row.email
+});
+const toCycle = (row: any): Cycle => ({
+  id: row.id, userId: row.user_id, startDate: row.start_date, endDate: row.end_date, notes: row.notes
+});
+const toFlowRecord = (row: any): FlowRecord => ({
+  id: row.id, userId: row.user_id, cycleId: row.cycle_id, date: row.date, intensity: row.intensity
+});
+const toMoodRecord = (row: any): MoodRecord => ({
+  id: row.id, userId: row.user_id, date: row.date, mood: row.mood
+});
+const toSymptom = (row: any): Symptom => ({
+  id: row.id,
+  name: row.name,
+  category: row.category,
+  isDefault: row.is_default === null ? null : Boolean(row.is_default),
+  userId: row.user_id
+});
+const toSymptomRecord = (row: any): SymptomRecord => ({
+  id: row.id, userId: row.user_id, symptomId: row.symptom_id, date: row.date, intensity: row.intensity
+});
+const toDailyNote = (row: any): DailyNote => ({
+  id: row.id, userId: row.user_id, date: row.date, notes: row.notes
+});
+const toUserSettings = (row: any): UserSettings => ({
+  ...JSON.parse(row.settings), id: row.id, userId: row.user_id
+});
+const toCervicalMucusRecord = (row: any): CervicalMucusRecord => ({
+  id: row.id, userId: row.user_id, date: row.date, type: row.type
+});
+const toSexRecord = (row: any): SexRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  date: row.date,
+  ...(row.protected === null ? {} : { protected: Boolean(row.protected) })
+});
+
+const toApiToken = (row: any): ApiToken => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  scope: row.scope,
+  tokenHash: row.token_hash,
+  tokenPrefix: row.token_prefix,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at
+});
+
+const toBooleanColumn = (value: boolean | null | undefined) =>
+  value === null || value === undefined ? null : value ? 1 : 0;
+
+/**
+ * SQLite storage implementation (storageBackend: "sqlite" in config.json).
+ * Behaves like FileStorage but keeps everything in data/cyclesense.db.
+ */
+export class SqliteStorage implements IStorage {
+  private db: SqliteDatabase;
+
+  private defaultSymptoms: Record<string, string[]> = {
+    physical: [
+      'Acne', 'Bloating', 'Breast Tenderness', 'Cramps', 'Constipation',
+      'Diarrhea', 'Fatigue', 'Headache', 'Insomnia', 'Joint Pain',
+      'Nausea', 'Spotting', 'Swelling', 'Weight Gain'
+    ],
+    emotional: [
+      'Anxiety', 'Depression', 'Irritability', 'Mood Swings',
+      'Food Cravings', 'Poor Concentration', 'Social Withdrawal',
+      'Overwhelmed', 'Panic Attacks', 'Anger Outbursts'
+    ],
+    pmdd: [
+      'Severe Anxiety', 'Extreme Mood Swings', 'Marked Irritability',
+      'Feeling Out of Control', 'Difficulty Focusing', 'Suicidal Thoughts',
+      'Severe Depression', 'Extreme Fatigue', 'Marked Changes in Appetite',
+      'Feeling Hopeless', 'Severe Tension', 'Rejection Sensitivity'
+    ]
+  };
+
+  constructor() {
+    const { db, created } = openDatabase();
+    this.db = db;
+
+    // First start on SQLite: bring over the existing JSON data directory once
+    const jsonDataPath = path.resolve(process.cwd(), config.dataPath);
+    if (created && fs.existsSync(path.join(jsonDataPath, 'users.json'))) {
+      const counts = importJsonDirectory(this.db, jsonDataPath);
+      console.log(`[SQLite] Imported JSON data from ${jsonDataPath}:`, counts);
+    }
+
+    const symptomCount = this.db.prepare('SELECT COUNT(*) AS count FROM symptoms').get() as { count: number };
+    if (symptomCount.count === 0) {
+      this.initializeDefaultSymptoms();
+    }
+  }
+
+  private initializeDefaultSymptoms() {
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO symptoms (name, category, is_default, user_id) VALUES (?, ?, 1, NULL)'
+    );
+    this.db.transaction(() => {
+      for (const [category, names] of Object.entries(this.defaultSymptoms)) {
+        names.forEach(name => insert.run(name, category));
+      }
+    })();
+    console.log('[SQLite] Initialized default symptoms');
+  }
+
+  // Select a user's rows from a dated table, optionally limited to a date range
+  private selectDated(table: string, userId: number, startDate?: Date, endDate?: Date): any[] {
+    let sql = `SELECT * FROM ${table} WHERE user_id = ?`;
+    const params: (number | string)[] = [userId];
+    if (startDate) {
+      sql += ' AND date >= ?';
+      params.push(toDateString(startDate));
+    }
+    if (endDate) {
+      sql += ' AND date <= ?';
+      params.push(toDateString(endDate));
+    }
+    return this.db.prepare(`${sql} ORDER BY date, id`).all(...params);
+  }
+
+  private selectOnDate(table: string, userId: number, date: Date): any {
+    return this.db.prepare(`SELECT * FROM ${table} WHERE user_id = ? AND date = ? ORDER BY id LIMIT 1`)
+      .get(userId, toDateString(date));
+  }
+
+  private selectById(table: string, id: number): any {
+    return this.db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id);
+  }
+
+  private deleteById(table: string, id: number): boolean {
+    return this.db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id).changes > 0;
+  }
+
+  // --- Sex Record CRUD ---
+  async getSexRecords(userId: number, startDate?: Date, endDate?: Date): Promise<SexRecord[]> {
+    return this.selectDated('sex_records', userId, startDate, endDate).map(toSexRecord);
+  }
+
+  async getSexRecord(userId: number, date: Date): Promise<SexRecord | undefined> {
+    const row = this.selectOnDate('sex_records', userId, date);
+    return row ? toSexRecord(row) : undefined;
+  }
+
+  async createSexRecord(insertRecord: InsertSexRecord): Promise<SexRecord> {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO sex_records (user_id, date, protected) VALUES (?, ?, ?)'
+    ).run(insertRecord.userId, normalizeDate(insertRecord.date), toBooleanColumn(insertRecord.protected));
+    return toSexRecord(this.selectById('sex_records', Number(lastInsertRowid)));
+  }
+
+  async updateSexRecord(id: number, updateRecord: Partial<InsertSexRecord>): Promise<SexRecord | undefined> {
+    const row = this.selectById('sex_records', id);
+    if (!row) return undefined;
+    const updated = { ...toSexRecord(row), ...updateRecord };
+    this.db.prepare('UPDATE sex_records SET user_id = ?, date = ?, protected = ? WHERE id = ?')
+      .run(updated.userId, normalizeDate(updated.date), toBooleanColumn(updated.protected), id);
+    return toSexRecord(this.selectById('sex_records', id));
+  }
+
+  async deleteSexRecord(id: number): Promise<boolean> {
+    return this.deleteById('sex_records', id);
+  }
+
+  // User operations
+  async getUsers(): Promise<User[]> {
+    return this.db.prepare('SELECT * FROM users ORDER BY id').all().map(toUser);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const row = this.selectById('users', id);
+    return row ? toUser(row) : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const row = this.db.prepare('SELECT * FROM users WHERE username = ?').get(username);
+    return row ? toUser(row) : undefined;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO users (username, password, email) VALUES (?, ?, ?)'
+    ).run(user.username, user.password, user.email);
+    return { ...user, id: Number(lastInsertRowid) };
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = await this.getUser(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...user };
+    this.db.prepare('UPDATE users SET username = ?, password = ?, email = ? WHERE id = ?')
+      .run(updated.username, updated.password, updated.email, id);
+    return updated;
+  }
+
+  // Cycle operations
+  async getCycles(userId: number): Promise<Cycle[]> {
+    return this.db.prepare('SELECT * FROM cycles WHERE user_id = ? ORDER BY start_date DESC')
+      .all(userId).map(toCycle);
+  }
+
+  async getCycle(id: number): Promise<Cycle | undefined> {
+    const row = this.selectById('cycles', id);
+    return row ? toCycle(row) : undefined;
+  }
+
+  async getCurrentCycle(userId: number): Promise<Cycle | undefined> {
+    const row = this.db.prepare('SELECT * FROM cycles WHERE user_id = ? ORDER BY start_date DESC LIMIT 1')
+      .get(userId) as any;
+    return row && !row.end_date ? toCycle(row) : undefined;
+  }
+
+  async createCycle(insertCycle: InsertCycle): Promise<Cycle> {
+    const startDate = normalizeDate(insertCycle.startDate);
+
+    return this.db.transaction(() => {
+      // A cycle starting on the same day already exists: return it instead of creating a new one
+      const existing = this.db.prepare('SELECT * FROM cycles WHERE user_id = ? AND start_date = ?')
+        .get(insertCycle.userId, startDate);
+      if (existing) return toCycle(existing);
+
+      // End the active cycle one day before the new cycle starts
+      const dayBefore = parseISO(startDate);
+      dayBefore.setDate(dayBefore.getDate() - 1);
+      this.db.prepare('UPDATE cycles SET end_date = ? WHERE user_id = ? AND end_date IS NULL')
+        .run(toDateString(dayBefore), insertCycle.userId);
+
+      const { lastInsertRowid } = this.db.prepare(
+        'INSERT INTO cycles (user_id, start_date, end_date, notes) VALUES (?, ?, ?, ?)'
+      ).run(insertCycle.userId, startDate, insertCycle.endDate ?? null, insertCycle.notes ?? null);
+      return toCycle(this.selectById('cycles', Number(lastInsertRowid)));
+    })();
+  }
+
+  async updateCycle(id: number, partialCycle: Partial<InsertCycle>): Promise<Cycle | undefined> {
+    const row = this.selectById('cycles', id);
+    if (!row) return undefined;
+    const cycle = toCycle(row);
+    const updated = { ...cycle };
+
+    if (partialCycle.endDate) {
+      const endDate = normalizeDate(partialCycle.endDate);
+      // Ensure end date is not before start date
+      if (parseISO(endDate) < parseISO(cycle.startDate)) return cycle;
+
+      // Don't update if another cycle already ends on this date
+      const conflict = this.db.prepare('SELECT id FROM cycles WHERE id != ? AND user_id = ? AND end_date = ?')
+        .get(id, cycle.userId, endDate);
+      if (conflict) return cycle;
+
+      updated.endDate = endDate;
+    }
+    if (partialCycle.userId !== undefined) updated.userId = partialCycle.userId;
+    if (partialCycle.startDate !== undefined) updated.startDate = partialCycle.startDate;
+    if (partialCycle.notes !== undefined) updated.notes = partialCycle.notes;
+
+    this.db.prepare('UPDATE cycles SET user_id = ?, start_date = ?, end_date = ?, notes = ? WHERE id = ?')
+      .run(updated.userId, updated.startDate, updated.endDate, updated.notes, id);
+    return updated;
+  }
+
+  async deleteCycle(id: number): Promise<boolean> {
+    return this.db.transaction(() => {
+      const deleted = this.deleteById('cycles', id);
+      if (deleted) {
+        // Also delete associated flow records, but NEVER delete spotting days
+        this.db.prepare("DELETE FROM flow_records WHERE cycle_id = ? AND intensity != 'spotting'").run(id);
+      }
+      return deleted;
+    })();
+  }
+
+  // Flow records
+  async getFlowRecords(userId: number, startDate?: Date, endDate?: Date): Promise<FlowRecord[]> {
+    return this.selectDated('flow_records', userId, startDate, endDate).map(toFlowRecord);
+  }
+
+  async getFlowRecord(userId: number, date: Date): Promise<FlowRecord | undefined> {
+    const row = this.selectOnDate('flow_records', userId, date);
+    return row ? toFlowRecord(row) : undefined;
+  }
+
+  async getFlowRecordById(id: number): Promise<FlowRecord | undefined> {
+    const row = this.selectById('flow_records', id);
+    return row ? toFlowRecord(row) : undefined;
+  }
+
+  async createFlowRecord(record: InsertFlowRecord): Promise<FlowRecord> {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO flow_records (user_id, cycle_id, date, intensity) VALUES (?, ?, ?, ?)'
+    ).run(record.userId, record.cycleId ?? null, normalizeDate(record.date), record.intensity);
+    return toFlowRecord(this.selectById('flow_records', Number(lastInsertRowid)));
+  }
+
+  async updateFlowRecord(id: number, partialRecord: Partial<InsertFlowRecord>): Promise<FlowRecord | undefined> {
+    const existing = await this.getFlowRecordById(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...partialRecord };
+    this.db.prepare('UPDATE flow_records SET user_id = ?, cycle_id = ?, date = ?, intensity = ? WHERE id = ?')
+      .run(updated.userId, updated.cycleId ?? null, normalizeDate(updated.date), updated.intensity, id);
+    return this.getFlowRecordById(id);
+  }
+
+  async deleteFlowRecord(id: number): Promise<boolean> {
+    return this.deleteById('flow_records', id);
+  }
+
+  // Mood records
+  async getMoodRecords(userId: number, startDate?: Date, endDate?: Date): Promise<MoodRecord[]> {
+    return this.selectDated('mood_records', userId, startDate, endDate).map(toMoodRecord);
+  }
+
+  async getMoodRecord(userId: number, date: Date): Promise<MoodRecord | undefined> {
+    const row = this.selectOnDate('mood_records', userId, date);
+    return row ? toMoodRecord(row) : undefined;
+  }
+
+  async createMoodRecord(record: InsertMoodRecord): Promise<MoodRecord> {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO mood_records (user_id, date, mood) VALUES (?, ?, ?)'
+    ).run(record.userId, normalizeDate(record.date), record.mood);
+    return toMoodRecord(this.selectById('mood_records', Number(lastInsertRowid)));
+  }
+
+  async updateMoodRecord(id: number, record: Partial<InsertMoodRecord>): Promise<MoodRecord | undefined> {
+    const row = this.selectById('mood_records', id);
+    if (!row) return undefined;
+    const updated = { ...toMoodRecord(row), ...record };
+    this.db.prepare('UPDATE mood_records SET user_id = ?, date = ?, mood = ? WHERE id = ?')
+      .run(updated.userId, normalizeDate(updated.date), updated.mood, id);
+    return toMoodRecord(this.selectById('mood_records', id));
+  }
+
+  // Symptoms
+  async getSymptoms(category?: string): Promise<Symptom[]> {
+    const rows = category
+      ? this.db.prepare('SELECT * FROM symptoms WHERE category = ?').all(category)
+      : this.db.prepare('SELECT * FROM symptoms').all();
+    return rows.map(toSymptom).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getUserSymptoms(userId: number): Promise<Symptom[]> {
+    return this.db.prepare('SELECT * FROM symptoms WHERE user_id = ? OR user_id IS NULL')
+      .all(userId)
+      .map(toSymptom)
+      .sort((a, b) => {
+        // Sort default symptoms first, then by name
+        if (a.isDefault && !b.isDefault) return -1;
+        if (!a.isDefault && b.isDefault) return 1;
+        return a.name.localeCompare(b.name);
+      });
+  }
+
+  async getSymptomById(id: number): Promise<Symptom | undefined> {
+    const row = this.selectById('symptoms', id);
+    return row ? toSymptom(row) : undefined;
+  }
+
+  async createSymptom(symptom: InsertSymptom & { id?: number }): Promise<Symptom> {
+    const values = [symptom.name, symptom.category, toBooleanColumn(symptom.isDefault), symptom.userId ?? null];
+
+    if (symptom.id !== undefined) {
+      // Imports keep their ids so symptom records still point at the right symptom
+      this.db.prepare('INSERT OR REPLACE INTO symptoms (id, name, category, is_default, user_id) VALUES (?, ?, ?, ?, ?)')
+        .run(symptom.id, ...values);
+      return toSymptom(this.selectById('symptoms', symptom.id));
+    }
+
+    // Creating a symptom that already exists returns the existing one
+    const existing = this.db.prepare(
+      'SELECT * FROM symptoms WHERE name = ? AND category = ? AND IFNULL(user_id, 0) = IFNULL(?, 0)'
+    ).get(symptom.name, symptom.category, symptom.userId ?? null);
+    if (existing) return toSymptom(existing);
+
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO symptoms (name, category, is_default, user_id) VALUES (?, ?, ?, ?)'
+    ).run(...values);
+    return toSymptom(this.selectById('symptoms', Number(lastInsertRowid)));
+  }
+
+  async deleteSymptom(id: number): Promise<boolean> {
+    // Only allow deletion of custom (non-default) symptoms
+    return this.db.prepare('DELETE FROM symptoms WHERE id = ? AND IFNULL(is_default, 0) = 0').run(id).changes > 0;
+  }
+
+  // Symptom records
+  async getSymptomRecords(userId: number, startDate?: Date, endDate?: Date): Promise<SymptomRecord[]> {
+    return this.selectDated('symptom_records', userId, startDate, endDate).map(toSymptomRecord);
+  }
+
+  async getSymptomRecordsForDate(userId: number, date: Date): Promise<SymptomRecord[]> {
+    return this.db.prepare('SELECT * FROM symptom_records WHERE user_id = ? AND date = ? ORDER BY id')
+      .all(userId, toDateString(date))
+      .map(toSymptomRecord);
+  }
+
+  async createSymptomRecord(record: InsertSymptomRecord): Promise<SymptomRecord> {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO symptom_records (user_id, symptom_id, date, intensity) VALUES (?, ?, ?, ?)'
+    ).run(record.userId, record.symptomId, normalizeDate(record.date), record.intensity || null);
+    return toSymptomRecord(this.selectById('symptom_records', Number(lastInsertRowid)));
+  }
+
+  async deleteSymptomRecord(id: number): Promise<boolean> {
+    return this.deleteById('symptom_records', id);
+  }
+
+  async updateSymptomRecord(id: number, record: Partial<InsertSymptomRecord>): Promise<SymptomRecord | undefined> {
+    const row = this.selectById('symptom_records', id);
+    if (!row) return undefined;
+    const updated = { ...toSymptomRecord(row), ...record };
+    this.db.prepare('UPDATE symptom_records SET user_id = ?, symptom_id = ?, date = ?, intensity = ? WHERE id = ?')
+      .run(updated.userId, updated.symptomId, updated.date, updated.intensity ?? null, id);
+    return toSymptomRecord(this.selectById('symptom_records', id));
+  }
+
+  // Daily notes
+  async getDailyNotes(userId: number, startDate?: Date, endDate?: Date): Promise<DailyNote[]> {
+    return this.selectDated('daily_notes', userId, startDate, endDate).map(toDailyNote);
+  }
+
+  async getDailyNote(userId: number, date: Date): Promise<DailyNote | undefined> {
+    const row = this.selectOnDate('daily_notes', userId, date);
+    return row ? toDailyNote(row) : undefined;
+  }
+
+  async createDailyNote(note: InsertDailyNote): Promise<DailyNote> {
+    const { lastInsertRowid } = this.db.prepare(
+      'INSERT INTO daily_notes (user_id, date, notes) VALUES (?, ?, ?)'
+    ).run(note.userId, normalizeDate(note.date), note.notes);
+    return toDailyNote(this.selectById('daily_notes', Number(lastInsertRowid)));
+  }
+
+  async updateDailyNote(id: number, note: Partial<InsertDailyNote>): Promise<DailyNote | undefined> {
+    const row = this.selectById('daily_notes', id);
+    if (!row) return undefined;
+    const updated = { ...toDailyNote(row), ...note };
+    this.db.prepare('UPDATE daily_notes SET user_id = ?, date = ?, notes = ? WHERE id = ?')
+      .run(updated.userId, normalizeDate(updated.date), updated.notes, id);
+    return toDailyNote(this.selectById('daily_notes', id));
+  }
+
+  // User settings
+  async getUserSettings(userId: number): Promise<UserSettings | undefined> {
+    const row = this.db.prepare('SELECT * FROM user_settings WHERE user_id = ?').get(userId);
+    return row ? toUserSettings(row) : undefined;
+  }
+
+  async createUserSettings(insertSettings: InsertUserSettings): Promise<UserSettings> {
+    const { userId, ...settings } = {
+      ...insertSettings,
+      showPmddSymptoms: typeof insertSettings.showPmddSymptoms === 'boolean' ? insertSettings.showPmddSymptoms : true,
+      showIntimateActivity: typeof insertSettings.showIntimateActivity === 'boolean' ? insertSettings.showIntimateActivity : true
+    };
+    // One settings row per user: creating again replaces the previous settings
+    this.db.prepare(
+      'INSERT INTO user_settings (user_id, settings) VALUES (?, ?) ON CONFLICT (user_id) DO UPDATE SET settings = excluded.settings'
+    ).run(userId, JSON.stringify(settings));
+    return (await this.getUserSettings(userId))!;
+  }
+
+  async updateUserSettings(userId: number, partialSettings: Partial<InsertUserSettings>): Promise<UserSettings | undefined> {
+    const existing = await this.getUserSettings(userId);
+    if (!existing) {
+      return this.createUserSettings({ userId, ...partialSettings } as InsertUserSettings);
+    }
+    const { id, userId: _userId, ...settings } = {
+      ...existing,
+      ...partialSettings,
+      showPmddSymptoms: typeof partialSettings.showPmddSymptoms === 'boolean' ? partialSettings.showPmddSymptoms : (existing.showPmddSymptoms ?? true),
+      showIntimateActivity: typeof partialSettings.showIntimateActivity === 'boolean' ? partialSettings.showIntimateActivity : (existing.showIntimateActivity ?? true)
+    };
+    this.db.prepare('UPDATE user_settings SET settings = ? WHERE id = ?').run(JSON.stringify(settings), id);
+    return this.getUserSettings(userId);
+  }
+
+  // Cervical mucus records
+  async getCervicalMucusRecords(userId: number, startDate?: Date, endDate?: Date): Promise<CervicalMucusRecord[]> {
+    return this.selectDated('cervical_mucus_records', userId, startDate, endDate).map(toCervicalMucusRecord);
+  }
+
+  async getCervicalMucusRecord(userId: number, date: Date): Promise<CervicalMucusRecord | undefined> {
+    const row = this.selectOnDate('cervical_mucus_records', userId, date);
+    return row ? toCervicalMucusRecord(row) : undefined;
+  }
+
+  async createCervicalMucusRecord(record: InsertCervicalMucusRecord): Promise<CervicalMucusRecord> {
+    const date = normalizeDate(record.date);
+    return this.db.transaction(() => {
+      // Only one type per day: replace whatever was recorded before
+      this.db.prepare('DELETE FROM cervical_mucus_records WHERE user_id = ? AND date = ?').run(record.userId, date);
+      const { lastInsertRowid } = this.db.prepare(
+        'INSERT INTO cervical_mucus_records (user_id, date, type) VALUES (?, ?, ?)'
+      ).run(record.userId, date, record.type);
+      return toCervicalMucusRecord(this.selectById('cervical_mucus_records', Number(lastInsertRowid)));
+    })();
+  }
+
+  async updateCervicalMucusRecord(id: number, record: Partial<InsertCervicalMucusRecord>): Promise<CervicalMucusRecord | undefined> {
+    const row = this.selectById('cervical_mucus_records', id);
+    if (!row) return undefined;
+    const updated = { ...toCervicalMucusRecord(row), ...record };
+    this.db.prepare('UPDATE cervical_mucus_records SET user_id = ?, date = ?, type = ? WHERE id = ?')
+      .run(updated.userId, normalizeDate(updated.date), updated.type, id);
+    return toCervicalMucusRecord(this.selectById('cervical_mucus_records', id));
+  }
+
+  async deleteCervicalMucusRecord(userId: number, date: Date): Promise<boolean> {
+    return this.db.prepare('DELETE FROM cervical_mucus_records WHERE user_id = ? AND date = ?')
+      .run(userId, toDateString(date)).changes > 0;
+  }
+
+  // Medications
+  async getMedications(userId: number): Promise<Medication[]> {
+    const medications = this.db.prepare('SELECT * FROM medications WHERE user_id = ? ORDER BY id').all(userId) as any[];
+    const selectLogs = this.db.prepare('SELECT date FROM medication_logs WHERE medication_id = ? ORDER BY id');
+    return medications.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      ...(row.dose === null ? {} : { dose: row.dose }),
+      ...(row.frequency === null ? {} : { frequency: row.frequency }),
+      logs: selectLogs.all(row.id) as { date: string }[]
+    }));
+  }
+
+  private async getMedication(userId: number, medicationId: number): Promise<Medication | undefined> {
+    return (await this.getMedications(userId)).find(medication => medication.id === medicationId);
+  }
+
+  async createMedication(medication: InsertMedication): Promise<Medication> {
+    return this.db.transaction(() => {
+      const { lastInsertRowid } = this.db.prepare(
+        'INSERT INTO medications (user_id, name, dose, frequency) VALUES (?, ?, ?, ?)'
+      ).run(medication.userId, medication.name, medication.dose ?? null, medication.frequency ?? null);
+      const insertLog = this.db.prepare('INSERT INTO medication_logs (medication_id, date) VALUES (?, ?)');
+      medication.logs.forEach(log => insertLog.run(lastInsertRowid, log.date));
+      return { ...medication, id: Number(lastInsertRowid) };
+    })();
+  }
+
+  async logMedicationDose(userId: number, medicationId: number, date: string): Promise<Medication | undefined> {
+    const medication = await this.getMedication(userId, medicationId);
+    if (!medication) return undefined;
+    this.db.prepare('INSERT INTO medication_logs (medication_id, date) VALUES (?, ?)').run(medicationId, date);
+    return this.getMedication(userId, medicationId);
+  }
+
+  async removeMedicationLog(userId: number, medicationId: number, date: string): Promise<Medication | undefined> {
+    const medication = await this.getMedication(userId, medicationId);
+    if (!medication) return undefined;
+    this.db.prepare('DELETE FROM medication_logs WHERE medication_id = ? AND date = ?').run(medicationId, date);
+    return this.getMedication(userId, medicationId);
+  }
+
+  async deleteMedication(userId: number, medicationId: number): Promise<boolean> {
+    return this.db.prepare('DELETE FROM medications WHERE id = ? AND user_id = ?')
+      .run(medicationId, userId).changes > 0;
+  }
+
+  async importMedications(userId: number, medications: Medication[]): Promise<void> {
+    const insertMedication = this.db.prepare(
+      'INSERT OR REPLACE INTO medications (id, user_id, name, dose, frequency) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertLog = this.db.prepare('INSERT INTO medication_logs (medication_id, date) VALUES (?, ?)');
+    this.db.transaction(() => {
+      // Replace all of the user's medications, keeping imported ids and logs
+      this.db.prepare('DELETE FROM medications WHERE user_id = ?').run(userId);
+      for (const medication of medications) {
+        insertMedication.run(medication.id, userId, medication.name, medication.dose ?? null, medication.frequency ?? null);
+        (medication.logs || []).forEach(log => insertLog.run(medication.id, log.date));
+      }
+    })();
+  }
+
+  // Personal API tokens
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.db.prepare('SELECT * FROM api_tokens WHERE user_id = ? ORDER BY id').all(userId).map(toApiToken);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const row = this.db.prepare('SELECT * FROM api_tokens WHERE token_hash = ?').get(tokenHash);
+    return row ? toApiToken(row) : undefined;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const result = this.db.prepare(
+      'INSERT INTO api_tokens (user_id, name, scope, token_hash, token_prefix, created_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).run(token.userId, token.name, token.scope, token.tokenHash, token.tokenPrefix, token.createdAt, token.lastUsedAt);
+    return { ...token, id: Number(result.lastInsertRowid) };
+  }
+
+  async touchApiToken(id: number, lastUsedAt: string): Promise<void> {
+    this.db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').run(lastUsedAt, id);
+  }
+
+  async deleteApiToken(userId: number, id: number): Promise<boolean> {
+    return this.db.prepare('DELETE FROM api_tokens WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+  }
+
+  // Analytics
+  async getAverageCycleLength(userId: number): Promise<number | undefined> {
+    const startDates = (this.db.prepare('SELECT start_date FROM cycles WHERE user_id = ? ORDER BY start_date')
+      .all(userId) as { start_date: string }[]).map(row => row.start_date);
+    if (startDates.length < 2) return undefined;
+
+    const cycleLengths: number[] = [];
+    for (let i = 1; i < startDates.length; i++) {
+      const diffDays = Math.round((new Date(startDates[i]).getTime() - new Date(startDates[i - 1]).getTime()) / (1000 * 60 * 60 * 24));
+      if (diffDays > 0) cycleLengths.push(diffDays);
+    }
+    if (cycleLengths.length === 0) return undefined;
+    return Math.round(cycleLengths.reduce((a, b) => a + b, 0) / cycleLengths.length);
+  }
+
+  async getAveragePeriodLength(userId: number): Promise<number | undefined> {
+    const dates = (this.db.prepare('SELECT DISTINCT date FROM flow_records WHERE user_id = ? ORDER BY date')
+      .all(userId) as { date: string }[]).map(row => row.date);
+    if (dates.length === 0) return undefined;
+
+    // Identify periods (consecutive days with flow)
+    const periodLengths: number[] = [];
+    let currentLength = 1;
+    for (let i = 1; i < dates.length; i++) {
+      const diffDays = Math.round((new Date(dates[i]).getTime() - new Date(dates[i - 1]).getTime()) / (1000 * 60 * 60 * 24));
+      if (diffDays === 1) {
+        currentLength++;
+      } else {
+        periodLengths.push(currentLength);
+        currentLength = 1;
+      }
+    }
+    periodLengths.push(currentLength);
+
+    return Math.round(periodLengths.reduce((a, b) => a + b, 0) / periodLengths.length);
+  }
+
+  async getTopSymptoms(userId: number, limit: number): Promise<{symptomId: number, name: string, count: number}[]> {
+    const rows = this.db.prepare(`
+      SELECT r.symptom_id AS symptomId, s.name AS name, COUNT(*) AS count
+      FROM symptom_records r LEFT JOIN symptoms s ON s.id = r.symptom_id
+      WHERE r.user_id = ?
+      GROUP BY r.symptom_id
+      ORDER BY count DESC
+      LIMIT ?
+    `).all(userId, limit) as { symptomId: number, name: string | null, count: number }[];
+    return rows.map(row => ({ ...row, name: row.name || `Symptom ${row.symptomId}` }));
+  }
+
+  // Data management
+  async resetUserData(userId: number): Promise<void> {
+    const tables = [
+      'sex_records', 'cycles', 'flow_records', 'mood_records', 'symptom_records',
+      'daily_notes', 'user_settings', 'cervical_mucus_records', 'medications'
+    ];
+    this.db.transaction(() => {
+      tables.forEach(table => this.db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(userId));
+      // Delete custom symptoms (but keep default ones)
+      this.db.prepare('DELETE FROM symptoms WHERE user_id = ?').run(userId);
+    })();
+  }
+
+  flush(): void {
+    // Every write is committed as it happens; fold the WAL back into the database file
+    this.db.pragma('wal_checkpoint(TRUNCATE)');
+  }
+
+  reload(): void {
+    // Nothing is cached: every query reads the database
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    // db.transaction() can't wrap async work; the methods' own transactions become savepoints inside this one
+    this.db.exec('BEGIN');
+    try {
+      const result = await work();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { useTempDataDir } from './test-data-dir';
+
+useTempDataDir({ saveDelayMs: 60 * 60 * 1000 });
+const { storage } = await import('./storage');
+
+const user = await storage.createUser({ username: 'alice', password: 'x', email: '' });
+const notes = async () => (await storage.getDailyNotes(user.id)).map(note => note.notes).sort();
+
+test('a transaction started while another runs waits for it instead of failing', async () => {
+  const order: string[] = [];
+  const first = storage.transaction(async () => {
+    await storage.createDailyNote({ userId: user.id, date: '2024-01-01', notes: 'first' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    order.push('first');
+  });
+  const second = storage.transaction(async () => {
+    await storage.createDailyNote({ userId: user.id, date: '2024-01-02', notes: 'second' });
+    order.push('second');
+  });
+
+  await Promise.all([first, second]);
+  assert.deepEqual(order, ['first', 'second']);
+  assert.deepEqual(await notes(), ['first', 'second']);
+});
+
+test('a change to the same record made while a transaction runs is kept when the transaction fails', async () => {
+  const [note] = await storage.getDailyNotes(user.id);
+  let resume!: () => void;
+  const paused = new Promise<void>(resolve => { resume = resolve; });
+  const failing = storage.transaction(async () => {
+    await storage.updateDailyNote(note.id, { notes: 'changed by the import' });
+    await paused;
+    throw new Error('Import failed');
+  });
+  // Another request edits the same note; it waits for the transaction
+  const edit = storage.updateDailyNote(note.id, { notes: 'edited meanwhile' });
+  resume();
+
+  await assert.rejects(failing, /Import failed/);
+  await edit;
+  assert.equal((await storage.getDailyNotes(user.id)).find(saved => saved.id === note.id)?.notes, 'edited meanwhile');
+});
@@ -2,7 +2,8 @@ import {
   User, InsertUser, Cycle, InsertCycle, FlowRecord, InsertFlowRecord,
   MoodRecord, InsertMoodRecord, Symptom, InsertSymptom, SymptomRecord, 
   InsertSymptomRecord, DailyNote, InsertDailyNote, UserSettings, InsertUserSettings,
-  CervicalMucusRecord, InsertCervicalMucusRecord, SymptomCategory, SexRecord, InsertSexRecord
+  CervicalMucusRecord, InsertCervicalMucusRecord, SymptomCategory, SexRecord, InsertSexRecord,
+  Medication, InsertMedication, ApiToken, InsertApiToken
 } from "@shared/schema";
 
 // Re-export all types for downstream imports
@@ -11,7 +12,8 @@ export type {
   MoodRecord, InsertMoodRecord, Symptom, InsertSymptom, SymptomRecord,
   InsertSymptomRecord, DailyNote, InsertDailyNote, UserSettings, InsertUserSettings,
   CervicalMucusRecord, InsertCervicalMucusRecord, SymptomCategory,
-  SexRecord, InsertSexRecord
+  SexRecord, InsertSexRecord, Medication, InsertMedication, MedicationLog,
+  ApiToken, InsertApiToken
 } from "@shared/schema";
 
 export interface IStorage {
@@ -42,9 +44,11 @@ export interface IStorage {
   deleteSexRecord(id: number): Promise<boolean>;
 
   // User operations
+  getUsers(): Promise<User[]>;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   
   // Cycle operations
   getCycles(userId: number): Promise<Cycle[]>;
@@ -100,6 +104,27 @@ export interface IStorage {
   updateCervicalMucusRecord(id: number, record: Partial<InsertCervicalMucusRecord>): Promise<CervicalMucusRecord | undefined>;
   deleteCervicalMucusRecord(userId: number, date: Date): Promise<boolean>;
   
+  // Medications
+  getMedications(userId: number): Promise<Medication[]>;
+  createMedication(medication: InsertMedication): Promise<Medication>;
+  logMedicationDose(userId: number, medicationId: number, date: string): Promise<Medication | undefined>;
+  removeMedicationLog(userId: number, medicationId: number, date: string): Promise<Medication | undefined>;
+  deleteMedication(userId: number, medicationId: number): Promise<boolean>;
+  /**
+   * Replace all of a user's medications, preserving ids and logs.
+   */
+  importMedications(userId: number, medications: Medication[]): Promise<void>;
+
+  // Personal API tokens
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  /**
+   * Record when a token was last used to authenticate a request.
+   */
+  touchApiToken(id: number, lastUsedAt: string): Promise<void>;
+  deleteApiToken(userId: number, id: number): Promise<boolean>;
+  
   // Analytics
   getAverageCycleLength(userId: number): Promise<number | undefined>;
   getAveragePeriodLength(userId: number): Promise<number | undefined>;
@@ -107,6 +132,25 @@ export interface IStorage {
   
   // Data management
   resetUserData(userId: number): Promise<void>;
+
+  /**
+   * Write any buffered changes to disk immediately. Must be synchronous so it
+   * can run from a process 'exit' handler.
+   */
+  flush(): void;
+
+  /**
+   * Read all data from disk again, e.g. after a backup was restored over it.
+   */
+  reload(): void;
+
+  /**
+   * Run `work` so that either all of its changes are kept or, if it throws,
+   * none are. Through `storage` (see serializeTransactions) transactions run
+   * one at a time, and changes from outside a running one wait until it has
+   * ended, so they are never rolled back with it.
+   */
+  transaction<T>(work: () => Promise<T>): Promise<T>;
 }
 
 export class MemStorage implements IStorage {
@@ -120,6 +164,8 @@ export class MemStorage implements IStorage {
   private userSettings: Map<number, UserSettings>;
   private cervicalMucusRecords: Map<number, CervicalMucusRecord> = new Map();
   private sexRecords: Map<number, SexRecord> = new Map();
+  private medications: Medication[] = [];
+  private apiTokens: ApiToken[] = [];
 
   currentUserId: number;
   currentCycleId: number;
@@ -259,6 +305,10 @@ export class MemStorage implements IStorage {
   }
 
   // User operations
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -276,6 +326,14 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: number, updateUser: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...updateUser };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   // Cycle operations
   async getCycles(userId: number): Promise<Cycle[]> {
     return Array.from(this.cycles.values())
@@ -579,7 +637,8 @@ export class MemStorage implements IStorage {
       defaultCycleLength: settings.defaultCycleLength ?? null,
       defaultPeriodLength: settings.defaultPeriodLength ?? null,
       showPmddSymptoms: typeof settings.showPmddSymptoms === 'boolean' ? settings.showPmddSymptoms : true,
-      showIntimateActivity: typeof settings.showIntimateActivity === 'boolean' ? settings.showIntimateActivity : true
+      showIntimateActivity: typeof settings.showIntimateActivity === 'boolean' ? settings.showIntimateActivity : true,
+      csvImportProfiles: settings.csvImportProfiles ?? []
     };
     this.userSettings.set(settings.id, cleanedSettings);
     return cleanedSettings;
@@ -636,6 +695,70 @@ export class MemStorage implements IStorage {
     return false;
   }
 
+  // Medications
+  async getMedications(userId: number): Promise<Medication[]> {
+    return this.medications.filter(m => m.userId === userId);
+  }
+
+  async createMedication(medication: InsertMedication): Promise<Medication> {
+    const id = this.medications.length ? Math.max(...this.medications.map(m => m.id)) + 1 : 1;
+    const newMedication = { ...medication, id };
+    this.medications.push(newMedication);
+    return newMedication;
+  }
+
+  async logMedicationDose(userId: number, medicationId: number, date: string): Promise<Medication | undefined> {
+    const medication = this.medications.find(m => m.userId === userId && m.id === medicationId);
+    medication?.logs.push({ date });
+    return medication;
+  }
+
+  async removeMedicationLog(userId: number, medicationId: number, date: string): Promise<Medication | undefined> {
+    const medication = this.medications.find(m => m.userId === userId && m.id === medicationId);
+    if (medication) {
+      medication.logs = medication.logs.filter(log => log.date !== date);
+    }
+    return medication;
+  }
+
+  async deleteMedication(userId: number, medicationId: number): Promise<boolean> {
+    const before = this.medications.length;
+    this.medications = this.medications.filter(m => !(m.userId === userId && m.id === medicationId));
+    return this.medications.length < before;
+  }
+
+  async importMedications(userId: number, medications: Medication[]): Promise<void> {
+    this.medications = this.medications
+      .filter(m => m.userId !== userId)
+      .concat(medications.map(m => ({ ...m, userId })));
+  }
+
+  // Personal API tokens
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.apiTokens.filter(t => t.userId === userId);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return this.apiTokens.find(t => t.tokenHash === tokenHash);
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokens.length ? Math.max(...this.apiTokens.map(t => t.id)) + 1 : 1;
+    const newToken = { ...token, id };
+    this.apiTokens.push(newToken);
+    return newToken;
+  }
+
+  async touchApiToken(id: number, lastUsedAt: string): Promise<void> {
+    this.apiTokens = this.apiTokens.map(t => (t.id === id ? { ...t, lastUsedAt } : t));
+  }
+
+  async deleteApiToken(userId: number, id: number): Promise<boolean> {
+    const before = this.apiTokens.length;
+    this.apiTokens = this.apiTokens.filter(t => !(t.userId === userId && t.id === id));
+    return this.apiTokens.length < before;
+  }
+
   // Analytics
   async getAverageCycleLength(userId: number): Promise<number | undefined> {
     const cycles = await this.getCycles(userId);
@@ -714,6 +837,9 @@ export class MemStorage implements IStorage {
   }
   
   async resetUserData(userId: number): Promise<void> {
+    // Remove all user medications
+    this.medications = this.medications.filter(m => m.userId !== userId);
+    
     // Remove all user cycles
     for (const [id, cycle] of this.cycles.entries()) {
       if (cycle.userId === userId) {
@@ -780,15 +906,108 @@ export class MemStorage implements IStorage {
       showIntimateActivity: true
     });
   }
+
+  flush(): void {
+    // Nothing to write: data only lives in memory
+  }
+
+  reload(): void {
+    // Nothing to read: data only lives in memory
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const snapshot = structuredClone({ ...this });
+    try {
+      return await work();
+    } catch (error) {
+      Object.assign(this, snapshot);
+      throw error;
+    }
+  }
 }
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { FileStorage } from './file-storage';
+import { SqliteStorage } from './sqlite-storage';
 import { config } from './config';
+import { dataEncryption } from './data-encryption';
+
+// IStorage methods that change nothing; all others are writes
+const isRead = (method: string) => method.startsWith('get') || method === 'flush' || method === 'reload';
+
+/**
+ * `backend` with one transaction at a time: a transaction started while
+ * another runs waits for it, and so does every write made outside it (reads
+ * don't wait). Writes made by the transaction's own work go ahead.
+ */
+export function serializeTransactions(backend: IStorage): IStorage {
+  const inTransaction = new AsyncLocalStorage<boolean>();
+  // Settles when the transactions started so far have ended
+  let queue: Promise<unknown> = Promise.resolve();
+  let running: Promise<unknown> | null = null;
+
+  const transaction = <T>(work: () => Promise<T>): Promise<T> => {
+    // Nested in the running transaction: it is part of that one
+    if (inTransaction.getStore()) return work();
+    const result = queue.then(async () => {
+      running = inTransaction.run(true, () => backend.transaction(work));
+      try {
+        return await (running as Promise<T>);
+      } finally {
+        running = null;
+      }
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return new Proxy(backend, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (property === 'transaction') return transaction;
+      if (typeof value !== 'function') return value;
+      if (typeof property !== 'string' || isRead(property)) return value.bind(target);
+      return async (...args: unknown[]) => {
+        while (running && !inTransaction.getStore()) await running.catch(() => undefined);
+        return value.apply(target, args);
+      };
+    }
+  });
+}
 
-// Always use file storage for local JSON data
+// The storage backend configured in config.json (JSON files by default).
+// Stays unset while encrypted data is locked; routes answer 423 until then.
 let storage: IStorage;
 
-console.log(`Using file storage at ${config.dataPath}`);
-storage = new FileStorage();
+/**
+ * Create the configured storage backend, once. Encrypted data must be unlocked first.
+ */
+export function openStorage(): IStorage {
+  if (storage) return storage;
+  if (config.storageBackend === 'sqlite') {
+    if (dataEncryption.isEnabled()) {
+      throw new Error('Encryption at rest is only supported with file storage (storageBackend "file")');
+    }
+    console.log(`Using SQLite storage at ${config.dataPath}`);
+    storage = serializeTransactions(new SqliteStorage());
+  } else {
+    console.log(`Using file storage at ${config.dataPath}`);
+    storage = serializeTransactions(new FileStorage());
+  }
+  return storage;
+}
+
+export function isStorageOpen(): boolean {
+  return storage !== undefined;
+}
+
+if (!dataEncryption.isEnabled()) {
+  openStorage();
+} else if (process.env.CYCLESENSE_PASSPHRASE) {
+  dataEncryption.unlock(process.env.CYCLESENSE_PASSPHRASE);
+  openStorage();
+} else {
+  console.log('Data is encrypted and locked: unlock it in the app or set CYCLESENSE_PASSPHRASE');
+}
 
 export { storage };
@@ -0,0 +1,20 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Move the test process into an empty temporary directory with a config.json
+ * of its own, so nothing a test does reaches ./data. Most server modules read
+ * the config as they are imported: call this first and import them afterwards.
+ * Returns the data directory the config points at.
+ */
+export function useTempDataDir(config: Record<string, unknown> = {}): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cyclesense-test-'));
+  fs.writeFileSync(
+    path.join(dir, 'config.json'),
+    JSON.stringify({ dataPath: './data', storageBackend: 'file', ...config })
+  );
+  process.chdir(dir);
+  process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'data');
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { X509Certificate } from 'crypto';
+import { generateSelfSignedCertificate } from './self-signed-cert';
+
+export interface TlsConfig {
+  certFile?: string;
+  keyFile?: string;
+  // Extra host names or IP addresses for a generated certificate
+  hostnames?: string[];
+}
+
+export interface TlsCredentials {
+  cert: string;
+  key: string;
+}
+
+const GENERATED_CERT_FILE = 'certs/cyclesense-cert.pem';
+const GENERATED_KEY_FILE = 'certs/cyclesense-key.pem';
+
+// Generated certificates are replaced this long before they expire
+const RENEW_BEFORE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Every name and address this machine is likely to be reached by
+function localNames(extra: string[]): string[] {
+  const addresses = Object.values(os.networkInterfaces())
+    .flatMap(interfaces => interfaces || [])
+    .filter(iface => !iface.internal && !iface.address.startsWith('fe80:'))
+    .map(iface => iface.address);
+  const names = ['localhost', os.hostname(), ...extra, '127.0.0.1', '::1', ...addresses];
+  return Array.from(new Set(names.filter(Boolean)));
+}
+
+function fingerprint(cert: string): string {
+  return new X509Certificate(cert).fingerprint256;
+}
+
+/**
+ * Certificate and key for HTTPS. User-supplied files are used as they are;
+ * otherwise a self-signed certificate is generated on first run, kept in
+ * certs/ and renewed when it is about to expire.
+ */
+export function loadTlsCredentials(config: TlsConfig): TlsCredentials {
+  if (config.certFile || config.keyFile) {
+    if (!config.certFile || !config.keyFile) {
+      throw new Error('Set both httpsCertFile and httpsKeyFile in config.json, or neither to use a generated certificate');
+    }
+    const certPath = path.resolve(process.cwd(), config.certFile);
+    const keyPath = path.resolve(process.cwd(), config.keyFile);
+    for (const file of [certPath, keyPath]) {
+      if (!fs.existsSync(file)) {
+        throw new Error(`HTTPS certificate file not found: ${file}`);
+      }
+    }
+    console.log(`[HTTPS] Using certificate ${certPath}`);
+    return { cert: fs.readFileSync(certPath, 'utf-8'), key: fs.readFileSync(keyPath, 'utf-8') };
+  }
+
+  const certPath = path.resolve(process.cwd(), GENERATED_CERT_FILE);
+  const keyPath = path.resolve(process.cwd(), GENERATED_KEY_FILE);
+  if (fs.existsSync(certPath) && fs.existsSync(keyPath)) {
+    const cert = fs.readFileSync(certPath, 'utf-8');
+    const validTo = new Date(new X509Certificate(cert).validTo);
+    if (validTo.getTime() - Date.now() > RENEW_BEFORE_MS) {
+      console.log(`[HTTPS] Using self-signed certificate ${certPath} (SHA-256 ${fingerprint(cert)})`);
+      return { cert, key: fs.readFileSync(keyPath, 'utf-8') };
+    }
+    console.log('[HTTPS] Self-signed certificate is about to expire; generating a new one');
+  }
+
+  const names = localNames(config.hostnames || []);
+  const generated = generateSelfSignedCertificate(names);
+  fs.mkdirSync(path.dirname(certPath), { recursive: true });
+  fs.writeFileSync(keyPath, generated.key, { mode: 0o600 });
+  fs.writeFileSync(certPath, generated.cert);
+  console.log(`[HTTPS] Generated a self-signed certificate for ${names.join(', ')}`);
+  console.log(`[HTTPS] Saved to ${certPath}, valid until ${generated.notAfter.toISOString().slice(0, 10)} (SHA-256 ${fingerprint(generated.cert)})`);
+  return { cert: generated.cert, key: generated.key };
+}
+
+/**
+ * Plain HTTP server that sends every request to the same path over HTTPS.
+ */
+export function createHttpsRedirectServer(httpsPort: number): http.Server {
+  return http.createServer((req, res) => {
+    // Host header without its port; IPv6 addresses come in brackets
+    const host = (req.headers.host || 'localhost').replace(/:\d+$/, '');
+    const portSuffix = httpsPort === 443 ? '' : `:${httpsPort}`;
+    res.writeHead(301, { Location: `https://${host}${portSuffix}${req.url || '/'}` });
+    res.end();
+  });
+}
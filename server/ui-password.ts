@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { verifyPassword } from './passwords';
+import { bearerToken, findApiToken } from './api-tokens';
+
+export interface UiPasswordConfig {
+  password: string;
+}
+
+const COOKIE_NAME = 'cyclesense.ui';
+const COOKIE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const LOGIN_PATH = '/ui-login';
+
+// After this many wrong passwords in a row, an IP address has to wait
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// The password that ships in config.json
+const DEFAULT_PASSWORD = 'changeMe123';
+
+interface FailedAttempts {
+  count: number;
+  lockedUntil: number;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+// Only redirect back to paths on this server
+function safeNextPath(value: unknown): string {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : '/';
+}
+
+function renderLoginPage(nextPath: string, error?: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>CycleSense</title>
+<style>
+  body { font-family: system-ui, sans-serif; background: #f5f3f7; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; }
+  form { background: #fff; padding: 24px; border-radius: 12px; box-shadow: 0 2px 12px rgba(0,0,0,0.1); width: 100%; max-width: 320px; margin: 16px; }
+  h1 { font-size: 18px; margin: 0 0 16px; }
+  input { width: 100%; box-sizing: border-box; padding: 10px; font-size: 16px; border: 1px solid #ccc; border-radius: 8px; }
+  button { width: 100%; margin-top: 12px; padding: 10px; font-size: 16px; border: 0; border-radius: 8px; background: #8b5cf6; color: #fff; cursor: pointer; }
+  .error { color: #b91c1c; font-size: 14px; margin-top: 12px; }
+</style>
+</head>
+<body>
+<form method="post" action="${LOGIN_PATH}">
+  <h1>CycleSense</h1>
+  <input type="password" name="password" placeholder="Password" autofocus required>
+  <input type="hidden" name="next" value="${escapeHtml(nextPath)}">
+  <button type="submit">Continue</button>
+  ${error ? `<div class="error">${escapeHtml(error)}</div>` : ''}
+</form>
+</body>
+</html>`;
+}
+
+/**
+ * Password prompt in front of the whole web UI and API, driven by uiPassword
+ * in config.json. Once the password is entered, a signed cookie lets the
+ * browser through. Wrong passwords are counted per IP address and lock it
+ * out for a while after MAX_FAILED_ATTEMPTS.
+ */
+export function uiPasswordMiddleware(config: UiPasswordConfig) {
+  // Cookies are signed with a key tied to the password, so changing the
+  // password (or restarting the server) asks everyone for it again
+  const secret = crypto.randomBytes(32);
+  const signingKey = crypto.createHmac('sha256', secret).update(config.password).digest();
+  const failures = new Map<string, FailedAttempts>();
+
+  if (config.password === DEFAULT_PASSWORD) {
+    console.warn('[UI Password] uiPassword is still the default from config.json. Change it to protect the app.');
+  }
+
+  const sign = (expires: number) => crypto.createHmac('sha256', signingKey).update(String(expires)).digest('hex');
+
+  const hasValidCookie = (req: Request): boolean => {
+    const [expires, signature] = (readCookie(req, COOKIE_NAME) || '').split('.');
+    if (!expires || !signature || Number(expires) < Date.now()) return false;
+    const expected = Buffer.from(sign(Number(expires)));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  };
+
+  const handleLogin = (req: Request, res: Response) => {
+    const ip = (req.ip || req.socket.remoteAddress || '').replace('::ffff:', '');
+    const nextPath = safeNextPath(req.body?.next);
+    const attempts = failures.get(ip);
+
+    if (attempts && attempts.lockedUntil > Date.now()) {
+      const minutes = Math.ceil((attempts.lockedUntil - Date.now()) / 60000);
+      return res.status(429).send(renderLoginPage(nextPath, `Too many attempts. Try again in ${minutes} minutes.`));
+    }
+
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    if (!verifyPassword(password, config.password)) {
+      const count = (attempts && attempts.lockedUntil === 0 ? attempts.count : 0) + 1;
+      if (count >= MAX_FAILED_ATTEMPTS) {
+        failures.set(ip, { count: 0, lockedUntil: Date.now() + LOCKOUT_MS });
+        console.warn(`[UI Password] Locked out ${ip} after ${count} wrong passwords`);
+        return res.status(429).send(renderLoginPage(nextPath, `Too many attempts. Try again in ${LOCKOUT_MS / 60000} minutes.`));
+      }
+      failures.set(ip, { count, lockedUntil: 0 });
+      return res.status(401).send(renderLoginPage(nextPath, 'Wrong password'));
+    }
+
+    failures.delete(ip);
+    const expires = Date.now() + COOKIE_MAX_AGE_MS;
+    res.cookie(COOKIE_NAME, `${expires}.${sign(expires)}`, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      maxAge: COOKIE_MAX_AGE_MS,
+    });
+    res.redirect(303, nextPath);
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.path === LOGIN_PATH) {
+      if (req.method === 'POST') return handleLogin(req, res);
+      return res.send(renderLoginPage(safeNextPath(req.query.next)));
+    }
+    if (req.path === '/api/health' || hasValidCookie(req)) {
+      return next();
+    }
+    if (req.path.startsWith('/api')) {
+      // Scripts using a valid API token don't have a browser to enter the password in
+      if (bearerToken(req)) {
+        return findApiToken(req)
+          .then(apiToken => apiToken ? next() : res.status(401).json({ message: 'Invalid API token' }))
+          .catch(next);
+      }
+      return res.status(401).json({ message: 'Enter the UI password first', uiPasswordRequired: true });
+    }
+    res.redirect(302, `${LOGIN_PATH}?next=${encodeURIComponent(req.originalUrl)}`);
+  };
+}
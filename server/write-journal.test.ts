@@ -0,0 +1,86 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { useTempDataDir } from './test-data-dir';
+
+const dataPath = useTempDataDir();
+fs.mkdirSync(dataPath, { recursive: true });
+const { WriteJournal, JournaledMap, DataIntegrityError } = await import('./write-journal');
+
+const journalPath = path.join(dataPath, 'journal.ndjson');
+
+// What a restarted process would rebuild from the journal alone
+function replay() {
+  const map = new JournaledMap<{ id: number; name: string }>('symptoms.json', new WriteJournal(dataPath));
+  new WriteJournal(dataPath).readEntries().forEach(entry => map.apply(entry));
+  return map;
+}
+
+test.beforeEach(() => fs.rmSync(journalPath, { force: true }));
+
+test('committed changes are replayed after a crash', () => {
+  const journal = new WriteJournal(dataPath);
+  const map = new JournaledMap<{ id: number; name: string }>('symptoms.json', journal);
+  map.set(1, { id: 1, name: 'Cramps' });
+  map.set(2, { id: 2, name: 'Headache' });
+  map.set(1, { id: 1, name: 'Back Pain' });
+  map.delete(2);
+  journal.commit();
+
+  const replayed = replay();
+  assert.deepEqual(Array.from(replayed.values()), [{ id: 1, name: 'Back Pain' }]);
+  assert.equal(replayed.dirty, true);
+});
+
+test('changes that were never committed are not replayed', () => {
+  const journal = new WriteJournal(dataPath);
+  const map = new JournaledMap<{ id: number; name: string }>('symptoms.json', journal);
+  map.set(1, { id: 1, name: 'Cramps' });
+  journal.commit();
+  map.set(2, { id: 2, name: 'Headache' });
+
+  assert.deepEqual(Array.from(replay().keys()), [1]);
+});
+
+test('a clear removes everything journaled before it', () => {
+  const journal = new WriteJournal(dataPath);
+  const map = new JournaledMap<{ id: number; name: string }>('symptoms.json', journal);
+  map.set(1, { id: 1, name: 'Cramps' });
+  map.clear();
+  map.set(3, { id: 3, name: 'Nausea' });
+  journal.commit();
+
+  assert.deepEqual(Array.from(replay().keys()), [3]);
+});
+
+test('an entry torn off by a crash mid-append is ignored', () => {
+  const journal = new WriteJournal(dataPath);
+  new JournaledMap('symptoms.json', journal).set(1, { id: 1, name: 'Cramps' });
+  journal.commit();
+  fs.appendFileSync(journalPath, '{"seq":2,"file":"symptoms.json","op":"se');
+
+  assert.deepEqual(Array.from(replay().keys()), [1]);
+});
+
+test('damage before the last entry is refused', () => {
+  const journal = new WriteJournal(dataPath);
+  const map = new JournaledMap('symptoms.json', journal);
+  map.set(1, { id: 1, name: 'Cramps' });
+  map.set(2, { id: 2, name: 'Headache' });
+  journal.commit();
+  const lines = fs.readFileSync(journalPath, 'utf-8').split('\n');
+  lines[0] = lines[0].slice(0, 10);
+  fs.writeFileSync(journalPath, lines.join('\n'));
+
+  assert.throws(() => new WriteJournal(dataPath).readEntries(), DataIntegrityError);
+});
+
+test('a checkpoint empties the journal', () => {
+  const journal = new WriteJournal(dataPath);
+  new JournaledMap('symptoms.json', journal).set(1, { id: 1, name: 'Cramps' });
+  journal.commit();
+  journal.checkpoint();
+
+  assert.deepEqual(new WriteJournal(dataPath).readEntries(), []);
+});
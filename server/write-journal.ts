@@ -0,0 +1,221 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+import { dataEncryption } from './data-encryption';
+
+export type JournalEntry =
+  | { seq: number; file: string; op: 'set'; id: number; value: unknown }
+  | { seq: number; file: string; op: 'delete'; id: number }
+  | { seq: number; file: string; op: 'clear' };
+
+type PendingEntry =
+  | { file: string; op: 'set'; id: number; value: unknown }
+  | { file: string; op: 'delete'; id: number }
+  | { file: string; op: 'clear' };
+
+/**
+ * Thrown when the data directory cannot be loaded without losing data.
+ * The server refuses to start rather than overwrite the damaged files.
+ */
+export class DataIntegrityError extends Error {
+  constructor(message: string, public readonly problems: string[]) {
+    super(`${message}\n  - ${problems.join('\n  - ')}`);
+    this.name = 'DataIntegrityError';
+  }
+}
+
+// Mutations made inside a transaction, held apart from everyone else's until it ends
+interface TransactionLog {
+  entries: string[];
+  undo: Array<() => void>;
+}
+
+/**
+ * Append-only log of storage mutations (one JSON entry per line).
+ *
+ * Mutations are recorded before the JSON data files are rewritten and the
+ * journal is truncated once those files are safely on disk. If the process
+ * dies in between, the entries are replayed on the next start.
+ */
+export class WriteJournal {
+  private journalPath: string;
+  private pending: string[] = [];
+  private seq = 0;
+  // Set while code runs inside transaction(), in that code's async context only
+  private transactionLog = new AsyncLocalStorage<TransactionLog>();
+
+  constructor(dataPath: string) {
+    this.journalPath = path.join(dataPath, 'journal.ndjson');
+  }
+
+  /**
+   * Queue a mutation. Nothing touches the disk until commit(). `undo`
+   * reverses it in memory, should the transaction it was made in fail.
+   */
+  record(entry: PendingEntry, undo: () => void) {
+    this.seq++;
+    const line = dataEncryption.encode(JSON.stringify({ seq: this.seq, ...entry }));
+    const transaction = this.transactionLog.getStore();
+    if (transaction) {
+      transaction.entries.push(line);
+      transaction.undo.push(undo);
+    } else {
+      this.pending.push(line);
+    }
+  }
+
+  hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Run `work` as a transaction. The mutations it makes are queued once it
+   * succeeds; if it throws they are undone, latest first, and never reach the
+   * journal. Mutations other requests make meanwhile are recorded as usual,
+   * whatever becomes of the transaction.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const log: TransactionLog = { entries: [], undo: [] };
+    try {
+      const result = await this.transactionLog.run(log, work);
+      this.pending.push(...log.entries);
+      return result;
+    } catch (error) {
+      log.undo.reverse().forEach(undo => undo());
+      throw error;
+    }
+  }
+
+  /**
+   * Append queued mutations to the journal file and fsync it.
+   */
+  commit() {
+    if (this.pending.length === 0) return;
+    const fd = fs.openSync(this.journalPath, 'a');
+    try {
+      fs.writeSync(fd, this.pending.join('\n') + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.pending = [];
+  }
+
+  /**
+   * Drop all committed entries once the data files reflect them.
+   */
+  checkpoint() {
+    if (fs.existsSync(this.journalPath) && fs.statSync(this.journalPath).size > 0) {
+      fs.truncateSync(this.journalPath, 0);
+    }
+  }
+
+  /**
+   * Read committed entries left over from a previous run.
+   * A torn final line (crash mid-append) is ignored; damage anywhere else
+   * means the journal cannot be trusted.
+   */
+  readEntries(): JournalEntry[] {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    const lines = fs.readFileSync(this.journalPath, 'utf-8').split('\n');
+    const entries: JournalEntry[] = [];
+    const problems: string[] = [];
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const entry = JSON.parse(dataEncryption.decode(line));
+        if (typeof entry.file !== 'string' || !['set', 'delete', 'clear'].includes(entry.op)) {
+          throw new Error('unknown entry shape');
+        }
+        entries.push(entry);
+      } catch (error) {
+        const isLastLine = lines.slice(index + 1).every(rest => !rest.trim());
+        if (isLastLine) {
+          console.warn(`[Journal] Ignoring incomplete final entry on line ${index + 1}`);
+        } else {
+          problems.push(`journal.ndjson line ${index + 1}: ${(error as Error).message}`);
+        }
+      }
+    });
+
+    if (problems.length > 0) {
+      throw new DataIntegrityError('Write journal is corrupt', problems);
+    }
+
+    if (entries.length > 0) {
+      this.seq = Math.max(this.seq, ...entries.map(entry => entry.seq || 0));
+    }
+    return entries;
+  }
+}
+
+/**
+ * Map keyed by record id that records every change in a WriteJournal.
+ * `dirty` stays set until the owner has written the map back to its file.
+ */
+export class JournaledMap<V> extends Map<number, V> {
+  private file: string;
+  private journal: WriteJournal;
+  dirty = false;
+
+  constructor(file: string, journal: WriteJournal) {
+    super();
+    this.file = file;
+    this.journal = journal;
+  }
+
+  set(id: number, value: V): this {
+    const had = super.has(id);
+    const previous = super.get(id);
+    super.set(id, value);
+    this.journal.record({ file: this.file, op: 'set', id, value }, () => {
+      if (had) super.set(id, previous!);
+      else super.delete(id);
+    });
+    this.dirty = true;
+    return this;
+  }
+
+  delete(id: number): boolean {
+    const previous = super.get(id);
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.journal.record({ file: this.file, op: 'delete', id }, () => super.set(id, previous!));
+      this.dirty = true;
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    if (this.size === 0) return;
+    const previous = Array.from(super.entries());
+    super.clear();
+    this.journal.record({ file: this.file, op: 'clear' }, () => previous.forEach(([id, value]) => super.set(id, value)));
+    this.dirty = true;
+  }
+
+  /**
+   * Replace the contents with records read from disk, without journaling.
+   */
+  load(records: V[], getId: (record: V) => number) {
+    super.clear();
+    records.forEach(record => super.set(getId(record), record));
+    this.dirty = false;
+  }
+
+  /**
+   * Apply a replayed journal entry, without journaling it again.
+   */
+  apply(entry: JournalEntry) {
+    if (entry.op === 'set') {
+      super.set(entry.id, entry.value as V);
+    } else if (entry.op === 'delete') {
+      super.delete(entry.id);
+    } else {
+      super.clear();
+    }
+    this.dirty = true;
+  }
+}
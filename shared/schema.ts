@@ -1,5 +1,9 @@
 import { z } from "zod";
 
+// Version of the stored data and export format. Bump it together with a new
+// step in server/data-migrations.ts whenever stored fields change shape.
+export const DATA_FORMAT_VERSION = 3;
+
 // Define schemas using zod for validation
 
 // User schema
@@ -86,11 +90,126 @@ export const sexRecordSchema = z.object({
   id: z.number(),
   userId: z.number(),
   date: z.string(), // ISO date string
-  protected: z.boolean().optional(), // Optional, for future extensibility
+  protected: z.boolean().optional(), // Whether protection was used, if recorded
 });
 
 export const insertSexRecordSchema = sexRecordSchema.omit({ id: true });
 
+// Date formats a CSV import can read, as date-fns patterns
+export const CSV_DATE_FORMATS = [
+  'yyyy-MM-dd',
+  'd/M/yyyy',
+  'M/d/yyyy',
+  'd.M.yyyy',
+  'd-M-yyyy',
+  'M-d-yyyy',
+  'yyyy/M/d',
+  'd/M/yy',
+  'M/d/yy',
+  'd MMM yyyy',
+  'MMM d, yyyy',
+] as const;
+
+// What one column of a CSV import holds. "symptoms" columns list symptom
+// names; a "symptom" column is a single symptom, its cells the intensity
+export const csvColumnMappingSchema = z.object({
+  field: z.enum(['date', 'flow', 'mood', 'symptoms', 'symptom', 'cervicalMucus', 'notes', 'medications', 'intimacy']),
+  symptom: z.string().trim().min(1).optional(), // for "symptom" columns; the column header if not given
+});
+
+// How the columns of a CSV file map onto records
+export const csvImportMappingSchema = z.object({
+  columns: z.record(z.string(), csvColumnMappingSchema), // keyed by column header; other columns are ignored
+  dateFormat: z.enum(CSV_DATE_FORMATS),
+});
+
+// A mapping saved under a name, to be reused for the next file from the same spreadsheet
+export const csvImportProfileSchema = csvImportMappingSchema.extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+// Columns a CSV export can have besides the date, in the order they appear
+export const CSV_EXPORT_COLUMNS = [
+  'cycleDay',
+  'flow',
+  'mood',
+  'symptoms',
+  'cervicalMucus',
+  'medications',
+  'intimacy',
+  'notes',
+] as const;
+
+// Spreadsheets in locales with a decimal comma expect semicolons
+export const CSV_EXPORT_DELIMITERS = { comma: ',', semicolon: ';', tab: '\t' } as const;
+
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date like 2024-05-01');
+
+// Both exports can be limited to the days from/to (inclusive)
+const exportDateRange = { from: isoDay.optional(), to: isoDay.optional() };
+const isDateRange = ({ from, to }: { from?: string; to?: string }) => !from || !to || from <= to;
+
+// Options of a CSV export, as its query parameters, e.g.
+// ?from=2024-01-01&to=2024-06-30&columns=flow,symptoms&delimiter=semicolon&symptomIntensities=true
+export const csvExportOptionsSchema = z.object({
+  ...exportDateRange,
+  // Comma-separated; all columns if not given
+  columns: z.string().optional()
+    .transform(value => value?.split(',').map(column => column.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(CSV_EXPORT_COLUMNS)).optional()),
+  delimiter: z.enum(['comma', 'semicolon', 'tab']).default('comma'),
+  // A "Symptom: <name>" column per symptom, holding its intensity
+  symptomIntensities: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+}).refine(isDateRange, { message: 'from is after to', path: ['to'] });
+
+// Options of the long-format export (one row per observation): ?format=ndjson&from=2024-01-01
+export const longExportOptionsSchema = z.object({
+  ...exportDateRange,
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+}).refine(isDateRange, { message: 'from is after to', path: ['to'] });
+
+// Options of the clinician report (PDF): ?from=2024-01-01&to=2024-06-30&notes=2024-02-03,2024-03-01
+export const clinicianReportOptionsSchema = z.object({
+  from: isoDay,
+  to: isoDay,
+  // Comma-separated days whose notes are printed; none if not given
+  notes: z.string().optional()
+    .transform(value => value?.split(',').map(day => day.trim()).filter(Boolean) ?? [])
+    .pipe(z.array(isoDay)),
+}).refine(isDateRange, { message: 'from is after to', path: ['to'] });
+
+/**
+ * Symptom ids in the hiddenSymptoms or hiddenCustomSymptoms setting. The
+ * settings page saves them as a JSON string ("[3,5]"); migrated data holds
+ * the array itself. Anything unreadable counts as nothing hidden.
+ */
+export function parseHiddenSymptomIds(value: unknown): number[] {
+  let ids = value;
+  if (typeof value === 'string') {
+    try {
+      ids = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(ids) ? ids.map(Number).filter(Number.isInteger) : [];
+}
+
+/**
+ * Settings with both hidden symptom lists as lists of ids, whichever way
+ * they were saved.
+ */
+export function withHiddenSymptomIds<T extends { hiddenSymptoms?: unknown; hiddenCustomSymptoms?: unknown }>(settings: T) {
+  return {
+    ...settings,
+    hiddenSymptoms: parseHiddenSymptomIds(settings.hiddenSymptoms),
+    hiddenCustomSymptoms: parseHiddenSymptomIds(settings.hiddenCustomSymptoms)
+  };
+}
+
+// Either form is accepted; the parsed value is always the list of ids
+const hiddenSymptomIdsSchema = z.union([z.string(), z.array(z.number().int())]).transform(parseHiddenSymptomIds);
+
 // User settings schema
 export const userSettingsSchema = z.object({
   id: z.number(),
@@ -101,12 +220,14 @@ export const userSettingsSchema = z.object({
   weeklySummary: z.boolean().nullable(),
   language: z.string().nullable(),
   dataStorage: z.string().nullable(),
-  hiddenSymptoms: z.array(z.string()),
+  hiddenSymptoms: hiddenSymptomIdsSchema,
+  hiddenCustomSymptoms: hiddenSymptomIdsSchema.optional(),
   medications: z.array(z.string()),
   defaultCycleLength: z.number().nullable(),
   defaultPeriodLength: z.number().nullable(),
   showPmddSymptoms: z.boolean().nullable(),
   showIntimateActivity: z.boolean().default(true),
+  csvImportProfiles: z.array(csvImportProfileSchema).optional(),
 });
 
 export const insertUserSettingsSchema = userSettingsSchema.omit({ id: true });
@@ -121,9 +242,53 @@ export const cervicalMucusSchema = z.object({
 
 export const insertCervicalMucusSchema = cervicalMucusSchema.omit({ id: true });
 
+// Medication log schema (one entry per dose taken)
+export const medicationLogSchema = z.object({
+  date: z.string(), // ISO date string
+});
+
+// Medication schema
+export const medicationSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  name: z.string().min(1),
+  dose: z.string().optional(),
+  frequency: z.string().optional(),
+  logs: z.array(medicationLogSchema),
+});
+
+export const insertMedicationSchema = medicationSchema
+  .omit({ id: true })
+  .extend({
+    logs: z.array(medicationLogSchema).default([])
+  });
+
+// Personal API token schema. Only a hash of the token is stored; the token
+// itself is shown once, when it is created.
+export const apiTokenSchema = z.object({
+  id: z.number(),
+  userId: z.number(),
+  name: z.string().trim().min(1).max(100),
+  scope: z.enum(['read', 'write']), // 'read' only allows GET requests
+  tokenHash: z.string(),
+  tokenPrefix: z.string(), // first characters, to tell tokens apart in the list
+  createdAt: z.string(), // ISO timestamp
+  lastUsedAt: z.string().nullable(), // ISO timestamp
+});
+
+export const insertApiTokenSchema = apiTokenSchema.omit({ id: true });
+
 // Export types
 export type User = z.infer<typeof userSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+export type CsvImportMapping = z.infer<typeof csvImportMappingSchema>;
+export type CsvImportProfile = z.infer<typeof csvImportProfileSchema>;
+export type CsvExportColumn = typeof CSV_EXPORT_COLUMNS[number];
+export type CsvExportOptions = z.infer<typeof csvExportOptionsSchema>;
+export type LongExportOptions = z.infer<typeof longExportOptionsSchema>;
+export type ClinicianReportOptions = z.infer<typeof clinicianReportOptionsSchema>;
+
 export type CervicalMucusRecord = z.infer<typeof cervicalMucusSchema>;
 export type InsertCervicalMucusRecord = z.infer<typeof insertCervicalMucusSchema>;
 
@@ -148,9 +313,16 @@ export type InsertDailyNote = z.infer<typeof insertDailyNoteSchema>;
 export type UserSettings = z.infer<typeof userSettingsSchema>;
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+
 export type SexRecord = z.infer<typeof sexRecordSchema>;
 export type InsertSexRecord = z.infer<typeof insertSexRecordSchema>;
 
+export type MedicationLog = z.infer<typeof medicationLogSchema>;
+export type Medication = z.infer<typeof medicationSchema>;
+export type InsertMedication = z.infer<typeof insertMedicationSchema>;
+
 // Define common enums for use in the app
 export const FlowIntensity = {
   SPOTTING: 'spotting',